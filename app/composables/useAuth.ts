@@ -1,4 +1,5 @@
 import type { UserRole } from '~/types/role'
+import { hasPermission, type Permission } from '~/config/permissions'
 
 // Global state for auth (singleton pattern)
 const globalAuthState = {
@@ -59,29 +60,20 @@ export const useAuth = () => {
     }
   }
 
-  // Register function
-  const register = async (email: string, password: string, fullName: string, role: UserRole) => {
+  // Set a new password for the signed-in user (invitation and reset links)
+  const updatePassword = async (password: string) => {
     try {
       globalAuthState.isLoading.value = true
       globalAuthState.error.value = null
       
-      const { data, error: authError } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: {
-            role: role,
-            full_name: fullName,
-          },
-        },
-      })
+      const { error: authError } = await supabase.auth.updateUser({ password })
       
       if (authError) {
         globalAuthState.error.value = authError.message
         return { success: false, error: authError.message }
       }
       
-      return { success: true, user: data.user }
+      return { success: true }
     } catch (err) {
       const message = err instanceof Error ? err.message : 'An error occurred'
       globalAuthState.error.value = message
@@ -157,14 +149,9 @@ export const useAuth = () => {
     }
   }
 
-  // Check if user has specific role
-  const hasRole = (role: UserRole): boolean => {
-    return globalAuthState.profile.value?.role === role
-  }
-
-  // Check if user has any of the specified roles
-  const hasAnyRole = (roles: UserRole[]): boolean => {
-    return globalAuthState.profile.value ? roles.includes(globalAuthState.profile.value.role) : false
+  // Check if user's role holds a permission (see config/permissions.ts)
+  const can = (permission: Permission): boolean => {
+    return hasPermission(globalAuthState.profile.value?.role, permission)
   }
 
   // Check if user is approved
@@ -177,30 +164,6 @@ export const useAuth = () => {
   const userRole = computed(() => globalAuthState.profile.value?.role || null)
   const isProfileLoaded = computed(() => globalAuthState.isInitialized.value)
 
-  // Delete user function (admin only)
-  const deleteUser = async (userId: string) => {
-    try {
-      globalAuthState.isLoading.value = true
-      globalAuthState.error.value = null
-      
-      // Then delete from Supabase auth (requires admin privileges)
-      const { error: authError } = await supabase.auth.admin.deleteUser(userId)
-      
-      if (authError) {
-        globalAuthState.error.value = authError.message
-        return { success: false, error: authError.message }
-      }
-      
-      return { success: true }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete user'
-      globalAuthState.error.value = errorMessage
-      return { success: false, error: errorMessage }
-    } finally {
-      globalAuthState.isLoading.value = false
-    }
-  }
-
   // Initialize profile fetch only once per user session
   if (!globalAuthState.isInitialized.value) {
     watch(user, async (newUser) => {
@@ -226,11 +189,9 @@ export const useAuth = () => {
     
     // Methods
     login,
-    register,
+    updatePassword,
     logout,
     fetchProfile,
-    deleteUser,
-    hasRole,
-    hasAnyRole
+    can
   }
 }
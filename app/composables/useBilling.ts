@@ -0,0 +1,27 @@
+import type { StudentBalance, StudentInvoice } from '~/types/billing'
+
+// Shared balance logic - every page and report reads balances from here
+export const useBilling = () => {
+  // Fetch balance and invoices for a single student
+  const fetchStudentBilling = (studentId: string) => {
+    return $fetch<{ balance: StudentBalance | null; invoices: StudentInvoice[] }>(
+      `/api/students/${studentId}/billing`
+    )
+  }
+
+  // Amount the student currently owes (credit counts as nothing owed)
+  const amountOwed = (balance?: StudentBalance | null) => {
+    return Math.max(0, Number(balance?.balance ?? 0))
+  }
+
+  // Prepaid credit carried over to future invoices
+  const creditAmount = (balance?: StudentBalance | null) => {
+    return Math.max(0, -Number(balance?.balance ?? 0))
+  }
+
+  return {
+    fetchStudentBilling,
+    amountOwed,
+    creditAmount
+  }
+}
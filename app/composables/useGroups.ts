@@ -0,0 +1,48 @@
+import type { Group } from '~/types/group'
+
+// Shared list of groups for pickers, reloaded when a form opens
+const groupsState = {
+  groups: ref<Group[]>([]),
+  isLoaded: ref(false)
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export const useGroups = () => {
+  const fetchGroups = async (force = false) => {
+    if (groupsState.isLoaded.value && !force) {
+      return groupsState.groups.value
+    }
+
+    const { groups } = await $fetch<{ groups: Group[] }>('/api/groups')
+    groupsState.groups.value = groups
+    groupsState.isLoaded.value = true
+    return groups
+  }
+
+  // Groups that have not finished yet
+  const activeGroups = computed(() => {
+    const today = new Date().toISOString().split('T')[0]!
+    return groupsState.groups.value.filter(group => !group.end_date || group.end_date >= today)
+  })
+
+  const isGroupFull = (group: Group) => group.student_count >= group.capacity
+
+  // Short schedule label, e.g. "Mon, Wed, Fri 18:00-19:30"
+  const formatSchedule = (group: Pick<Group, 'schedule_days' | 'start_time' | 'end_time'>) => {
+    const days = group.schedule_days.map(day => WEEKDAY_LABELS[day - 1]).join(', ')
+    const time = group.start_time
+      ? `${group.start_time.slice(0, 5)}${group.end_time ? `-${group.end_time.slice(0, 5)}` : ''}`
+      : ''
+    return [days, time].filter(Boolean).join(' ') || 'No schedule'
+  }
+
+  return {
+    groups: groupsState.groups,
+    activeGroups,
+    fetchGroups,
+    isGroupFull,
+    formatSchedule,
+    weekdayLabels: WEEKDAY_LABELS
+  }
+}
@@ -0,0 +1,47 @@
+import type { AppNotification } from '~/types/notification'
+
+// Shared notification list for the signed-in user
+const notificationsState = {
+  notifications: ref<AppNotification[]>([]),
+  unreadCount: ref(0),
+  isLoaded: ref(false)
+}
+
+export const useNotifications = () => {
+  // Load the latest notifications and the unread count
+  const fetchNotifications = async () => {
+    const data = await $fetch<{ notifications: AppNotification[]; unreadCount: number }>('/api/notifications')
+    notificationsState.notifications.value = data.notifications
+    notificationsState.unreadCount.value = data.unreadCount
+    notificationsState.isLoaded.value = true
+    return data.notifications
+  }
+
+  // Mark one notification as read
+  const markRead = async (notification: AppNotification) => {
+    if (notification.read_at) return
+
+    await $fetch(`/api/notifications/${notification.id}/read`, { method: 'POST' })
+    notification.read_at = new Date().toISOString()
+    notificationsState.unreadCount.value = Math.max(0, notificationsState.unreadCount.value - 1)
+  }
+
+  // Mark every notification as read
+  const markAllRead = async () => {
+    await $fetch('/api/notifications/read-all', { method: 'POST' })
+    const now = new Date().toISOString()
+    for (const notification of notificationsState.notifications.value) {
+      notification.read_at ??= now
+    }
+    notificationsState.unreadCount.value = 0
+  }
+
+  return {
+    notifications: notificationsState.notifications,
+    unreadCount: notificationsState.unreadCount,
+    isLoaded: notificationsState.isLoaded,
+    fetchNotifications,
+    markRead,
+    markAllRead
+  }
+}
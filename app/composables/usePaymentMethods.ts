@@ -0,0 +1,40 @@
+import type { PaymentMethod } from '~/types/payment'
+
+// Shared list of payment methods, loaded once per session
+const paymentMethodsState = {
+  methods: ref<PaymentMethod[]>([]),
+  isLoaded: ref(false)
+}
+
+export const usePaymentMethods = () => {
+  // Load every method (inactive ones are needed to label old payments)
+  const fetchPaymentMethods = async (force = false) => {
+    if (paymentMethodsState.isLoaded.value && !force) {
+      return paymentMethodsState.methods.value
+    }
+
+    const { methods } = await $fetch<{ methods: PaymentMethod[] }>('/api/payment-methods', {
+      query: { includeInactive: 'true' }
+    })
+    paymentMethodsState.methods.value = methods
+    paymentMethodsState.isLoaded.value = true
+    return methods
+  }
+
+  // Methods that can be chosen for new payments
+  const activePaymentMethods = computed(() => {
+    return paymentMethodsState.methods.value.filter(method => method.is_active)
+  })
+
+  // Display name for a payment method code
+  const getPaymentMethodName = (code: string) => {
+    return paymentMethodsState.methods.value.find(method => method.code === code)?.name || code
+  }
+
+  return {
+    paymentMethods: paymentMethodsState.methods,
+    activePaymentMethods,
+    fetchPaymentMethods,
+    getPaymentMethodName
+  }
+}
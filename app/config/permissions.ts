@@ -0,0 +1,62 @@
+import type { UserRole } from '~/types/role'
+
+// Every permission and the roles that hold it. This is the one place access
+// is decided: the route middleware, the sidebar, page meta, buttons and the
+// server routes all check these names instead of listing roles themselves.
+// Row-level rules (which students a sales manager sees) stay in the
+// database policies.
+export const PERMISSIONS = {
+  // Administration
+  'users.manage': ['superadmin'],
+  'audit.read': ['superadmin'],
+  'tariffs.manage': ['superadmin'],
+  'payment_methods.manage': ['superadmin'],
+
+  // Groups
+  'groups.read': ['superadmin', 'head_sales', 'sales', 'head_teaching', 'teacher'],
+  'groups.manage': ['head_teaching', 'superadmin'],
+
+  // Teaching
+  'lessons.manage': ['teacher', 'head_teaching', 'superadmin'],
+  'lessons.read.all': ['head_teaching', 'superadmin'],
+  'evaluations.manage': ['teacher', 'head_teaching', 'superadmin'],
+  // Change evaluations written by someone else
+  'evaluations.manage.all': ['head_teaching', 'superadmin'],
+  'evaluation_templates.manage': ['head_teaching', 'superadmin'],
+
+  // Students, own ones or the whole team's
+  'students.read.own': ['sales', 'head_sales', 'superadmin'],
+  'students.read.all': ['head_sales', 'superadmin'],
+  'students.manage': ['sales', 'head_sales', 'superadmin'],
+  'students.reassign': ['head_sales', 'superadmin'],
+  'students.import': ['head_sales', 'superadmin'],
+
+  // Payments of students the user manages
+  'payments.record': ['sales', 'head_sales', 'superadmin'],
+  // Edit, void and refund
+  'payments.refund': ['sales', 'head_sales', 'superadmin'],
+
+  // Leads
+  'leads.manage': ['sales', 'head_sales', 'superadmin'],
+  'leads.read.all': ['head_sales', 'superadmin'],
+
+  // Discounts
+  'discounts.manage': ['head_sales', 'superadmin'],
+  // Approve large manual discounts, or give them without approval
+  'discounts.approve': ['head_sales', 'superadmin'],
+
+  // Reports
+  'reports.read': ['head_teaching', 'head_sales', 'superadmin']
+} as const satisfies Record<string, readonly UserRole[]>
+
+export type Permission = keyof typeof PERMISSIONS
+
+// Roles a student can be assigned to (check_student_manager in
+// sales-team-schema.sql). Others who manage students pick one of them.
+export const STUDENT_MANAGER_ROLES: readonly UserRole[] = ['sales', 'head_sales']
+
+// Whether the role holds the permission
+export const hasPermission = (role: UserRole | null | undefined, permission: Permission): boolean => {
+  if (!role) return false
+  return (PERMISSIONS[permission] as readonly UserRole[]).includes(role)
+}
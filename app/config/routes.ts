@@ -1,191 +1,40 @@
 import type { UserRole } from '~/types/role'
+import { hasPermission, type Permission } from '~/config/permissions'
 
-export interface RoutePermission {
+export interface NavigationItem {
+  name: string
   path: string
-  allowedRoles: UserRole[]
-  description?: string
+  // Icon name, resolved by the dashboard layout
+  icon: string
+  // Same permission the page declares in its definePageMeta
+  permission?: Permission
 }
 
-// Define protected routes and their allowed roles
-export const protectedRoutes: RoutePermission[] = [
-  // Admin-only routes
-  {
-    path: '/users',
-    allowedRoles: ['superadmin'],
-    description: 'User management - superadmin only'
-  },
-  {
-    path: '/users/*',
-    allowedRoles: ['superadmin'],
-    description: 'User management sub-pages - superadmin only'
-  },
-  
-  // Teaching staff routes (teachers and head_teaching)
-  {
-    path: '/lessons',
-    allowedRoles: ['teacher', 'head_teaching', 'superadmin'],
-    description: 'Lesson management - teaching staff'
-  },
-  {
-    path: '/lessons/*',
-    allowedRoles: ['teacher', 'head_teaching', 'superadmin'],
-    description: 'Lesson management sub-pages - teaching staff'
-  },
-  {
-    path: '/evaluations',
-    allowedRoles: ['teacher', 'head_teaching', 'superadmin'],
-    description: 'Student evaluations - teaching staff'
-  },
-  {
-    path: '/evaluations/*',
-    allowedRoles: ['teacher', 'head_teaching', 'superadmin'],
-    description: 'Student evaluations sub-pages - teaching staff'
-  },
-  
-  // Sales staff routes
-  {
-    path: '/sales',
-    allowedRoles: ['sales', 'head_sales', 'superadmin'],
-    description: 'Sales dashboard - sales staff'
-  },
-  {
-    path: '/sales/*',
-    allowedRoles: ['sales', 'head_sales', 'superadmin'],
-    description: 'Sales sub-pages - sales staff'
-  },
-  {
-    path: '/leads',
-    allowedRoles: ['sales', 'head_sales', 'superadmin'],
-    description: 'Lead management - sales staff'
-  },
-  {
-    path: '/leads/*',
-    allowedRoles: ['sales', 'head_sales', 'superadmin'],
-    description: 'Lead management sub-pages - sales staff'
-  },
-  
-  // Head roles + superadmin routes
-  {
-    path: '/reports',
-    allowedRoles: ['head_teaching', 'head_sales', 'superadmin'],
-    description: 'Reports and analytics - management only'
-  },
-  {
-    path: '/reports/*',
-    allowedRoles: ['head_teaching', 'head_sales', 'superadmin'],
-    description: 'Reports sub-pages - management only'
-  },
-  {
-    path: '/settings',
-    allowedRoles: ['head_teaching', 'head_sales', 'superadmin'],
-    description: 'System settings - management only'
-  },
-  {
-    path: '/settings/*',
-    allowedRoles: ['head_teaching', 'head_sales', 'superadmin'],
-    description: 'Settings sub-pages - management only'
-  }
+// Sidebar entries in display order
+export const navigationItems: NavigationItem[] = [
+  { name: 'Dashboard', path: '/', icon: 'Home' },
+  { name: 'Users', path: '/users', icon: 'Users', permission: 'users.manage' },
+  { name: 'Tariffs', path: '/tariffs', icon: 'DollarSign', permission: 'tariffs.manage' },
+  { name: 'Payment Methods', path: '/settings/payment-methods', icon: 'Settings', permission: 'payment_methods.manage' },
+  { name: 'Audit Log', path: '/audit', icon: 'History', permission: 'audit.read' },
+  { name: 'Sales', path: '/sales', icon: 'GraduationCap', permission: 'students.read.own' },
+  { name: 'Leads', path: '/leads', icon: 'Target', permission: 'leads.manage' },
+  { name: 'Lessons', path: '/lessons', icon: 'BookOpen', permission: 'lessons.manage' },
+  { name: 'Evaluations', path: '/evaluations', icon: 'ClipboardList', permission: 'evaluations.manage' },
+  { name: 'Groups', path: '/groups', icon: 'Layers', permission: 'groups.read' },
+  { name: 'Reports', path: '/reports', icon: 'BarChart3', permission: 'reports.read' },
+  { name: 'Import', path: '/imports', icon: 'Upload', permission: 'students.import' },
+  { name: 'Discounts', path: '/discounts', icon: 'Percent', permission: 'discounts.manage' }
 ]
 
-// Helper function to check if a user role can access a specific route
-export const canAccessRoute = (userRole: UserRole | null, routePath: string): boolean => {
+// Whether a role may open a page that requires the given permission
+// (pages without one are open to every signed-in user)
+export const canAccessRoute = (userRole: UserRole | null, permission: Permission | undefined): boolean => {
   if (!userRole) return false
-  
-  // Find matching route permission
-  const routePermission = protectedRoutes.find(route => {
-    // Handle wildcard routes
-    if (route.path.endsWith('/*')) {
-      const basePath = route.path.slice(0, -2)
-      return routePath.startsWith(basePath)
-    }
-    return route.path === routePath
-  })
-  
-  // If no specific permission found, allow access (public route)
-  if (!routePermission) return true
-  
-  // Check if user role is in allowed roles
-  return routePermission.allowedRoles.includes(userRole)
+  return !permission || hasPermission(userRole, permission)
 }
 
-// Get routes accessible by a specific role
-export const getAccessibleRoutes = (userRole: UserRole | null): RoutePermission[] => {
-  if (!userRole) return []
-  
-  return protectedRoutes.filter(route => 
-    route.allowedRoles.includes(userRole)
-  )
-}
-
-// Get role-based navigation items
+// Sidebar entries the role can open
 export const getNavigationItems = (userRole: UserRole | null) => {
-  if (!userRole) return []
-  
-  const navItems = []
-  
-  // Dashboard is always accessible
-  navItems.push({
-    name: 'Dashboard',
-    path: '/',
-    icon: 'Home'
-  })
-  
-  // Admin routes
-  if (userRole === 'superadmin') {
-    navItems.push({
-      name: 'Users',
-      path: '/users',
-      icon: 'Users'
-    })
-  }
-  
-  // Teaching staff routes
-  if (['teacher', 'head_teaching', 'superadmin'].includes(userRole)) {
-    navItems.push(
-      {
-        name: 'Lessons',
-        path: '/lessons',
-        icon: 'BookOpen'
-      },
-      {
-        name: 'Evaluations',
-        path: '/evaluations',
-        icon: 'FileText'
-      }
-    )
-  }
-  
-  // Sales staff routes
-  if (['sales', 'head_sales', 'superadmin'].includes(userRole)) {
-    navItems.push(
-      {
-        name: 'Sales',
-        path: '/sales',
-        icon: 'GraduationCap'
-      },
-      {
-        name: 'Leads',
-        path: '/leads',
-        icon: 'Target'
-      }
-    )
-  }
-  
-  // Management routes
-  if (['head_teaching', 'head_sales', 'superadmin'].includes(userRole)) {
-    navItems.push(
-      {
-        name: 'Reports',
-        path: '/reports',
-        icon: 'BarChart3'
-      },
-      {
-        name: 'Settings',
-        path: '/settings',
-        icon: 'Settings'
-      }
-    )
-  }
-  
-  return navItems
+  return navigationItems.filter(item => canAccessRoute(userRole, item.permission))
 }
@@ -0,0 +1,5 @@
+// Extract a readable message from a failed $fetch call to server/api
+export const getApiErrorMessage = (err: unknown, fallback = 'An unexpected error occurred') => {
+  const error = err as { data?: { statusMessage?: string; message?: string }; statusMessage?: string; message?: string }
+  return error?.data?.statusMessage || error?.data?.message || error?.statusMessage || error?.message || fallback
+}
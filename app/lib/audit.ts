@@ -0,0 +1,83 @@
+import type { AuditAction, AuditEntity, AuditEntry } from '~/types/audit'
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntity, string> = {
+  profiles: 'User',
+  students: 'Student',
+  student_payments: 'Payment',
+  tariffs: 'Tariff',
+  tariff_prices: 'Price plan'
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: 'Created',
+  update: 'Updated',
+  delete: 'Deleted'
+}
+
+// Badge colours for each action
+export const getAuditActionClass = (action: AuditAction) => {
+  const classes: Record<AuditAction, string> = {
+    insert: 'bg-green-100 text-green-800',
+    update: 'bg-blue-100 text-blue-800',
+    delete: 'bg-red-100 text-red-800'
+  }
+  return classes[action]
+}
+
+// Columns that only repeat what the entry already says
+const HIDDEN_COLUMNS = ['id', 'created_at', 'updated_at']
+
+// Column name for display: "tariff_price_id" -> "Tariff price"
+export const formatAuditField = (field: string) => {
+  const name = field.replace(/_id$/, '').replace(/_/g, ' ')
+  return name.charAt(0).toUpperCase() + name.slice(1)
+}
+
+// Value for display, with ids replaced by the name they refer to
+export const formatAuditValue = (value: unknown, references: Record<string, string>) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  if (typeof value === 'string') return references[value] || value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Changed fields of an entry as before/after pairs
+export const getAuditChanges = (entry: AuditEntry) => {
+  const fields = Array.from(new Set([...Object.keys(entry.old_values || {}), ...Object.keys(entry.new_values || {})]))
+
+  return fields
+    .filter(field => !HIDDEN_COLUMNS.includes(field))
+    // Empty columns of a created or deleted row say nothing
+    .filter(field => entry.action === 'update' ||
+      (entry.action === 'delete' ? entry.old_values[field] : entry.new_values[field]) !== null)
+    .map(field => ({
+      field,
+      before: entry.old_values?.[field],
+      after: entry.new_values?.[field]
+    }))
+}
+
+// Time of an entry, e.g. "Mar 4, 2025, 02:15 PM"
+export const formatAuditTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
+
+// Short description of the changed record, e.g. the student's name
+export const getAuditRecordLabel = (entry: AuditEntry, references: Record<string, string>) => {
+  const values = { ...entry.old_values, ...entry.new_values }
+  const name = values.full_name || values.name || values.email || values.student_code
+
+  if (references[entry.record_id]) return references[entry.record_id]
+  if (typeof name === 'string' && name) return name
+  if (entry.table_name === 'student_payments' && entry.student_id) {
+    return references[entry.student_id] || 'Payment'
+  }
+  return entry.record_id.slice(0, 8)
+}
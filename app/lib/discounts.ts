@@ -0,0 +1,60 @@
+import type { DiscountCategory, DiscountKind, StudentDiscount, StudentDiscountStatus } from '~/types/discount'
+
+// Manual overrides that take a student's discounts past this share of the
+// monthly price need head of sales approval (see discount_approval_threshold in SQL)
+export const DISCOUNT_APPROVAL_THRESHOLD = 20
+
+export const DISCOUNT_CATEGORY_LABELS: Record<DiscountCategory, string> = {
+  general: 'General',
+  sibling: 'Sibling',
+  referral: 'Referral',
+  promo: 'Promo code'
+}
+
+export const DISCOUNT_KIND_LABELS: Record<DiscountKind, string> = {
+  percent: 'Percentage',
+  fixed: 'Fixed amount'
+}
+
+export const STUDENT_DISCOUNT_STATUS_LABELS: Record<StudentDiscountStatus, string> = {
+  pending: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected'
+}
+
+// Badge colours for each student discount status
+export const getStudentDiscountStatusClass = (status: StudentDiscountStatus) => {
+  const classes: Record<StudentDiscountStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-gray-200 text-gray-700'
+  }
+  return classes[status]
+}
+
+// "15%" or "50 000 UZS off" style value of a discount
+export const formatDiscountValue = (discount: { kind: DiscountKind; value: number }) => {
+  if (discount.kind === 'percent') return `${Number(discount.value)}%`
+
+  return `${new Intl.NumberFormat('uz-UZ', {
+    style: 'currency',
+    currency: 'UZS',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  }).format(discount.value)} off`
+}
+
+// Name of a student discount: its catalog entry, or "Manual discount"
+export const getStudentDiscountName = (discount: StudentDiscount) => {
+  if (!discount.discount) return 'Manual discount'
+  return discount.discount.promo_code
+    ? `${discount.discount.name} (${discount.discount.promo_code})`
+    : discount.discount.name
+}
+
+// Whether an approved discount applies today
+export const isStudentDiscountActive = (discount: StudentDiscount, today = new Date().toISOString().slice(0, 10)) => {
+  return discount.status === 'approved'
+    && discount.starts_on <= today
+    && (!discount.ends_on || discount.ends_on >= today)
+}
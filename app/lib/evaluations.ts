@@ -0,0 +1,26 @@
+import type { StudentEvaluation } from '~/types/evaluation'
+
+// Overall result as a whole percentage
+export const getEvaluationPercent = (evaluation: Pick<StudentEvaluation, 'total_score' | 'max_score'>) => {
+  const max = Number(evaluation.max_score)
+  return max > 0 ? Math.round((Number(evaluation.total_score) / max) * 100) : 0
+}
+
+// Badge colours for a result percentage
+export const getScoreClass = (percent: number) => {
+  if (percent >= 80) return 'bg-green-100 text-green-800'
+  if (percent >= 60) return 'bg-yellow-100 text-yellow-800'
+  return 'bg-red-100 text-red-800'
+}
+
+// Bar colours for a result percentage
+export const getScoreBarClass = (percent: number) => {
+  if (percent >= 80) return 'bg-green-500'
+  if (percent >= 60) return 'bg-yellow-500'
+  return 'bg-red-500'
+}
+
+// Score for display, e.g. "7.5" or "8"
+export const formatScore = (score: number) => {
+  return Number(score).toLocaleString('en-US', { maximumFractionDigits: 1 })
+}
@@ -0,0 +1,25 @@
+export type ExportFormat = 'csv' | 'xlsx'
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)'
+}
+
+// Download a file from one of the /api/exports endpoints, keeping the
+// file name chosen by the server
+export const downloadExport = async (path: string, query: Record<string, string | undefined>) => {
+  const response = await $fetch.raw<Blob>(path, { query, responseType: 'blob' })
+  const disposition = response.headers.get('content-disposition') || ''
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || 'export'
+
+  const url = URL.createObjectURL(response._data as Blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+
+  // Give the browser time to start the download before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
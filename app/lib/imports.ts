@@ -0,0 +1,49 @@
+import type { ImportField, ImportMapping } from '~/types/import'
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; hint: string }[] = [
+  { field: 'student_code', label: 'Student code', hint: 'Existing codes add payments to that student; new ones are kept' },
+  { field: 'full_name', label: 'Full name', hint: 'Required for new students' },
+  { field: 'phone', label: 'Phone', hint: 'Required for new students' },
+  { field: 'tariff', label: 'Tariff', hint: 'Tariff name; required for new students' },
+  { field: 'price_plan', label: 'Price plan', hint: 'Plan name or price; optional when the tariff has one plan' },
+  { field: 'group', label: 'Group', hint: 'Group code; required for new students' },
+  { field: 'manager', label: 'Sales manager', hint: 'Email or full name; defaults to you' },
+  { field: 'registered_on', label: 'Registration date', hint: 'Billing starts from this date; defaults to today' },
+  { field: 'notes', label: 'Notes', hint: 'Optional' },
+  { field: 'payment_date', label: 'Payment date', hint: 'Needed with a payment amount' },
+  { field: 'payment_amount', label: 'Payment amount', hint: 'Needed with a payment date' },
+  { field: 'payment_method', label: 'Payment method', hint: 'Method name or code; defaults to Other' }
+]
+
+// Header spellings recognised when columns are mapped automatically
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  student_code: ['student code', 'code', 'id', 'kod', 'код'],
+  full_name: ['full name', 'name', 'student', 'fio', 'ism', 'фио', 'имя'],
+  phone: ['phone', 'phone number', 'telefon', 'tel', 'телефон'],
+  tariff: ['tariff', 'course', 'tarif', 'kurs', 'тариф', 'курс'],
+  price_plan: ['price plan', 'plan', 'price', 'narx', 'цена'],
+  group: ['group', 'group code', 'guruh', 'группа'],
+  manager: ['manager', 'sales manager', 'menejer', 'менеджер'],
+  registered_on: ['registration date', 'registered', 'registered on', 'start date', 'date joined', 'дата регистрации'],
+  notes: ['notes', 'note', 'comment', 'izoh', 'комментарий'],
+  payment_date: ['payment date', 'paid on', "to'lov sanasi", 'дата оплаты'],
+  payment_amount: ['payment amount', 'amount', 'paid', 'summa', 'сумма'],
+  payment_method: ['payment method', 'payment type', 'method', "to'lov turi", 'способ оплаты']
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[_\s]+/g, ' ')
+
+// Guess the column of each field from the header row
+export const guessImportMapping = (headers: string[]): ImportMapping => {
+  const mapping: ImportMapping = {}
+  const normalized = headers.map(normalizeHeader)
+
+  for (const { field } of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, position) =>
+      FIELD_ALIASES[field].includes(header) && !Object.values(mapping).includes(position)
+    )
+    if (index >= 0) mapping[field] = index
+  }
+
+  return mapping
+}
@@ -0,0 +1,40 @@
+import type { LeadSource, LeadStatus } from '~/types/lead'
+
+// Pipeline stages in order
+export const LEAD_STATUSES: LeadStatus[] = ['new', 'contacted', 'trial', 'negotiating', 'won', 'lost']
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  trial: 'Trial Lesson',
+  negotiating: 'Negotiating',
+  won: 'Won',
+  lost: 'Lost'
+}
+
+export const LEAD_SOURCE_LABELS: Record<LeadSource, string> = {
+  instagram: 'Instagram',
+  telegram: 'Telegram',
+  facebook: 'Facebook',
+  website: 'Website',
+  referral: 'Referral',
+  walk_in: 'Walk-in',
+  phone_call: 'Phone call',
+  other: 'Other'
+}
+
+// Badge colours for each lead status
+export const getLeadStatusClass = (status: LeadStatus) => {
+  const classes: Record<LeadStatus, string> = {
+    new: 'bg-blue-100 text-blue-800',
+    contacted: 'bg-indigo-100 text-indigo-800',
+    trial: 'bg-purple-100 text-purple-800',
+    negotiating: 'bg-yellow-100 text-yellow-800',
+    won: 'bg-green-100 text-green-800',
+    lost: 'bg-gray-200 text-gray-700'
+  }
+  return classes[status]
+}
+
+// Whether a lead is still being worked on
+export const isLeadOpen = (status: LeadStatus) => status !== 'won' && status !== 'lost'
@@ -0,0 +1,72 @@
+import type { Lesson, LessonStatus } from '~/types/lesson'
+import type { AttendanceStatus } from '~/types/attendance'
+
+export const LESSON_STATUS_LABELS: Record<LessonStatus, string> = {
+  scheduled: 'Scheduled',
+  held: 'Held',
+  cancelled: 'Cancelled',
+  rescheduled: 'Rescheduled'
+}
+
+// Badge colours for each lesson status
+export const getLessonStatusClass = (status: LessonStatus) => {
+  const classes: Record<LessonStatus, string> = {
+    scheduled: 'bg-blue-100 text-blue-800',
+    held: 'bg-green-100 text-green-800',
+    cancelled: 'bg-red-100 text-red-800',
+    rescheduled: 'bg-gray-200 text-gray-700'
+  }
+  return classes[status]
+}
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  absent: 'Absent',
+  excused: 'Excused'
+}
+
+// Badge colours for each attendance status
+export const getAttendanceStatusClass = (status: AttendanceStatus) => {
+  const classes: Record<AttendanceStatus, string> = {
+    present: 'bg-green-100 text-green-800',
+    late: 'bg-yellow-100 text-yellow-800',
+    absent: 'bg-red-100 text-red-800',
+    excused: 'bg-gray-100 text-gray-700'
+  }
+  return classes[status]
+}
+
+// Lesson time for display, e.g. "18:00-19:30"
+export const formatLessonTime = (lesson: Pick<Lesson, 'start_time' | 'end_time'>) => {
+  if (!lesson.start_time) return 'No time set'
+  return `${lesson.start_time.slice(0, 5)}${lesson.end_time ? `-${lesson.end_time.slice(0, 5)}` : ''}`
+}
+
+// Lesson date for display, e.g. "Mon, Oct 19"
+export const formatLessonDate = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+// Add days to a YYYY-MM-DD date
+export const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+// Monday of the week a YYYY-MM-DD date falls in
+export const getWeekStart = (date: string) => {
+  const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7
+  return addDays(date, -weekday)
+}
+
+// Local date as YYYY-MM-DD
+export const getLocalDate = () => {
+  const now = new Date()
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10)
+}
@@ -0,0 +1,30 @@
+import type { MessageChannel, MessageStatus, MessageTemplate } from '~/types/message'
+
+export const MESSAGE_TEMPLATE_LABELS: Record<MessageTemplate, string> = {
+  payment_received: 'Payment received',
+  payment_due: 'Payment due soon',
+  balance_overdue: 'Overdue balance'
+}
+
+export const MESSAGE_CHANNEL_LABELS: Record<MessageChannel, string> = {
+  sms: 'SMS',
+  telegram: 'Telegram'
+}
+
+export const MESSAGE_STATUS_LABELS: Record<MessageStatus, string> = {
+  pending: 'Queued',
+  sent: 'Sent',
+  failed: 'Failed',
+  skipped: 'Not sent'
+}
+
+// Badge colours for each message status
+export const getMessageStatusClass = (status: MessageStatus) => {
+  const classes: Record<MessageStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    sent: 'bg-green-100 text-green-800',
+    failed: 'bg-red-100 text-red-800',
+    skipped: 'bg-gray-100 text-gray-700'
+  }
+  return classes[status]
+}
@@ -0,0 +1,57 @@
+import type { UploadedAttachment } from '~/types/payment'
+
+export const RECEIPT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf']
+
+// Largest receipt accepted by the server (5MB)
+export const MAX_RECEIPT_SIZE = 5 * 1024 * 1024
+
+// Longest side of generated thumbnails, in pixels
+const THUMBNAIL_SIZE = 320
+
+// Quick check before uploading; the server checks the file contents again
+export const getReceiptFileError = (file: File) => {
+  if (!RECEIPT_MIME_TYPES.includes(file.type)) {
+    return 'Please upload an image (JPEG, PNG, WebP) or PDF file'
+  }
+  if (file.size > MAX_RECEIPT_SIZE) {
+    return 'Please upload a file smaller than 5MB'
+  }
+  return null
+}
+
+// Scale an image down to a small JPEG; null for PDFs or unreadable images
+export const createImageThumbnail = async (file: File): Promise<Blob | null> => {
+  if (!file.type.startsWith('image/')) return null
+
+  try {
+    const bitmap = await createImageBitmap(file)
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    bitmap.close()
+
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8))
+  } catch {
+    return null
+  }
+}
+
+// Upload one receipt (with a thumbnail for images) to the student's private folder
+export const uploadReceiptFile = async (studentId: string, file: File) => {
+  const formData = new FormData()
+  formData.append('file', file)
+
+  const thumbnail = await createImageThumbnail(file)
+  if (thumbnail) {
+    formData.append('thumbnail', thumbnail, 'thumbnail.jpg')
+  }
+
+  const { attachment } = await $fetch<{ attachment: UploadedAttachment }>(`/api/students/${studentId}/receipts`, {
+    method: 'POST',
+    body: formData
+  })
+
+  return attachment
+}
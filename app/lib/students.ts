@@ -0,0 +1,37 @@
+import type { StudentStatus } from '~/types/student'
+
+export const STUDENT_STATUS_LABELS: Record<StudentStatus, string> = {
+  trial: 'Trial',
+  active: 'Active',
+  frozen: 'Frozen',
+  graduated: 'Graduated',
+  dropped: 'Dropped'
+}
+
+// Statuses a student can move to from each status (see
+// check_student_status_change in SQL)
+export const STUDENT_STATUS_TRANSITIONS: Record<StudentStatus, StudentStatus[]> = {
+  trial: ['active', 'dropped'],
+  active: ['frozen', 'graduated', 'dropped'],
+  frozen: ['active', 'dropped'],
+  graduated: ['active'],
+  dropped: ['active']
+}
+
+// Badge colours for each student status
+export const getStudentStatusClass = (status: StudentStatus) => {
+  const classes: Record<StudentStatus, string> = {
+    trial: 'bg-purple-100 text-purple-800',
+    active: 'bg-green-100 text-green-800',
+    frozen: 'bg-sky-100 text-sky-800',
+    graduated: 'bg-blue-100 text-blue-800',
+    dropped: 'bg-gray-200 text-gray-700'
+  }
+  return classes[status]
+}
+
+// Label of a status change, e.g. "Active → Frozen" or "Enrolled as Trial"
+export const formatStudentStatusChange = (change: { from_status: StudentStatus | null; to_status: StudentStatus }) => {
+  if (!change.from_status) return `Enrolled as ${STUDENT_STATUS_LABELS[change.to_status]}`
+  return `${STUDENT_STATUS_LABELS[change.from_status]} → ${STUDENT_STATUS_LABELS[change.to_status]}`
+}
@@ -0,0 +1,43 @@
+import type { UserRole } from '~/types/role'
+import type { UserInvitation, UserProfile } from '~/types/user'
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  superadmin: 'Superadmin',
+  head_sales: 'Head of Sales',
+  sales: 'Sales',
+  head_teaching: 'Head of Teaching',
+  teacher: 'Teacher'
+}
+
+export type UserAccessStatus = 'active' | 'invited' | 'pending' | 'deactivated' | 'archived'
+
+export const USER_ACCESS_STATUS_LABELS: Record<UserAccessStatus, string> = {
+  active: 'Active',
+  invited: 'Invited',
+  pending: 'Pending',
+  deactivated: 'Deactivated',
+  archived: 'Archived'
+}
+
+// Where the user stands; invitees have not set their password yet
+export const getUserAccessStatus = (user: UserProfile, isInvited = false): UserAccessStatus => {
+  if (user.archived_at) return 'archived'
+  if (user.deactivated_at) return 'deactivated'
+  if (user.is_approved) return 'active'
+  return isInvited ? 'invited' : 'pending'
+}
+
+// Badge colours for each access status
+export const getUserAccessStatusClass = (status: UserAccessStatus) => {
+  const classes: Record<UserAccessStatus, string> = {
+    active: 'bg-green-100 text-green-800',
+    invited: 'bg-blue-100 text-blue-800',
+    pending: 'bg-yellow-100 text-yellow-800',
+    deactivated: 'bg-red-100 text-red-800',
+    archived: 'bg-gray-100 text-gray-700'
+  }
+  return classes[status]
+}
+
+// Whether the one-time link of the invitation has run out
+export const isInvitationExpired = (invitation: UserInvitation) => new Date(invitation.expires_at) <= new Date()
@@ -1,11 +1,17 @@
 import { canAccessRoute } from '~/config/routes'
 
-export default defineNuxtRouteMiddleware((to) => {
+export default defineNuxtRouteMiddleware(async (to) => {
   const user = useSupabaseUser()
-  const { profile, isApproved, isProfileLoaded } = useAuth()
+  const { profile, isApproved, isProfileLoaded, fetchProfile } = useAuth()
   
   // Public routes that don't require authentication
-  const publicRoutes = ['/auth/login', '/auth/register']
+  const publicRoutes = ['/auth/login']
+
+  // One-time links from invitation and password reset emails land here, signed
+  // in or not yet (the session is read from the link), approved or not
+  if (to.path === '/auth/set-password') {
+    return
+  }
   
   // Routes accessible to non-approved users
   const pendingApprovalRoutes = ['/auth/pending-approval', ...publicRoutes]
@@ -21,10 +27,15 @@ export default defineNuxtRouteMiddleware((to) => {
   
   // If user is authenticated, check approval status and role-based access
   if (user.value && !isPublicRoute) {
-    // Wait for profile to be loaded - this is critical for approval checks
-    if (!isProfileLoaded.value || !profile.value) {
-      // Profile is still loading, block navigation until loaded
-      return
+    // Wait for profile to be loaded - approval and page permissions depend on it
+    if (!isProfileLoaded.value) {
+      await fetchProfile()
+      await until(isProfileLoaded).toBe(true, { timeout: 5000 })
+    }
+
+    // Without a profile only pages that need no permission can be opened
+    if (!profile.value) {
+      return to.meta.permission ? navigateTo('/403') : undefined
     }
     
     // Check if user is approved
@@ -41,14 +52,14 @@ export default defineNuxtRouteMiddleware((to) => {
       return navigateTo('/')
     }
     
-    // Check if user has access to this route
-    if (!canAccessRoute(profile.value.role, to.path)) {
+    // Check the permission the page declares in its definePageMeta
+    if (!canAccessRoute(profile.value.role, to.meta.permission)) {
       // Redirect to custom 403 page
       return navigateTo('/403')
     }
   }
   
-  // If authenticated user tries to access auth pages (login/register), redirect to appropriate page
+  // If authenticated user tries to access auth pages (login), redirect to appropriate page
   if (user.value && isPublicRoute) {
     // Wait for profile to be loaded
     if (!isProfileLoaded.value || !profile.value) {
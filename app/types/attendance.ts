@@ -0,0 +1,43 @@
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'excused'
+
+export interface AttendanceMark {
+  id: string
+  lesson_id: string
+  student_id: string
+  status: AttendanceStatus
+  note: string | null
+  marked_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface AttendanceSheetStudent {
+  id: string
+  student_code: string
+  full_name: string
+}
+
+export interface AttendanceSummary {
+  student_id: string
+  total_lessons: number
+  present_count: number
+  late_count: number
+  absent_count: number
+  excused_count: number
+  attendance_rate: number | null
+}
+
+export interface StudentAttendanceEntry extends AttendanceMark {
+  lesson: {
+    id: string
+    lesson_date: string
+    start_time: string | null
+    end_time: string | null
+    status: string
+    topic: string | null
+    group: {
+      id: string
+      code: string
+    } | null
+  } | null
+}
@@ -0,0 +1,30 @@
+export type AuditEntity = 'profiles' | 'students' | 'student_payments' | 'tariffs' | 'tariff_prices'
+
+export type AuditAction = 'insert' | 'update' | 'delete'
+
+export interface AuditEntry {
+  id: string
+  table_name: AuditEntity
+  record_id: string
+  action: AuditAction
+  student_id: string | null
+  // Changed columns only for updates; the whole row for inserts and deletes
+  old_values: Record<string, unknown>
+  new_values: Record<string, unknown>
+  // Null for changes made outside a user session
+  actor_id: string | null
+  actor_name: string | null
+  created_at: string
+}
+
+export interface AuditHistoryResponse {
+  entries: AuditEntry[]
+  // Display names of ids found in the entries (tariffs, groups, managers...)
+  references: Record<string, string>
+}
+
+export interface AuditLogResponse extends AuditHistoryResponse {
+  total: number
+  page: number
+  pageSize: number
+}
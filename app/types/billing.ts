@@ -0,0 +1,31 @@
+export type InvoiceStatus = 'paid' | 'partial' | 'overdue' | 'open'
+
+export interface StudentInvoice {
+  id: string
+  student_id: string
+  tariff_price_id: string | null
+  period_start: string
+  period_end: string
+  due_date: string
+  // Price of the period before discounts
+  list_amount: number
+  discount_amount: number
+  // What the student owes for the period (list_amount - discount_amount)
+  amount: number
+  amount_paid: number
+  amount_open: number
+  status: InvoiceStatus
+  created_at: string
+}
+
+export interface StudentBalance {
+  student_id: string
+  total_invoiced: number
+  total_paid: number
+  // Positive when the student owes money, negative when they have credit
+  balance: number
+  open_invoices: number
+  oldest_open_due_date: string | null
+  last_period_end: string | null
+  total_refunded: number
+}
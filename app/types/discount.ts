@@ -0,0 +1,49 @@
+export type DiscountCategory = 'general' | 'sibling' | 'referral' | 'promo'
+export type DiscountKind = 'percent' | 'fixed'
+export type StudentDiscountStatus = 'pending' | 'approved' | 'rejected'
+
+export interface Discount {
+  id: string
+  name: string
+  category: DiscountCategory
+  kind: DiscountKind
+  value: number
+  promo_code: string | null
+  valid_from: string | null
+  valid_until: string | null
+  max_uses: number | null
+  duration_months: number | null
+  is_active: boolean
+  created_at: string
+  // Number of students the discount was given to (catalog listing only)
+  uses?: number
+}
+
+interface PersonRef {
+  id: string
+  full_name: string | null
+  email: string
+}
+
+export interface StudentDiscount {
+  id: string
+  student_id: string
+  // Empty for manual overrides
+  discount_id: string | null
+  kind: DiscountKind
+  value: number
+  reason: string | null
+  related_student_id: string | null
+  starts_on: string
+  ends_on: string | null
+  status: StudentDiscountStatus
+  review_note: string | null
+  reviewed_at: string | null
+  created_at: string
+  discount?: Pick<Discount, 'id' | 'name' | 'category' | 'promo_code'> | null
+  related_student?: { id: string; full_name: string } | null
+  requester?: PersonRef | null
+  reviewer?: PersonRef | null
+  // Present in the approval queue
+  student?: { id: string; full_name: string; tariff_price?: { id: string; name: string; price: number } | null } | null
+}
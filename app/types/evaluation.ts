@@ -0,0 +1,54 @@
+export interface EvaluationCriterion {
+  name: string
+  description: string | null
+  max_score: number
+}
+
+export interface EvaluationTemplate {
+  id: string
+  name: string
+  description: string | null
+  criteria: EvaluationCriterion[]
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export interface EvaluationScore {
+  id: string
+  position: number
+  // Criterion name and maximum as they were when the evaluation was recorded
+  criterion: string
+  max_score: number
+  score: number
+}
+
+export interface StudentEvaluation {
+  id: string
+  student_id: string
+  template_id: string
+  group_id: string | null
+  current_level: string | null
+  evaluation_date: string
+  recommended_level: string | null
+  comment: string | null
+  total_score: number
+  max_score: number
+  evaluated_by: string | null
+  created_at: string
+  updated_at: string
+  template?: {
+    id: string
+    name: string
+  } | null
+  group?: {
+    id: string
+    code: string
+  } | null
+  evaluator?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+  scores: EvaluationScore[]
+}
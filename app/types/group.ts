@@ -0,0 +1,49 @@
+import type { UserRole } from '~/types/role'
+
+export interface Teacher {
+  id: string
+  full_name: string | null
+  email: string
+  role: UserRole
+}
+
+export interface Group {
+  id: string
+  code: string
+  tariff_id: string | null
+  level: string | null
+  teacher_id: string | null
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  schedule_days: number[]
+  start_time: string | null
+  end_time: string | null
+  room: string | null
+  capacity: number
+  start_date: string | null
+  end_date: string | null
+  created_at: string
+  updated_at: string
+  tariff?: {
+    id: string
+    name: string
+  } | null
+  teacher?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+  student_count: number
+}
+
+export interface GroupStudent {
+  id: string
+  student_code: string
+  full_name: string
+  phone: string
+  created_at: string
+  manager?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+}
@@ -0,0 +1,57 @@
+// Student and payment fields a spreadsheet column can be mapped to
+export type ImportField =
+  | 'student_code'
+  | 'full_name'
+  | 'phone'
+  | 'tariff'
+  | 'price_plan'
+  | 'group'
+  | 'manager'
+  | 'registered_on'
+  | 'notes'
+  | 'payment_date'
+  | 'payment_amount'
+  | 'payment_method'
+
+// Column mapping: field -> column index in the uploaded file
+export type ImportMapping = Partial<Record<ImportField, number>>
+
+export interface ImportFile {
+  fileName: string
+  headers: string[]
+  // Non-blank data rows; row is the line number in the spreadsheet
+  rows: { row: number; cells: string[] }[]
+}
+
+export interface ImportRowInput {
+  row: number
+  values: Partial<Record<ImportField, string>>
+}
+
+export interface ImportRowResult {
+  row: number
+  student_code: string | null
+  full_name: string | null
+  // Whether the row creates a new student or belongs to an existing one
+  student: 'new' | 'existing' | null
+  payment_amount: number | null
+  errors: string[]
+}
+
+export interface ImportSummary {
+  rows: number
+  errorRows: number
+  newStudents: number
+  existingStudents: number
+  payments: number
+  paymentTotal: number
+}
+
+export interface ImportResponse {
+  success: boolean
+  message: string
+  dryRun: boolean
+  summary: ImportSummary
+  rows: ImportRowResult[]
+  batchId: string | null
+}
@@ -0,0 +1,35 @@
+export type LeadStatus = 'new' | 'contacted' | 'trial' | 'negotiating' | 'won' | 'lost'
+
+export type LeadSource = 'instagram' | 'telegram' | 'facebook' | 'website' | 'referral' | 'walk_in' | 'phone_call' | 'other'
+
+export interface Lead {
+  id: string
+  manager_id: string
+  full_name: string
+  phone: string
+  source: LeadSource
+  status: LeadStatus
+  interested_tariff_id: string | null
+  next_follow_up: string | null
+  notes: string | null
+  lost_reason: string | null
+  student_id: string | null
+  converted_at: string | null
+  status_changed_at: string
+  created_at: string
+  updated_at: string
+  interested_tariff?: {
+    id: string
+    name: string
+  } | null
+  manager?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+  student?: {
+    id: string
+    student_code: string
+    full_name: string
+  } | null
+}
@@ -0,0 +1,28 @@
+export type LessonStatus = 'scheduled' | 'held' | 'cancelled' | 'rescheduled'
+
+export interface Lesson {
+  id: string
+  group_id: string
+  teacher_id: string | null
+  lesson_date: string
+  start_time: string | null
+  end_time: string | null
+  room: string | null
+  status: LessonStatus
+  topic: string | null
+  homework: string | null
+  notes: string | null
+  rescheduled_to: string | null
+  created_at: string
+  updated_at: string
+  group?: {
+    id: string
+    code: string
+    level: string | null
+  } | null
+  teacher?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+}
@@ -0,0 +1,24 @@
+export type MessageTemplate = 'payment_received' | 'payment_due' | 'balance_overdue'
+
+export type MessageChannel = 'sms' | 'telegram'
+
+export type MessageStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+// SMS or Telegram message to a student (see student-messages-schema.sql)
+export interface StudentMessage {
+  id: string
+  student_id: string
+  template: MessageTemplate
+  channel: MessageChannel
+  // Phone number or Telegram chat ID
+  recipient: string
+  // Text as sent, empty until the message goes out
+  body: string | null
+  status: MessageStatus
+  provider: string | null
+  error: string | null
+  attempts: number
+  scheduled_for: string
+  sent_at: string | null
+  created_at: string
+}
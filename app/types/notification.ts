@@ -0,0 +1,10 @@
+export interface AppNotification {
+  id: string
+  type: string
+  title: string
+  body: string | null
+  link: string | null
+  student_id: string | null
+  read_at: string | null
+  created_at: string
+}
@@ -0,0 +1,10 @@
+import type { Permission } from '~/config/permissions'
+
+// Pages declare the permission they need with definePageMeta({ permission })
+declare module '#app' {
+  interface PageMeta {
+    permission?: Permission
+  }
+}
+
+export {}
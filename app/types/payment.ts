@@ -0,0 +1,69 @@
+export type PaymentStatus = 'active' | 'voided' | 'refunded'
+
+export interface PaymentMethod {
+  id: string
+  // Stable identifier stored on payments (student_payments.payment_type)
+  code: string
+  name: string
+  aliases: string[]
+  is_active: boolean
+  sort_order: number
+  created_at: string
+}
+
+export type PaymentHistoryAction = 'edited' | 'voided' | 'refunded'
+
+export interface PaymentHistoryEntry {
+  id: string
+  payment_id: string
+  action: PaymentHistoryAction
+  reason: string | null
+  amount: number | null
+  // Edited fields as { field: { from, to } }
+  changes: Record<string, { from: string | number | null; to: string | number | null }>
+  performed_by: string | null
+  performed_by_name: string | null
+  created_at: string
+}
+
+export interface PaymentAttachment {
+  id: string
+  payment_id: string
+  storage_path: string
+  thumbnail_path: string | null
+  file_name: string
+  mime_type: string
+  size_bytes: number | null
+  created_at: string
+  // Short-lived link, only present for images with a thumbnail
+  thumbnail_url?: string | null
+}
+
+// File uploaded to storage but not yet attached to a payment
+export type UploadedAttachment = Pick<PaymentAttachment, 'storage_path' | 'thumbnail_path' | 'file_name' | 'mime_type' | 'size_bytes'>
+
+export interface StudentPayment {
+  id: string
+  amount: number
+  payment_date: string
+  // Payment method code
+  payment_type: string
+  // Free text the payment had before payment methods were introduced
+  payment_type_original: string | null
+  // Single receipt from before attachments (migrated into attachments)
+  receipt_path: string | null
+  // Only set for old receipts stored outside our bucket
+  receipt_url: string | null
+  status: PaymentStatus
+  // Part of the amount returned to the student
+  refunded_amount: number
+  created_at: string
+  updated_at: string | null
+  history: PaymentHistoryEntry[]
+  attachments: PaymentAttachment[]
+}
+
+// Payment listed on the sales dashboard, with the student it belongs to
+export interface RecentPayment extends Pick<StudentPayment, 'id' | 'amount' | 'payment_date' | 'payment_type' | 'status' | 'refunded_amount' | 'created_at'> {
+  student: { id: string; student_code: string; full_name: string } | null
+}
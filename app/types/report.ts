@@ -0,0 +1,52 @@
+export type RevenueGrouping = 'month' | 'payment_type' | 'tariff' | 'manager'
+
+export interface RevenueReportRow {
+  // Month (YYYY-MM), payment method code, tariff id or manager id
+  key: string
+  label: string
+  payment_count: number
+  amount: number
+}
+
+export type DebtBucket = 'current' | '1_30' | '31_60' | '61_90' | '90_plus'
+
+export interface DebtAgingRow {
+  bucket: DebtBucket
+  label: string
+  student_count: number
+  invoice_count: number
+  amount: number
+}
+
+export interface EnrollmentReportRow {
+  // Month as YYYY-MM
+  month: string
+  label: string
+  active_at_start: number
+  new_students: number
+  // Students who dropped out during the month
+  churned_students: number
+  graduated_students: number
+  // Churned students as a percentage of active and new students
+  churn_rate: number
+  // Active and new students who did not drop out, as a percentage
+  retention_rate: number
+}
+
+export interface ReportResponse<Row> {
+  from: string
+  to: string
+  rows: Row[]
+}
+
+export interface BarChartSeries {
+  name: string
+  // Tailwind background class for the bars of this series
+  colorClass: string
+}
+
+export interface BarChartItem {
+  label: string
+  // One value per series, in the same order
+  values: number[]
+}
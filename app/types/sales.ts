@@ -0,0 +1,18 @@
+import type { UserRole } from '~/types/role'
+
+export interface SalesManager {
+  id: string
+  full_name: string | null
+  email: string
+  role: UserRole
+}
+
+export interface SalesManagerSummary {
+  manager_id: string
+  full_name: string | null
+  email: string
+  role: UserRole
+  student_count: number
+  total_collected: number
+  total_outstanding: number
+}
@@ -1,3 +1,7 @@
+import type { StudentBalance } from '~/types/billing'
+
+export type StudentStatus = 'trial' | 'active' | 'frozen' | 'graduated' | 'dropped'
+
 export interface Student {
   id: string
   manager_id: string
@@ -6,9 +10,15 @@ export interface Student {
   phone: string
   tariff_id: string
   tariff_price_id: string
-  group_code: string
+  group_id: string
   notes?: string
+  status: StudentStatus
+  // Set when reminders go to Telegram instead of SMS
+  telegram_chat_id?: string | null
+  // Set when the student asked not to get SMS or Telegram messages
+  messages_opted_out_at?: string | null
   created_at: string
+  archived_at?: string | null
 }
 
 export interface StudentPayment {
@@ -17,7 +27,8 @@ export interface StudentPayment {
   payment_date: string
   payment_type: string
   amount: number
-  receipt_url: string
+  receipt_path: string | null
+  receipt_url: string | null
   created_at: string
 }
 
@@ -31,4 +42,35 @@ export interface StudentWithTariff extends Student {
     name: string
     price: number
   }
+  group?: {
+    id: string
+    code: string
+  }
+  manager?: {
+    id: string
+    full_name: string | null
+    email: string
+  }
+}
+
+export interface StudentListItem extends StudentWithTariff {
+  balance: StudentBalance | null
+}
+
+export interface StudentStatusChange {
+  id: string
+  student_id: string
+  // Empty for the status the student was enrolled with
+  from_status: StudentStatus | null
+  to_status: StudentStatus
+  effective_from: string
+  // Last day of a freeze
+  effective_until: string | null
+  reason: string | null
+  created_at: string
+  author?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
 }
@@ -0,0 +1,30 @@
+export interface Tariff {
+  id: string
+  name: string
+  created_at: string
+  archived_at?: string | null
+}
+
+export interface TariffPrice {
+  id: string
+  name: string
+  tariff_id: string
+  price: number
+  created_at: string
+  archived_at?: string | null
+  versions?: Pick<TariffPriceVersion, 'id' | 'price' | 'effective_from' | 'applies_to_existing'>[]
+}
+
+export interface TariffPriceVersion {
+  id: string
+  tariff_price_id: string
+  price: number
+  effective_from: string
+  applies_to_existing: boolean
+  created_at: string
+  author?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+}
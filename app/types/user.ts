@@ -0,0 +1,31 @@
+import type { UserRole } from '~/types/role'
+
+export interface UserProfile {
+  id: string
+  email: string
+  full_name?: string
+  role: UserRole
+  is_approved: boolean
+  created_at: string
+  sales_id?: string
+  archived_at?: string | null
+  deactivated_at?: string | null
+}
+
+export interface UserInvitation {
+  id: string
+  email: string
+  full_name: string | null
+  role: UserRole
+  // Auth user created for the invitation
+  user_id: string | null
+  expires_at: string
+  accepted_at: string | null
+  revoked_at: string | null
+  created_at: string
+  invited_by_profile?: {
+    id: string
+    full_name: string | null
+    email: string
+  } | null
+}
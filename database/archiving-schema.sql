@@ -0,0 +1,200 @@
+-- Archiving: students, tariffs, price plans and users are archived instead of
+-- deleted, so payments and the history behind them are never lost
+--
+-- Archived rows stay in place with archived_at set and can be restored.
+-- Archived students are no longer invoiced, and periods they spent archived
+-- are not billed after a restore either (see student_archive_periods).
+-- Archived tariffs and price plans are hidden from pickers but keep working
+-- for the students already on them.
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tariffs ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE tariff_prices ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Students are archived, never deleted: deleting one would cascade away its
+-- payments, invoices and attendance
+DROP POLICY IF EXISTS "Sales staff can delete students they manage" ON students;
+
+-- Archive periods table: when each student was archived and restored
+CREATE TABLE IF NOT EXISTS student_archive_periods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  archived_on DATE NOT NULL,
+  -- Empty while the student is archived
+  restored_on DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (restored_on IS NULL OR restored_on >= archived_on)
+);
+
+-- Trigger: open an archive period when a student is archived and close it
+-- when they are restored
+CREATE OR REPLACE FUNCTION track_student_archive_period()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN
+    INSERT INTO student_archive_periods (student_id, archived_on)
+    VALUES (NEW.id, NEW.archived_at::DATE);
+  ELSIF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NULL THEN
+    UPDATE student_archive_periods
+    SET restored_on = GREATEST(CURRENT_DATE, archived_on)
+    WHERE student_id = NEW.id
+    AND restored_on IS NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_track_student_archive_period ON students;
+CREATE TRIGGER trigger_track_student_archive_period
+  AFTER UPDATE OF archived_at ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION track_student_archive_period();
+
+-- Whether the student was archived for the whole of a billing period
+CREATE OR REPLACE FUNCTION student_archived_during(p_student_id UUID, p_from DATE, p_to DATE)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM student_archive_periods ap
+    WHERE ap.student_id = p_student_id
+    AND ap.archived_on <= p_from
+    AND (ap.restored_on IS NULL OR ap.restored_on > p_to)
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Invoices: archived students are not billed, and periods spent archived
+-- are skipped when a student is restored
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    WHERE students.id = p_student_id
+    AND can_manage_student(students.manager_id)
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, s.archived_at, tp.price
+  INTO student
+  FROM students s
+  LEFT JOIN tariff_prices tp ON tp.id = s.tariff_price_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.archived_at IS NOT NULL OR student.price IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    v_period_end := (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE;
+
+    IF NOT student_archived_during(student.id, v_period_start, v_period_end) THEN
+      INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, amount)
+      VALUES (
+        student.id,
+        student.tariff_price_id,
+        v_period_start,
+        v_period_end,
+        v_period_start,
+        student.price
+      )
+      ON CONFLICT (student_id, period_start) DO NOTHING;
+
+      GET DIAGNOSTICS inserted_count = ROW_COUNT;
+      created_count := created_count + inserted_count;
+    END IF;
+
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Monthly invoices: skip archived students
+CREATE OR REPLACE FUNCTION generate_monthly_invoices(p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_student_id UUID;
+  created_count INTEGER := 0;
+BEGIN
+  FOR v_student_id IN SELECT id FROM students WHERE archived_at IS NULL LOOP
+    created_count := created_count + generate_student_invoices(v_student_id, p_until);
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_monthly_invoices(DATE) FROM PUBLIC, anon, authenticated;
+
+-- Group occupancy: archived students no longer take a seat
+CREATE OR REPLACE FUNCTION get_group_occupancy()
+RETURNS TABLE (group_id UUID, student_count INTEGER) AS $$
+  SELECT g.id, COUNT(s.id)::INTEGER
+  FROM groups g
+  LEFT JOIN students s ON s.group_id = g.id AND s.archived_at IS NULL
+  WHERE auth.uid() IS NOT NULL
+  GROUP BY g.id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Delete a tariff together with its price plans in one statement, so a
+-- failure cannot leave the tariff without prices. Runs as the caller, so
+-- the tariff policies apply; students keep a tariff from being deleted.
+CREATE OR REPLACE FUNCTION delete_tariff(p_tariff_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM tariff_prices WHERE tariff_id = p_tariff_id;
+  DELETE FROM tariffs WHERE id = p_tariff_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Tariff % not found', p_tariff_id
+      USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION delete_tariff(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION delete_tariff(UUID) TO authenticated;
+
+-- Enable RLS on archive periods
+ALTER TABLE student_archive_periods ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Archive periods follow the student's visibility
+-- (they are written by the trigger above)
+CREATE POLICY "Users can view archive periods of their students" ON student_archive_periods
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_archive_periods.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_archive_periods_student ON student_archive_periods(student_id, archived_on);
+CREATE INDEX IF NOT EXISTS idx_students_active ON students(created_at DESC) WHERE archived_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_students_archived_at ON students(archived_at) WHERE archived_at IS NOT NULL;
+
+-- Open an archive period for students archived before periods were tracked
+INSERT INTO student_archive_periods (student_id, archived_on)
+SELECT s.id, s.archived_at::DATE FROM students s
+WHERE s.archived_at IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM student_archive_periods ap WHERE ap.student_id = s.id);
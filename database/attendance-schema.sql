@@ -0,0 +1,251 @@
+-- Attendance per lesson and in-app absence alerts
+--
+-- Teachers mark every student of a lesson as present, late, absent or
+-- excused. When a student misses absence_alert_threshold lessons in a row
+-- (see app_settings), the student's sales manager gets an in-app
+-- notification. Excused absences and late arrivals end the streak.
+
+-- Application settings (one JSON value per key)
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO app_settings (key, value, description) VALUES
+  ('absence_alert_threshold', '3', 'Consecutive absences before the sales manager is alerted')
+ON CONFLICT (key) DO NOTHING;
+
+-- Enable RLS on app settings
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Every signed-in user can read settings
+CREATE POLICY "Authenticated users can view settings" ON app_settings
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Only superadmin can change settings
+CREATE POLICY "Superadmin can manage settings" ON app_settings
+  FOR ALL
+  USING (current_user_role() = 'superadmin')
+  WITH CHECK (current_user_role() = 'superadmin');
+
+-- Lesson attendance table
+CREATE TABLE IF NOT EXISTS lesson_attendance (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('present', 'late', 'absent', 'excused')),
+  note TEXT,
+  marked_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (lesson_id, student_id)
+);
+
+-- Enable RLS on lesson attendance
+ALTER TABLE lesson_attendance ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Teachers of the lesson and the student's sales managers can view attendance
+CREATE POLICY "Staff can view attendance" ON lesson_attendance
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM lessons
+      WHERE lessons.id = lesson_attendance.lesson_id
+      AND (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = lesson_attendance.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Whether a student may be marked on a lesson: they are in the lesson's
+-- group, or were marked on it before leaving the group
+CREATE OR REPLACE FUNCTION can_mark_attendance(p_lesson_id UUID, p_student_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM lessons l
+    JOIN students s ON s.group_id = l.group_id
+    WHERE l.id = p_lesson_id
+    AND s.id = p_student_id
+  )
+  OR EXISTS (
+    SELECT 1 FROM lesson_attendance a
+    WHERE a.lesson_id = p_lesson_id
+    AND a.student_id = p_student_id
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- RLS Policy: Teachers of the lesson mark attendance of its students
+CREATE POLICY "Teaching staff can mark attendance" ON lesson_attendance
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM lessons
+      WHERE lessons.id = lesson_attendance.lesson_id
+      AND (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid())
+    )
+    AND can_mark_attendance(lesson_attendance.lesson_id, lesson_attendance.student_id)
+  );
+
+CREATE POLICY "Teaching staff can update attendance" ON lesson_attendance
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM lessons
+      WHERE lessons.id = lesson_attendance.lesson_id
+      AND (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM lessons
+      WHERE lessons.id = lesson_attendance.lesson_id
+      AND (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid())
+    )
+    AND can_mark_attendance(lesson_attendance.lesson_id, lesson_attendance.student_id)
+  );
+
+-- Trigger: taking attendance means the lesson took place. Marked in the same
+-- statement as the attendance, so a lesson never keeps attendance while
+-- still scheduled.
+CREATE OR REPLACE FUNCTION mark_lesson_held()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE lessons
+  SET status = 'held',
+      updated_at = NOW()
+  WHERE id = NEW.lesson_id
+  AND status = 'scheduled';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_mark_lesson_held ON lesson_attendance;
+CREATE TRIGGER trigger_mark_lesson_held
+  AFTER INSERT OR UPDATE ON lesson_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION mark_lesson_held();
+
+-- Attendance totals and rate per student (late counts as attended,
+-- excused lessons are left out of the rate)
+CREATE OR REPLACE VIEW student_attendance_summary
+WITH (security_invoker = true) AS
+SELECT
+  a.student_id,
+  COUNT(*) AS total_lessons,
+  COUNT(*) FILTER (WHERE a.status = 'present') AS present_count,
+  COUNT(*) FILTER (WHERE a.status = 'late') AS late_count,
+  COUNT(*) FILTER (WHERE a.status = 'absent') AS absent_count,
+  COUNT(*) FILTER (WHERE a.status = 'excused') AS excused_count,
+  ROUND(
+    100.0 * COUNT(*) FILTER (WHERE a.status IN ('present', 'late'))
+    / NULLIF(COUNT(*) FILTER (WHERE a.status <> 'excused'), 0),
+    1
+  ) AS attendance_rate
+FROM lesson_attendance a
+GROUP BY a.student_id;
+
+-- In-app notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  student_id UUID REFERENCES students(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable RLS on notifications
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users see and mark their own notifications only
+-- (notifications are created by the triggers below)
+CREATE POLICY "Users can view their notifications" ON notifications
+  FOR SELECT
+  USING (notifications.user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications as read" ON notifications
+  FOR UPDATE
+  USING (notifications.user_id = auth.uid())
+  WITH CHECK (notifications.user_id = auth.uid());
+
+-- Alert the student's sales manager when an absence completes a streak
+CREATE OR REPLACE FUNCTION notify_absence_streak()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_threshold INTEGER;
+  v_streak INTEGER;
+  student RECORD;
+BEGIN
+  -- Saving the sheet again must not repeat the alert
+  IF TG_OP = 'UPDATE' AND OLD.status = 'absent' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE((value #>> '{}')::INTEGER, 3) INTO v_threshold
+  FROM app_settings
+  WHERE key = 'absence_alert_threshold';
+
+  v_threshold := COALESCE(v_threshold, 3);
+
+  -- Absences since the last lesson the student attended (or was excused from)
+  SELECT COUNT(*) INTO v_streak
+  FROM lesson_attendance a
+  JOIN lessons l ON l.id = a.lesson_id
+  WHERE a.student_id = NEW.student_id
+  AND a.status = 'absent'
+  AND l.lesson_date > COALESCE((
+    SELECT MAX(l2.lesson_date)
+    FROM lesson_attendance a2
+    JOIN lessons l2 ON l2.id = a2.lesson_id
+    WHERE a2.student_id = NEW.student_id
+    AND a2.status <> 'absent'
+  ), '-infinity'::DATE);
+
+  -- Alert once, when the streak reaches the threshold
+  IF v_streak <> v_threshold THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.id, s.full_name, s.student_code, s.manager_id, g.code AS group_code
+  INTO student
+  FROM students s
+  LEFT JOIN groups g ON g.id = s.group_id
+  WHERE s.id = NEW.student_id;
+
+  INSERT INTO notifications (user_id, type, title, body, link, student_id)
+  VALUES (
+    student.manager_id,
+    'absence_streak',
+    student.full_name || ' missed ' || v_streak || ' lessons in a row',
+    'Student ' || student.student_code
+      || COALESCE(' in group ' || student.group_code, '')
+      || ' has been absent from the last ' || v_streak || ' lessons.',
+    '/sales/students/' || student.id,
+    student.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_notify_absence_streak ON lesson_attendance;
+CREATE TRIGGER trigger_notify_absence_streak
+  AFTER INSERT OR UPDATE OF status ON lesson_attendance
+  FOR EACH ROW
+  WHEN (NEW.status = 'absent')
+  EXECUTE FUNCTION notify_absence_streak();
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_lesson_attendance_student_id ON lesson_attendance(student_id);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id, created_at DESC) WHERE read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
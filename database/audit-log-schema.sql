@@ -0,0 +1,154 @@
+-- Audit log: who changed what, for profiles, students, payments, tariffs
+-- and tariff prices
+--
+-- A trigger on each audited table writes one row per insert, update and
+-- delete with the signed-in user and a before/after diff: the changed
+-- columns only for updates, the whole row for inserts and deletes. Changes
+-- made outside a user session (service role, migrations) have no actor.
+-- Rows can be added but never changed or removed.
+
+-- Audit log table
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- Student the row belongs to (students and payments), kept without a
+  -- foreign key so the history outlives the student
+  student_id UUID,
+  old_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+  new_values JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- No foreign key either: deleting a user must not rewrite their entries
+  actor_id UUID,
+  actor_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Write an audit entry for the changed row
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_row JSONB := COALESCE(v_new, v_old);
+  v_old_values JSONB := '{}'::JSONB;
+  v_new_values JSONB := '{}'::JSONB;
+  v_key TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    FOR v_key IN SELECT jsonb_object_keys(v_new) LOOP
+      -- Timestamps that move on every update are not changes of their own
+      CONTINUE WHEN v_key = 'updated_at';
+
+      IF v_new->v_key IS DISTINCT FROM v_old->v_key THEN
+        v_old_values := v_old_values || jsonb_build_object(v_key, v_old->v_key);
+        v_new_values := v_new_values || jsonb_build_object(v_key, v_new->v_key);
+      END IF;
+    END LOOP;
+
+    IF v_new_values = '{}'::JSONB THEN
+      RETURN NULL;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_new_values := v_new;
+  ELSE
+    v_old_values := v_old;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, action, student_id, old_values, new_values, actor_id, actor_name)
+  VALUES (
+    TG_TABLE_NAME,
+    (v_row->>'id')::UUID,
+    lower(TG_OP),
+    CASE TG_TABLE_NAME
+      WHEN 'students' THEN (v_row->>'id')::UUID
+      WHEN 'student_payments' THEN (v_row->>'student_id')::UUID
+    END,
+    v_old_values,
+    v_new_values,
+    auth.uid(),
+    current_user_display_name()
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Audit triggers on every audited table
+DROP TRIGGER IF EXISTS trigger_audit_profiles ON profiles;
+CREATE TRIGGER trigger_audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_students ON students;
+CREATE TRIGGER trigger_audit_students
+  AFTER INSERT OR UPDATE OR DELETE ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_student_payments ON student_payments;
+CREATE TRIGGER trigger_audit_student_payments
+  AFTER INSERT OR UPDATE OR DELETE ON student_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_tariffs ON tariffs;
+CREATE TRIGGER trigger_audit_tariffs
+  AFTER INSERT OR UPDATE OR DELETE ON tariffs
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+DROP TRIGGER IF EXISTS trigger_audit_tariff_prices ON tariff_prices;
+CREATE TRIGGER trigger_audit_tariff_prices
+  AFTER INSERT OR UPDATE OR DELETE ON tariff_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_row_change();
+
+-- Keep the log append-only, including for the service role
+CREATE OR REPLACE FUNCTION prevent_audit_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log cannot be changed'
+    USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_audit_log_change ON audit_log;
+CREATE TRIGGER trigger_prevent_audit_log_change
+  BEFORE UPDATE OR DELETE ON audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_audit_log_change();
+
+DROP TRIGGER IF EXISTS trigger_prevent_audit_log_truncate ON audit_log;
+CREATE TRIGGER trigger_prevent_audit_log_truncate
+  BEFORE TRUNCATE ON audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION prevent_audit_log_change();
+
+-- Enable RLS on the audit log (entries are only written by the trigger)
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Superadmin sees the whole log
+CREATE POLICY "Superadmin can view the audit log" ON audit_log
+  FOR SELECT
+  USING (current_user_role() = 'superadmin');
+
+-- RLS Policy: Sales staff see the history of students they manage
+CREATE POLICY "Sales staff can view the history of their students" ON audit_log
+  FOR SELECT
+  USING (
+    student_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = audit_log.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_name ON audit_log(table_name, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON audit_log(actor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_student_id ON audit_log(student_id, created_at DESC) WHERE student_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_log_record_id ON audit_log(record_id);
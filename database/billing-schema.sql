@@ -0,0 +1,291 @@
+-- Monthly billing: invoices per student, payment allocations and balances
+--
+-- Every student is billed once per month starting from the day they were
+-- registered (students.created_at). Each invoice stores the amount of the
+-- student's tariff price at the moment it was generated, so later edits to
+-- tariff_prices never rewrite past invoices. Payments are allocated to the
+-- oldest open invoices first; any amount left over is kept as credit.
+
+-- Student invoices table
+CREATE TABLE IF NOT EXISTS student_invoices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  tariff_price_id UUID REFERENCES tariff_prices(id) ON DELETE SET NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  due_date DATE NOT NULL,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (student_id, period_start)
+);
+
+-- Payment allocations table (which part of a payment covers which invoice)
+CREATE TABLE IF NOT EXISTS payment_allocations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES student_payments(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES student_invoices(id) ON DELETE CASCADE,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (payment_id, invoice_id)
+);
+
+-- Re-allocate all payments of a student against their invoices (oldest first)
+CREATE OR REPLACE FUNCTION allocate_student_payments(p_student_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  payment RECORD;
+  invoice RECORD;
+  remaining NUMERIC(12,2);
+  invoice_open NUMERIC(12,2);
+  portion NUMERIC(12,2);
+BEGIN
+  DELETE FROM payment_allocations
+  WHERE invoice_id IN (SELECT id FROM student_invoices WHERE student_id = p_student_id);
+
+  FOR payment IN
+    SELECT id, amount FROM student_payments
+    WHERE student_id = p_student_id
+    ORDER BY payment_date, created_at
+  LOOP
+    remaining := payment.amount;
+
+    FOR invoice IN
+      SELECT id, amount FROM student_invoices
+      WHERE student_id = p_student_id
+      ORDER BY period_start
+    LOOP
+      EXIT WHEN remaining <= 0;
+
+      SELECT invoice.amount - COALESCE(SUM(amount), 0)
+      INTO invoice_open
+      FROM payment_allocations
+      WHERE invoice_id = invoice.id;
+
+      CONTINUE WHEN invoice_open <= 0;
+
+      portion := LEAST(remaining, invoice_open);
+
+      INSERT INTO payment_allocations (payment_id, invoice_id, amount)
+      VALUES (payment.id, invoice.id, portion);
+
+      remaining := remaining - portion;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Generate missing monthly invoices for one student up to a given date
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    JOIN profiles ON profiles.id = auth.uid()
+    WHERE students.id = p_student_id
+    AND (
+      (profiles.role IN ('sales', 'head_sales') AND students.manager_id = profiles.id)
+      OR profiles.role = 'superadmin'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, tp.price
+  INTO student
+  FROM students s
+  LEFT JOIN tariff_prices tp ON tp.id = s.tariff_price_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.price IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, amount)
+    VALUES (
+      student.id,
+      student.tariff_price_id,
+      v_period_start,
+      (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE,
+      v_period_start,
+      student.price
+    )
+    ON CONFLICT (student_id, period_start) DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    created_count := created_count + inserted_count;
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Generate missing invoices for every student (run daily by the app's
+-- "billing:invoices" task)
+CREATE OR REPLACE FUNCTION generate_monthly_invoices(p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_student_id UUID;
+  created_count INTEGER := 0;
+BEGIN
+  FOR v_student_id IN SELECT id FROM students LOOP
+    created_count := created_count + generate_student_invoices(v_student_id, p_until);
+  END LOOP;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler runs the bulk functions; staff may refresh a single student
+REVOKE EXECUTE ON FUNCTION generate_monthly_invoices(DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION allocate_student_payments(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION generate_student_invoices(UUID, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_student_invoices(UUID, DATE) TO authenticated;
+
+-- Trigger: invoice a new student for their first month right away
+CREATE OR REPLACE FUNCTION handle_student_billing_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM generate_student_invoices(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_student_billing ON students;
+CREATE TRIGGER trigger_student_billing
+  AFTER INSERT ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_student_billing_change();
+
+-- Trigger: keep allocations in sync whenever payments change. Runs as the
+-- owner because allocate_student_payments is not granted to signed-in users.
+CREATE OR REPLACE FUNCTION handle_payment_allocation_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM allocate_student_payments(OLD.student_id);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.student_id <> NEW.student_id THEN
+    PERFORM allocate_student_payments(OLD.student_id);
+  END IF;
+
+  PERFORM allocate_student_payments(NEW.student_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_payment_allocation ON student_payments;
+CREATE TRIGGER trigger_payment_allocation
+  AFTER INSERT OR UPDATE OF amount, payment_date, student_id OR DELETE ON student_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_payment_allocation_change();
+
+-- Balance per student: the single source for "amount owed" in the app
+CREATE OR REPLACE VIEW student_balances
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS student_id,
+  COALESCE(inv.total_invoiced, 0) AS total_invoiced,
+  COALESCE(pay.total_paid, 0) AS total_paid,
+  COALESCE(inv.total_invoiced, 0) - COALESCE(pay.total_paid, 0) AS balance,
+  COALESCE(inv.open_invoices, 0) AS open_invoices,
+  inv.oldest_open_due_date,
+  inv.last_period_end
+FROM students s
+LEFT JOIN (
+  SELECT
+    i.student_id,
+    SUM(i.amount) AS total_invoiced,
+    COUNT(*) FILTER (WHERE i.amount > COALESCE(a.allocated, 0)) AS open_invoices,
+    MIN(i.due_date) FILTER (WHERE i.amount > COALESCE(a.allocated, 0)) AS oldest_open_due_date,
+    MAX(i.period_end) AS last_period_end
+  FROM student_invoices i
+  LEFT JOIN (
+    SELECT invoice_id, SUM(amount) AS allocated
+    FROM payment_allocations
+    GROUP BY invoice_id
+  ) a ON a.invoice_id = i.id
+  GROUP BY i.student_id
+) inv ON inv.student_id = s.id
+LEFT JOIN (
+  SELECT student_id, SUM(amount) AS total_paid
+  FROM student_payments
+  GROUP BY student_id
+) pay ON pay.student_id = s.id;
+
+-- Invoice with paid/open amounts, used by the student detail page
+CREATE OR REPLACE VIEW student_invoice_status
+WITH (security_invoker = true) AS
+SELECT
+  i.*,
+  COALESCE(a.allocated, 0) AS amount_paid,
+  i.amount - COALESCE(a.allocated, 0) AS amount_open,
+  CASE
+    WHEN i.amount - COALESCE(a.allocated, 0) <= 0 THEN 'paid'
+    WHEN COALESCE(a.allocated, 0) > 0 THEN 'partial'
+    WHEN i.due_date < CURRENT_DATE THEN 'overdue'
+    ELSE 'open'
+  END AS status
+FROM student_invoices i
+LEFT JOIN (
+  SELECT invoice_id, SUM(amount) AS allocated
+  FROM payment_allocations
+  GROUP BY invoice_id
+) a ON a.invoice_id = i.id;
+
+-- Enable RLS on billing tables
+ALTER TABLE student_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can view invoices of students they manage
+CREATE POLICY "Users can view invoices for their students" ON student_invoices
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      JOIN profiles ON profiles.id = auth.uid()
+      WHERE students.id = student_invoices.student_id
+      AND (
+        (profiles.role IN ('sales', 'head_sales') AND students.manager_id = profiles.id)
+        OR profiles.role = 'superadmin'
+      )
+    )
+  );
+
+-- RLS Policy: Users can view allocations of payments they can see
+CREATE POLICY "Users can view allocations for their students" ON payment_allocations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM student_invoices
+      WHERE student_invoices.id = payment_allocations.invoice_id
+    )
+  );
+
+-- Invoices and allocations are written only by the billing functions above
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_invoices_student_id ON student_invoices(student_id);
+CREATE INDEX IF NOT EXISTS idx_student_invoices_period_start ON student_invoices(period_start);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment_id ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_invoice_id ON payment_allocations(invoice_id);
+
+-- Backfill invoices and allocations for existing students
+SELECT generate_monthly_invoices();
@@ -0,0 +1,493 @@
+-- Discounts: a catalog of percentage and fixed discounts (general, sibling,
+-- referral and time-limited promo codes) and the discounts given to each
+-- student, including manual overrides
+--
+-- A student discount applies to every billing period it overlaps. Invoices
+-- keep the list price (list_amount) next to the discount, and amount is what
+-- the student owes after discounts, so balances, allocations and reports
+-- all work on discounted amounts. Adding, approving or ending a discount
+-- re-prices the current and future invoices; finished periods stay as billed.
+--
+-- Manual overrides need a reason. When one would take the student's discounts
+-- over the approval threshold (a share of the monthly price), or the student
+-- has no price to compare with, and it was not given by the head of sales, it
+-- waits for their approval before it applies.
+
+-- Share of the monthly price above which a manual override needs approval
+CREATE OR REPLACE FUNCTION discount_approval_threshold()
+RETURNS NUMERIC AS $$
+  SELECT 20::NUMERIC
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Discount catalog table
+CREATE TABLE IF NOT EXISTS discounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'general' CHECK (category IN ('general', 'sibling', 'referral', 'promo')),
+  kind TEXT NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value NUMERIC(12,2) NOT NULL CHECK (value > 0),
+  -- Promo codes are stored upper-case and can only be redeemed between
+  -- valid_from and valid_until, at most max_uses times
+  promo_code TEXT UNIQUE CHECK (promo_code = upper(promo_code)),
+  valid_from DATE,
+  valid_until DATE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  -- How long the discount lasts once given; empty means until it is ended
+  duration_months INTEGER CHECK (duration_months > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (kind <> 'percent' OR value <= 100),
+  CHECK ((category = 'promo') = (promo_code IS NOT NULL)),
+  CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+-- Student discounts table
+CREATE TABLE IF NOT EXISTS student_discounts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  -- Empty for manual overrides
+  discount_id UUID REFERENCES discounts(id) ON DELETE RESTRICT,
+  kind TEXT NOT NULL CHECK (kind IN ('percent', 'fixed')),
+  value NUMERIC(12,2) NOT NULL CHECK (value > 0),
+  reason TEXT,
+  -- Sibling or referrer the discount is given for
+  related_student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+  starts_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ends_on DATE,
+  status TEXT NOT NULL DEFAULT 'approved' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  reviewed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (kind <> 'percent' OR value <= 100),
+  CHECK (ends_on IS NULL OR ends_on >= starts_on)
+);
+
+-- Invoices keep the list price next to the discount
+ALTER TABLE student_invoices ADD COLUMN IF NOT EXISTS list_amount NUMERIC(12,2);
+ALTER TABLE student_invoices ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(12,2) NOT NULL DEFAULT 0;
+
+UPDATE student_invoices SET list_amount = amount WHERE list_amount IS NULL;
+
+ALTER TABLE student_invoices ALTER COLUMN list_amount SET NOT NULL;
+
+-- Trigger: fill in and check a new student discount
+CREATE OR REPLACE FUNCTION check_student_discount()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_discount RECORD;
+  v_price NUMERIC;
+  v_share NUMERIC;
+  v_uses INTEGER;
+BEGIN
+  NEW.requested_by := COALESCE(auth.uid(), NEW.requested_by);
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+
+  IF NEW.related_student_id = NEW.student_id THEN
+    RAISE EXCEPTION 'A student cannot be their own sibling or referrer'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.discount_id IS NOT NULL THEN
+    SELECT * INTO v_discount FROM discounts WHERE id = NEW.discount_id;
+
+    IF NOT FOUND OR NOT v_discount.is_active THEN
+      RAISE EXCEPTION 'This discount is not available'
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_discount.category IN ('sibling', 'referral') AND NEW.related_student_id IS NULL THEN
+      RAISE EXCEPTION 'Choose the % this discount is given for',
+        CASE v_discount.category WHEN 'sibling' THEN 'sibling' ELSE 'referring student' END
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF v_discount.category = 'promo' THEN
+      IF (v_discount.valid_from IS NOT NULL AND CURRENT_DATE < v_discount.valid_from)
+        OR (v_discount.valid_until IS NOT NULL AND CURRENT_DATE > v_discount.valid_until) THEN
+        RAISE EXCEPTION 'Promo code % is not valid today', v_discount.promo_code
+          USING ERRCODE = '23514';
+      END IF;
+
+      IF v_discount.max_uses IS NOT NULL THEN
+        -- Serialize redemptions of the same code
+        PERFORM 1 FROM discounts WHERE id = v_discount.id FOR UPDATE;
+
+        SELECT COUNT(*) INTO v_uses
+        FROM student_discounts
+        WHERE discount_id = v_discount.id
+        AND status <> 'rejected';
+
+        IF v_uses >= v_discount.max_uses THEN
+          RAISE EXCEPTION 'Promo code % has been used up', v_discount.promo_code
+            USING ERRCODE = '23514';
+        END IF;
+      END IF;
+    END IF;
+
+    NEW.kind := v_discount.kind;
+    NEW.value := v_discount.value;
+    IF NEW.ends_on IS NULL AND v_discount.duration_months IS NOT NULL THEN
+      NEW.ends_on := (NEW.starts_on + make_interval(months => v_discount.duration_months) - INTERVAL '1 day')::DATE;
+    END IF;
+    NEW.status := 'approved';
+  ELSE
+    IF NULLIF(btrim(COALESCE(NEW.reason, '')), '') IS NULL THEN
+      RAISE EXCEPTION 'A manual discount needs a reason'
+        USING ERRCODE = '23514';
+    END IF;
+
+    -- Serialize overrides of the same student so they cannot be stacked
+    -- past the threshold side by side
+    PERFORM 1 FROM students WHERE id = NEW.student_id FOR UPDATE;
+
+    -- Compare with the student's current monthly price
+    SELECT tp.price INTO v_price
+    FROM students s
+    JOIN tariff_prices tp ON tp.id = s.tariff_price_id
+    WHERE s.id = NEW.student_id;
+
+    -- Share of the price taken by this and the student's other discounts
+    -- over the same dates
+    SELECT COALESCE(SUM(
+      CASE sd.kind
+        WHEN 'percent' THEN sd.value
+        ELSE sd.value * 100 / NULLIF(v_price, 0)
+      END
+    ), 0) + CASE NEW.kind
+      WHEN 'percent' THEN NEW.value
+      ELSE NEW.value * 100 / NULLIF(v_price, 0)
+    END
+    INTO v_share
+    FROM student_discounts sd
+    WHERE sd.student_id = NEW.student_id
+    AND sd.status <> 'rejected'
+    AND (sd.ends_on IS NULL OR sd.ends_on >= NEW.starts_on)
+    AND (NEW.ends_on IS NULL OR sd.starts_on <= NEW.ends_on);
+
+    IF current_user_role() IN ('head_sales', 'superadmin') THEN
+      NEW.status := 'approved';
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+    ELSIF COALESCE(v_price, 0) = 0 OR v_share > discount_approval_threshold() THEN
+      NEW.status := 'pending';
+    ELSE
+      NEW.status := 'approved';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_student_discount ON student_discounts;
+CREATE TRIGGER trigger_check_student_discount
+  BEFORE INSERT ON student_discounts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_discount();
+
+-- Trigger: a given discount is only reviewed or ended, never rewritten
+CREATE OR REPLACE FUNCTION check_student_discount_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.student_id, NEW.discount_id, NEW.kind, NEW.value, NEW.reason, NEW.related_student_id, NEW.starts_on, NEW.requested_by)
+    IS DISTINCT FROM
+    (OLD.student_id, OLD.discount_id, OLD.kind, OLD.value, OLD.reason, OLD.related_student_id, OLD.starts_on, OLD.requested_by) THEN
+    RAISE EXCEPTION 'A discount cannot be changed; end it and add a new one'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' OR NEW.status = 'pending' THEN
+      RAISE EXCEPTION 'Only pending discounts can be reviewed'
+        USING ERRCODE = '23514';
+    END IF;
+
+    IF current_user_role() NOT IN ('head_sales', 'superadmin') THEN
+      RAISE EXCEPTION 'Only the head of sales can review discounts'
+        USING ERRCODE = '42501';
+    END IF;
+
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  ELSE
+    NEW.reviewed_by := OLD.reviewed_by;
+    NEW.reviewed_at := OLD.reviewed_at;
+    NEW.review_note := OLD.review_note;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_student_discount_change ON student_discounts;
+CREATE TRIGGER trigger_check_student_discount_change
+  BEFORE UPDATE ON student_discounts
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_discount_change();
+
+-- Total discount of a student for one billing period, never more than the
+-- list price. Percentages are taken from the list price.
+CREATE OR REPLACE FUNCTION student_discount_amount(p_student_id UUID, p_period_start DATE, p_period_end DATE, p_list_amount NUMERIC)
+RETURNS NUMERIC AS $$
+  SELECT LEAST(p_list_amount, COALESCE(SUM(
+    CASE sd.kind
+      WHEN 'percent' THEN ROUND(p_list_amount * sd.value / 100, 2)
+      ELSE sd.value
+    END
+  ), 0))
+  FROM student_discounts sd
+  WHERE sd.student_id = p_student_id
+  AND sd.status = 'approved'
+  AND sd.starts_on <= p_period_end
+  AND (sd.ends_on IS NULL OR sd.ends_on >= p_period_start)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Re-price the current and future invoices of a student after their
+-- discounts changed, then re-allocate their payments
+CREATE OR REPLACE FUNCTION refresh_student_invoice_discounts(p_student_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE student_invoices i
+  SET discount_amount = d.discount_amount,
+      amount = i.list_amount - d.discount_amount
+  FROM (
+    SELECT id, student_discount_amount(student_id, period_start, period_end, list_amount) AS discount_amount
+    FROM student_invoices
+    WHERE student_id = p_student_id
+    AND period_end >= CURRENT_DATE
+  ) d
+  WHERE i.id = d.id
+  AND i.discount_amount IS DISTINCT FROM d.discount_amount;
+
+  PERFORM allocate_student_payments(p_student_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only discount changes re-price invoices
+REVOKE EXECUTE ON FUNCTION refresh_student_invoice_discounts(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: keep invoices in step with the student's discounts
+CREATE OR REPLACE FUNCTION handle_student_discount_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM refresh_student_invoice_discounts(COALESCE(NEW.student_id, OLD.student_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_student_discount_change ON student_discounts;
+CREATE TRIGGER trigger_student_discount_change
+  AFTER INSERT OR UPDATE OR DELETE ON student_discounts
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_student_discount_change();
+
+-- Invoices: list price of the period minus the student's discounts
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  v_price NUMERIC(12,2);
+  v_discount NUMERIC(12,2);
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    WHERE students.id = p_student_id
+    AND can_manage_student(students.manager_id)
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, s.price_plan_since, s.archived_at
+  INTO student
+  FROM students s
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.archived_at IS NOT NULL OR student.tariff_price_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    v_period_end := (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE;
+    v_price := tariff_price_on(student.tariff_price_id, v_period_start, student.price_plan_since);
+
+    IF v_price IS NOT NULL AND NOT student_archived_during(student.id, v_period_start, v_period_end) THEN
+      v_discount := student_discount_amount(student.id, v_period_start, v_period_end, v_price);
+
+      INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, list_amount, discount_amount, amount)
+      VALUES (
+        student.id,
+        student.tariff_price_id,
+        v_period_start,
+        v_period_end,
+        v_period_start,
+        v_price,
+        v_discount,
+        v_price - v_discount
+      )
+      ON CONFLICT (student_id, period_start) DO NOTHING;
+
+      GET DIAGNOSTICS inserted_count = ROW_COUNT;
+      created_count := created_count + inserted_count;
+    END IF;
+
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invoice status: recreated so it picks up the new invoice columns
+DROP VIEW IF EXISTS student_invoice_status;
+CREATE VIEW student_invoice_status
+WITH (security_invoker = true) AS
+SELECT
+  i.*,
+  COALESCE(a.allocated, 0) AS amount_paid,
+  i.amount - COALESCE(a.allocated, 0) AS amount_open,
+  CASE
+    WHEN i.amount - COALESCE(a.allocated, 0) <= 0 THEN 'paid'
+    WHEN COALESCE(a.allocated, 0) > 0 THEN 'partial'
+    WHEN i.due_date < CURRENT_DATE THEN 'overdue'
+    ELSE 'open'
+  END AS status
+FROM student_invoices i
+LEFT JOIN (
+  SELECT invoice_id, SUM(amount) AS allocated
+  FROM payment_allocations
+  GROUP BY invoice_id
+) a ON a.invoice_id = i.id;
+
+-- Create a student: recreated so the discount they join with (a promo code)
+-- is given in the same transaction. check_student_discount still decides
+-- whether the discount can be used, and a refused one undoes the student.
+DROP FUNCTION IF EXISTS create_student(JSONB, UUID);
+CREATE OR REPLACE FUNCTION create_student(p_student JSONB, p_lead_id UUID DEFAULT NULL, p_discount_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_columns TEXT;
+  v_lead_student_id UUID;
+  v_student_id UUID;
+BEGIN
+  IF p_lead_id IS NOT NULL THEN
+    SELECT student_id INTO v_lead_student_id
+    FROM leads
+    WHERE id = p_lead_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lead % not found', p_lead_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_lead_student_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This lead has already been converted into a student'
+        USING ERRCODE = '23505';
+    END IF;
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+  FROM jsonb_object_keys(p_student) AS key;
+
+  EXECUTE format(
+    'INSERT INTO students (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::students, $1) RETURNING id',
+    v_columns
+  )
+  USING p_student
+  INTO v_student_id;
+
+  IF p_lead_id IS NOT NULL THEN
+    UPDATE leads
+    SET status = 'won',
+        student_id = v_student_id,
+        converted_at = NOW(),
+        lost_reason = NULL,
+        updated_at = NOW()
+    WHERE id = p_lead_id;
+  END IF;
+
+  IF p_discount_id IS NOT NULL THEN
+    -- Placeholder kind and value; the trigger copies the catalog values
+    INSERT INTO student_discounts (student_id, discount_id, kind, value)
+    VALUES (v_student_id, p_discount_id, 'percent', 1);
+  END IF;
+
+  RETURN v_student_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_student(JSONB, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_student(JSONB, UUID, UUID) TO authenticated;
+
+-- Enable RLS on discount tables
+ALTER TABLE discounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_discounts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Everyone signed in can see the discount catalog
+CREATE POLICY "Authenticated users can view discounts" ON discounts
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Head of sales and superadmin manage the catalog
+CREATE POLICY "Head of sales can create discounts" ON discounts
+  FOR INSERT
+  WITH CHECK (current_user_role() IN ('head_sales', 'superadmin'));
+
+CREATE POLICY "Head of sales can update discounts" ON discounts
+  FOR UPDATE
+  USING (current_user_role() IN ('head_sales', 'superadmin'))
+  WITH CHECK (current_user_role() IN ('head_sales', 'superadmin'));
+
+-- RLS Policy: Student discounts follow the student's visibility
+CREATE POLICY "Users can view discounts of their students" ON student_discounts
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_discounts.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+CREATE POLICY "Users can give discounts to their students" ON student_discounts
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_discounts.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Reviews are limited to the head of sales by check_student_discount_change
+CREATE POLICY "Users can update discounts of their students" ON student_discounts
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_discounts.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_discounts_student_id ON student_discounts(student_id);
+CREATE INDEX IF NOT EXISTS idx_student_discounts_discount_id ON student_discounts(discount_id) WHERE discount_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_student_discounts_pending ON student_discounts(created_at) WHERE status = 'pending';
@@ -0,0 +1,276 @@
+-- Student evaluations: periodic scored progress reports
+--
+-- Head of teaching maintains evaluation templates, each a list of criteria
+-- (e.g. speaking, listening, grammar, vocabulary) with a maximum score.
+-- Teachers evaluate the students of their groups against a template and
+-- add a comment and a level recommendation. The criteria are copied into
+-- evaluation_scores, so later template changes leave old evaluations intact.
+
+-- Evaluation templates table
+CREATE TABLE IF NOT EXISTS evaluation_templates (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  -- [{ "name": "Speaking", "description": "...", "max_score": 10 }, ...]
+  criteria JSONB NOT NULL CHECK (jsonb_typeof(criteria) = 'array' AND jsonb_array_length(criteria) > 0),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Default template for the spoken-language courses
+INSERT INTO evaluation_templates (name, description, criteria) VALUES
+  (
+    'Monthly progress',
+    'Regular check of the four core skills',
+    '[
+      {"name": "Speaking", "description": "Fluency, accuracy and range in conversation", "max_score": 10},
+      {"name": "Listening", "description": "Understanding of speech at the group level", "max_score": 10},
+      {"name": "Grammar", "description": "Correct use of the structures covered so far", "max_score": 10},
+      {"name": "Vocabulary", "description": "Active use of the words covered so far", "max_score": 10}
+    ]'::JSONB
+  )
+ON CONFLICT (name) DO NOTHING;
+
+-- Student evaluations table
+CREATE TABLE IF NOT EXISTS student_evaluations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES evaluation_templates(id),
+  -- Group and level the student was in when evaluated
+  group_id UUID REFERENCES groups(id) ON DELETE SET NULL,
+  current_level TEXT,
+  evaluation_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  recommended_level TEXT,
+  comment TEXT,
+  total_score NUMERIC(6, 1) NOT NULL DEFAULT 0,
+  max_score NUMERIC(6, 1) NOT NULL DEFAULT 0,
+  evaluated_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Evaluation scores table (one row per criterion)
+CREATE TABLE IF NOT EXISTS evaluation_scores (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  evaluation_id UUID NOT NULL REFERENCES student_evaluations(id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL,
+  criterion TEXT NOT NULL,
+  max_score SMALLINT NOT NULL CHECK (max_score > 0),
+  score NUMERIC(4, 1) NOT NULL,
+  CONSTRAINT evaluation_scores_range CHECK (score >= 0 AND score <= max_score),
+  UNIQUE (evaluation_id, position)
+);
+
+-- Enable RLS on evaluation tables
+ALTER TABLE evaluation_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE student_evaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE evaluation_scores ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Every signed-in user can read templates
+CREATE POLICY "Authenticated users can view evaluation templates" ON evaluation_templates
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Head of teaching and superadmin manage templates
+CREATE POLICY "Head of teaching can manage evaluation templates" ON evaluation_templates
+  FOR ALL
+  USING (current_user_role() IN ('head_teaching', 'superadmin'))
+  WITH CHECK (current_user_role() IN ('head_teaching', 'superadmin'));
+
+-- RLS Policy: Teachers of the student's group, the author and the
+-- student's sales managers can view evaluations
+CREATE POLICY "Staff can view evaluations" ON student_evaluations
+  FOR SELECT
+  USING (
+    student_evaluations.evaluated_by = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_evaluations.student_id
+      AND (can_teach_group(students.group_id) OR can_manage_student(students.manager_id))
+    )
+  );
+
+-- RLS Policy: Teachers evaluate the students of their groups
+CREATE POLICY "Teaching staff can add evaluations" ON student_evaluations
+  FOR INSERT
+  WITH CHECK (
+    student_evaluations.evaluated_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_evaluations.student_id
+      AND can_teach_group(students.group_id)
+    )
+  );
+
+-- RLS Policy: The author, head of teaching and superadmin can change or remove an evaluation
+CREATE POLICY "Authors can update evaluations" ON student_evaluations
+  FOR UPDATE
+  USING (
+    student_evaluations.evaluated_by = auth.uid()
+    OR current_user_role() IN ('head_teaching', 'superadmin')
+  );
+
+CREATE POLICY "Authors can delete evaluations" ON student_evaluations
+  FOR DELETE
+  USING (
+    student_evaluations.evaluated_by = auth.uid()
+    OR current_user_role() IN ('head_teaching', 'superadmin')
+  );
+
+-- RLS Policy: Scores follow their evaluation
+CREATE POLICY "Staff can view evaluation scores" ON evaluation_scores
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM student_evaluations
+      WHERE student_evaluations.id = evaluation_scores.evaluation_id
+    )
+  );
+
+CREATE POLICY "Authors can add evaluation scores" ON evaluation_scores
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM student_evaluations
+      WHERE student_evaluations.id = evaluation_scores.evaluation_id
+      AND (
+        student_evaluations.evaluated_by = auth.uid()
+        OR current_user_role() IN ('head_teaching', 'superadmin')
+      )
+    )
+  );
+
+CREATE POLICY "Authors can update evaluation scores" ON evaluation_scores
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM student_evaluations
+      WHERE student_evaluations.id = evaluation_scores.evaluation_id
+      AND (
+        student_evaluations.evaluated_by = auth.uid()
+        OR current_user_role() IN ('head_teaching', 'superadmin')
+      )
+    )
+  );
+
+-- Record an evaluation with one score per template criterion, in template
+-- order. Runs as the caller, so the insert policies above still apply.
+CREATE OR REPLACE FUNCTION record_student_evaluation(
+  p_student_id UUID,
+  p_template_id UUID,
+  p_evaluation_date DATE,
+  p_recommended_level TEXT,
+  p_comment TEXT,
+  p_scores JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_template RECORD;
+  v_evaluation_id UUID;
+BEGIN
+  SELECT * INTO v_template FROM evaluation_templates WHERE id = p_template_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Evaluation template not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT v_template.is_active THEN
+    RAISE EXCEPTION 'Evaluation template "%" is no longer in use', v_template.name
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_scores, '[]'::JSONB)) <> jsonb_array_length(v_template.criteria) THEN
+    RAISE EXCEPTION 'Give a score for each of the % criteria', jsonb_array_length(v_template.criteria)
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO student_evaluations (student_id, template_id, group_id, current_level, evaluation_date, recommended_level, comment)
+  SELECT s.id, p_template_id, s.group_id, g.level, p_evaluation_date, p_recommended_level, p_comment
+  FROM students s
+  LEFT JOIN groups g ON g.id = s.group_id
+  WHERE s.id = p_student_id
+  RETURNING id INTO v_evaluation_id;
+
+  IF v_evaluation_id IS NULL THEN
+    RAISE EXCEPTION 'Student not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO evaluation_scores (evaluation_id, position, criterion, max_score, score)
+  SELECT v_evaluation_id, c.position, c.item->>'name', (c.item->>'max_score')::SMALLINT, (s.score #>> '{}')::NUMERIC
+  FROM jsonb_array_elements(v_template.criteria) WITH ORDINALITY AS c(item, position)
+  JOIN jsonb_array_elements(p_scores) WITH ORDINALITY AS s(score, position) ON s.position = c.position;
+
+  UPDATE student_evaluations
+  SET total_score = totals.total_score, max_score = totals.max_score
+  FROM (
+    SELECT SUM(score) AS total_score, SUM(max_score) AS max_score
+    FROM evaluation_scores
+    WHERE evaluation_id = v_evaluation_id
+  ) totals
+  WHERE id = v_evaluation_id;
+
+  RETURN v_evaluation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_student_evaluation(UUID, UUID, DATE, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_student_evaluation(UUID, UUID, DATE, TEXT, TEXT, JSONB) TO authenticated;
+
+-- Change an evaluation. Scores follow the criteria the evaluation was
+-- recorded with, in the same order.
+CREATE OR REPLACE FUNCTION edit_student_evaluation(
+  p_evaluation_id UUID,
+  p_evaluation_date DATE,
+  p_recommended_level TEXT,
+  p_comment TEXT,
+  p_scores JSONB
+)
+RETURNS VOID AS $$
+DECLARE
+  v_criteria_count INTEGER;
+BEGIN
+  UPDATE student_evaluations
+  SET evaluation_date = p_evaluation_date,
+      recommended_level = p_recommended_level,
+      comment = p_comment,
+      updated_at = NOW()
+  WHERE id = p_evaluation_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Evaluation not found or access denied'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COUNT(*) INTO v_criteria_count FROM evaluation_scores WHERE evaluation_id = p_evaluation_id;
+
+  IF jsonb_array_length(COALESCE(p_scores, '[]'::JSONB)) <> v_criteria_count THEN
+    RAISE EXCEPTION 'Give a score for each of the % criteria', v_criteria_count
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE evaluation_scores es
+  SET score = (s.score #>> '{}')::NUMERIC
+  FROM jsonb_array_elements(p_scores) WITH ORDINALITY AS s(score, position)
+  WHERE es.evaluation_id = p_evaluation_id
+  AND es.position = s.position;
+
+  UPDATE student_evaluations
+  SET total_score = totals.total_score, max_score = totals.max_score
+  FROM (
+    SELECT SUM(score) AS total_score, SUM(max_score) AS max_score
+    FROM evaluation_scores
+    WHERE evaluation_id = p_evaluation_id
+  ) totals
+  WHERE id = p_evaluation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION edit_student_evaluation(UUID, DATE, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION edit_student_evaluation(UUID, DATE, TEXT, TEXT, JSONB) TO authenticated;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_evaluations_student_id ON student_evaluations(student_id, evaluation_date DESC);
+CREATE INDEX IF NOT EXISTS idx_student_evaluations_evaluated_by ON student_evaluations(evaluated_by);
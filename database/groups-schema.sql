@@ -0,0 +1,142 @@
+-- Groups: a managed entity instead of the free-text students.group_code
+--
+-- A group has a code, a tariff and level, an assigned teacher, a weekly
+-- schedule (ISO weekdays, 1 = Monday), a room, a capacity and start/end
+-- dates. Students reference their group through students.group_id. Every
+-- existing group_code value becomes a group row; the new rows get a default
+-- capacity and no teacher or schedule until someone fills them in.
+
+-- Groups table
+CREATE TABLE IF NOT EXISTS groups (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  tariff_id UUID REFERENCES tariffs(id) ON DELETE SET NULL,
+  level TEXT,
+  teacher_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  schedule_days SMALLINT[] NOT NULL DEFAULT '{}'
+    CHECK (schedule_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::SMALLINT[]),
+  start_time TIME,
+  end_time TIME,
+  room TEXT,
+  capacity INTEGER NOT NULL DEFAULT 12 CHECK (capacity > 0),
+  start_date DATE,
+  end_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT groups_time_range CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time),
+  CONSTRAINT groups_date_range CHECK (start_date IS NULL OR end_date IS NULL OR end_date >= start_date)
+);
+
+-- Students reference a group row
+ALTER TABLE students ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES groups(id) ON DELETE RESTRICT;
+
+-- Migrate existing group codes into group rows
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public'
+    AND table_name = 'students'
+    AND column_name = 'group_code'
+  ) THEN
+    INSERT INTO groups (code, tariff_id, capacity)
+    SELECT
+      trim(s.group_code),
+      -- Use the tariff most students of the group are on
+      mode() WITHIN GROUP (ORDER BY s.tariff_id),
+      GREATEST(COUNT(*)::INTEGER, 12)
+    FROM students s
+    WHERE trim(COALESCE(s.group_code, '')) <> ''
+    GROUP BY trim(s.group_code)
+    ON CONFLICT (code) DO NOTHING;
+
+    UPDATE students s
+    SET group_id = g.id
+    FROM groups g
+    WHERE s.group_id IS NULL
+    AND g.code = trim(s.group_code);
+
+    ALTER TABLE students DROP COLUMN group_code;
+  END IF;
+END;
+$$;
+
+-- Every student belongs to a group
+ALTER TABLE students ALTER COLUMN group_id SET NOT NULL;
+
+-- Groups can only be assigned to teaching staff
+CREATE OR REPLACE FUNCTION check_group_teacher()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.teacher_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = NEW.teacher_id
+    AND profiles.role IN ('teacher', 'head_teaching')
+  ) THEN
+    RAISE EXCEPTION 'Groups can only be assigned to teachers'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_group_teacher ON groups;
+CREATE TRIGGER trigger_check_group_teacher
+  BEFORE INSERT OR UPDATE OF teacher_id ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION check_group_teacher();
+
+-- Number of students in each group. Runs as the owner so capacity checks
+-- count every student, not only the ones the caller is allowed to see.
+CREATE OR REPLACE FUNCTION get_group_occupancy()
+RETURNS TABLE (group_id UUID, student_count INTEGER) AS $$
+  SELECT g.id, COUNT(s.id)::INTEGER
+  FROM groups g
+  LEFT JOIN students s ON s.group_id = g.id
+  WHERE auth.uid() IS NOT NULL
+  GROUP BY g.id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_group_occupancy() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_group_occupancy() TO authenticated;
+
+-- Enable RLS on groups
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Every signed-in user can read the list
+CREATE POLICY "Authenticated users can view groups" ON groups
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Head of teaching and superadmin manage groups
+CREATE POLICY "Head of teaching can manage groups" ON groups
+  FOR ALL
+  USING (current_user_role() IN ('head_teaching', 'superadmin'))
+  WITH CHECK (current_user_role() IN ('head_teaching', 'superadmin'));
+
+-- RLS Policy: Teaching staff see the students of their groups
+CREATE POLICY "Teaching staff can view students of their groups" ON students
+  FOR SELECT
+  USING (
+    current_user_role() = 'head_teaching'
+    OR EXISTS (
+      SELECT 1 FROM groups
+      WHERE groups.id = students.group_id
+      AND groups.teacher_id = auth.uid()
+    )
+  );
+
+-- Profiles: everyone needs teacher names for group lists and pickers
+DROP POLICY IF EXISTS "Staff can view teacher profiles" ON profiles;
+CREATE POLICY "Staff can view teacher profiles" ON profiles
+  FOR SELECT
+  USING (
+    profiles.role IN ('teacher', 'head_teaching')
+    AND auth.uid() IS NOT NULL
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_groups_teacher_id ON groups(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_groups_tariff_id ON groups(tariff_id);
+CREATE INDEX IF NOT EXISTS idx_students_group_id ON students(group_id);
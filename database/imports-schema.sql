@@ -0,0 +1,129 @@
+-- Bulk import of students and their payment history from spreadsheets
+--
+-- The server validates the uploaded rows and resolves tariff, price plan,
+-- group, manager and payment method names to ids; import_students() then
+-- inserts everything in one transaction, so a failing row leaves nothing
+-- behind. Every imported student and payment points at its import batch.
+-- Imported payments have no receipt files attached.
+
+-- Import batches table
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  file_name TEXT NOT NULL,
+  imported_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  student_count INTEGER NOT NULL DEFAULT 0,
+  payment_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link imported rows to their batch
+ALTER TABLE students ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+ALTER TABLE student_payments ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE SET NULL;
+
+-- Enable RLS on import batches
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Head of sales and superadmin see and create import batches
+CREATE POLICY "Head of sales can view import batches" ON import_batches
+  FOR SELECT
+  USING (current_user_role() IN ('head_sales', 'superadmin'));
+
+CREATE POLICY "Head of sales can create import batches" ON import_batches
+  FOR INSERT
+  WITH CHECK (current_user_role() IN ('head_sales', 'superadmin'));
+
+CREATE POLICY "Head of sales can update import batches" ON import_batches
+  FOR UPDATE
+  USING (current_user_role() IN ('head_sales', 'superadmin'))
+  WITH CHECK (current_user_role() IN ('head_sales', 'superadmin'));
+
+-- Insert validated students and payments in one transaction.
+-- Runs as the caller, so the student and payment policies still apply; the
+-- billing triggers invoice each student and allocate their payments as
+-- their owner.
+--
+-- p_students: [{ ref, student_code, full_name, phone, tariff_id, tariff_price_id,
+--               group_id, manager_id, notes, registered_on }]
+-- p_payments: [{ student_ref | student_id, payment_date, payment_type, amount }]
+CREATE OR REPLACE FUNCTION import_students(p_file_name TEXT, p_students JSONB, p_payments JSONB)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+  v_student JSONB;
+  v_payment JSONB;
+  v_student_id UUID;
+  v_student_ids JSONB := '{}'::JSONB;
+  v_student_count INTEGER := 0;
+  v_payment_count INTEGER := 0;
+BEGIN
+  IF COALESCE(current_user_role() IN ('head_sales', 'superadmin'), FALSE) = FALSE THEN
+    RAISE EXCEPTION 'Only head of sales and superadmin can import students'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO import_batches (file_name)
+  VALUES (p_file_name)
+  RETURNING id INTO v_batch_id;
+
+  FOR v_student IN SELECT * FROM jsonb_array_elements(COALESCE(p_students, '[]'::JSONB)) LOOP
+    INSERT INTO students (
+      student_code, full_name, phone, tariff_id, tariff_price_id, group_id,
+      manager_id, notes, created_at, import_batch_id
+    )
+    VALUES (
+      NULLIF(v_student->>'student_code', ''),
+      v_student->>'full_name',
+      v_student->>'phone',
+      (v_student->>'tariff_id')::UUID,
+      (v_student->>'tariff_price_id')::UUID,
+      (v_student->>'group_id')::UUID,
+      (v_student->>'manager_id')::UUID,
+      NULLIF(v_student->>'notes', ''),
+      COALESCE((v_student->>'registered_on')::DATE::TIMESTAMP WITH TIME ZONE, NOW()),
+      v_batch_id
+    )
+    RETURNING id INTO v_student_id;
+
+    v_student_ids := v_student_ids || jsonb_build_object(v_student->>'ref', v_student_id);
+    v_student_count := v_student_count + 1;
+  END LOOP;
+
+  FOR v_payment IN SELECT * FROM jsonb_array_elements(COALESCE(p_payments, '[]'::JSONB)) LOOP
+    v_student_id := COALESCE(
+      (v_payment->>'student_id')::UUID,
+      (v_student_ids->>(v_payment->>'student_ref'))::UUID
+    );
+
+    IF v_student_id IS NULL THEN
+      RAISE EXCEPTION 'Payment refers to an unknown student'
+        USING ERRCODE = '23514';
+    END IF;
+
+    INSERT INTO student_payments (student_id, payment_date, payment_type, amount, import_batch_id)
+    VALUES (
+      v_student_id,
+      (v_payment->>'payment_date')::DATE,
+      v_payment->>'payment_type',
+      (v_payment->>'amount')::NUMERIC,
+      v_batch_id
+    );
+
+    v_payment_count := v_payment_count + 1;
+  END LOOP;
+
+  UPDATE import_batches
+  SET student_count = v_student_count,
+      payment_count = v_payment_count
+  WHERE id = v_batch_id;
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION import_students(TEXT, JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_students(TEXT, JSONB, JSONB) TO authenticated;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_students_import_batch_id ON students(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_student_payments_import_batch_id ON student_payments(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_students_phone ON students(phone);
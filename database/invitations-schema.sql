@@ -0,0 +1,158 @@
+-- Invitations: accounts are created by a superadmin with a fixed role
+-- instead of people signing themselves up and picking their own role
+--
+-- The server invites the email through the auth admin API, which creates the
+-- auth user and mails a one-time link. The profile created for that user
+-- takes its role and name from the invitation, never from sign-up metadata,
+-- and stays unapproved until the invitee sets a password and accepts the
+-- invitation before it expires. Sign-ups without a pending invitation are
+-- rejected.
+
+-- Deactivated users keep their account and history but cannot sign in
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Invitations table
+CREATE TABLE IF NOT EXISTS user_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email)) AND email LIKE '%_@_%'),
+  full_name TEXT,
+  role TEXT NOT NULL CHECK (role IN ('superadmin', 'head_sales', 'sales', 'head_teaching', 'teacher')),
+  -- Auth user created for the invitation
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (accepted_at IS NULL OR revoked_at IS NULL)
+);
+
+-- One open invitation per email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_invitations_open_email
+  ON user_invitations(email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+-- New profiles come from an open invitation: role and name are taken from
+-- it, and the account waits for the invitee to accept
+CREATE OR REPLACE FUNCTION apply_user_invitation()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invitation user_invitations%ROWTYPE;
+BEGIN
+  -- The very first account is the superadmin who sends the invitations
+  IF NOT EXISTS (SELECT 1 FROM profiles) THEN
+    NEW.role := 'superadmin';
+    NEW.is_approved := TRUE;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM user_invitations
+  WHERE email = lower(btrim(NEW.email))
+  AND accepted_at IS NULL
+  AND revoked_at IS NULL
+  AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Accounts can only be created by invitation'
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.role := v_invitation.role;
+  NEW.full_name := COALESCE(v_invitation.full_name, NEW.full_name);
+  NEW.is_approved := FALSE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_apply_user_invitation ON profiles;
+CREATE TRIGGER trigger_apply_user_invitation
+  BEFORE INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_user_invitation();
+
+-- Role, access and sales ID are set by a superadmin only. Changes made by
+-- our own functions and the service role run as another database user and
+-- are let through, which is why this function is not SECURITY DEFINER.
+CREATE OR REPLACE FUNCTION protect_profile_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated')
+     AND current_user_role() IS DISTINCT FROM 'superadmin'
+     AND (
+       NEW.role IS DISTINCT FROM OLD.role
+       OR NEW.is_approved IS DISTINCT FROM OLD.is_approved
+       OR NEW.sales_id IS DISTINCT FROM OLD.sales_id
+       OR NEW.archived_at IS DISTINCT FROM OLD.archived_at
+       OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at
+     ) THEN
+    RAISE EXCEPTION 'Only a superadmin can change roles and access'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_protect_profile_access ON profiles;
+CREATE TRIGGER trigger_protect_profile_access
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_access();
+
+-- Accept the signed-in user's invitation once they have set a password
+CREATE OR REPLACE FUNCTION accept_user_invitation()
+RETURNS user_invitations AS $$
+DECLARE
+  v_invitation user_invitations%ROWTYPE;
+BEGIN
+  SELECT i.* INTO v_invitation
+  FROM user_invitations i
+  JOIN profiles p ON p.email = i.email
+  WHERE p.id = auth.uid()
+  AND i.accepted_at IS NULL
+  AND i.revoked_at IS NULL
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open invitation for this account'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_invitation.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This invitation has expired. Ask an administrator to send a new one.'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE user_invitations
+  SET accepted_at = NOW(), user_id = auth.uid()
+  WHERE id = v_invitation.id
+  RETURNING * INTO v_invitation;
+
+  UPDATE profiles SET is_approved = TRUE WHERE id = auth.uid();
+
+  RETURN v_invitation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable RLS on invitations
+ALTER TABLE user_invitations ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Superadmin manages invitations
+CREATE POLICY "Superadmin can view invitations" ON user_invitations
+  FOR SELECT
+  USING (current_user_role() = 'superadmin');
+
+CREATE POLICY "Superadmin can create invitations" ON user_invitations
+  FOR INSERT
+  WITH CHECK (current_user_role() = 'superadmin');
+
+CREATE POLICY "Superadmin can update invitations" ON user_invitations
+  FOR UPDATE
+  USING (current_user_role() = 'superadmin')
+  WITH CHECK (current_user_role() = 'superadmin');
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_user_invitations_created_at ON user_invitations(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_invitations_user_id ON user_invitations(user_id);
@@ -0,0 +1,151 @@
+-- Leads: prospects tracked by sales until they enrol or drop out
+--
+-- A lead moves through new -> contacted -> trial -> negotiating and ends as
+-- won or lost. A lead is won by converting it into a student; the student
+-- created from it is linked through leads.student_id. Leads follow the same
+-- access rule as students (see can_manage_student).
+
+-- Leads table
+CREATE TABLE IF NOT EXISTS leads (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  manager_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  full_name TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'other'
+    CHECK (source IN ('instagram', 'telegram', 'facebook', 'website', 'referral', 'walk_in', 'phone_call', 'other')),
+  status TEXT NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'contacted', 'trial', 'negotiating', 'won', 'lost')),
+  interested_tariff_id UUID REFERENCES tariffs(id) ON DELETE SET NULL,
+  next_follow_up DATE,
+  notes TEXT,
+  lost_reason TEXT,
+  student_id UUID UNIQUE REFERENCES students(id) ON DELETE SET NULL,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  status_changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT leads_student_won CHECK (student_id IS NULL OR status = 'won')
+);
+
+-- Enable RLS on leads
+ALTER TABLE leads ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Sales see their own leads, head of sales sees the whole team
+CREATE POLICY "Sales staff can view leads they manage" ON leads
+  FOR SELECT
+  USING (can_manage_student(leads.manager_id));
+
+CREATE POLICY "Sales staff can create leads they manage" ON leads
+  FOR INSERT
+  WITH CHECK (can_manage_student(leads.manager_id));
+
+CREATE POLICY "Sales staff can update leads they manage" ON leads
+  FOR UPDATE
+  USING (can_manage_student(leads.manager_id))
+  WITH CHECK (can_manage_student(leads.manager_id));
+
+CREATE POLICY "Sales staff can delete leads they manage" ON leads
+  FOR DELETE
+  USING (can_manage_student(leads.manager_id));
+
+-- Leads can only be owned by sales staff
+CREATE OR REPLACE FUNCTION check_lead_manager()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = NEW.manager_id
+    AND profiles.role IN ('sales', 'head_sales')
+  ) THEN
+    RAISE EXCEPTION 'Leads can only be assigned to sales managers'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_lead_manager ON leads;
+CREATE TRIGGER trigger_check_lead_manager
+  BEFORE INSERT OR UPDATE OF manager_id ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION check_lead_manager();
+
+-- Keep track of when a lead last moved between stages
+CREATE OR REPLACE FUNCTION touch_lead_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_touch_lead_status ON leads;
+CREATE TRIGGER trigger_touch_lead_status
+  BEFORE UPDATE OF status ON leads
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_lead_status();
+
+-- Create a student, converting a lead into them when one is given. The lead
+-- is locked while it is checked and linked, so converting it twice at once
+-- (or retrying a conversion) cannot create a second student. p_student holds
+-- the students columns to insert. Runs as the caller, so the students and
+-- leads policies apply.
+CREATE OR REPLACE FUNCTION create_student(p_student JSONB, p_lead_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_columns TEXT;
+  v_lead_student_id UUID;
+  v_student_id UUID;
+BEGIN
+  IF p_lead_id IS NOT NULL THEN
+    SELECT student_id INTO v_lead_student_id
+    FROM leads
+    WHERE id = p_lead_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Lead % not found', p_lead_id
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF v_lead_student_id IS NOT NULL THEN
+      RAISE EXCEPTION 'This lead has already been converted into a student'
+        USING ERRCODE = '23505';
+    END IF;
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+  FROM jsonb_object_keys(p_student) AS key;
+
+  EXECUTE format(
+    'INSERT INTO students (%1$s) SELECT %1$s FROM jsonb_populate_record(NULL::students, $1) RETURNING id',
+    v_columns
+  )
+  USING p_student
+  INTO v_student_id;
+
+  IF p_lead_id IS NOT NULL THEN
+    UPDATE leads
+    SET status = 'won',
+        student_id = v_student_id,
+        converted_at = NOW(),
+        lost_reason = NULL,
+        updated_at = NOW()
+    WHERE id = p_lead_id;
+  END IF;
+
+  RETURN v_student_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_student(JSONB, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_student(JSONB, UUID) TO authenticated;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_leads_manager_id ON leads(manager_id);
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);
+CREATE INDEX IF NOT EXISTS idx_leads_next_follow_up ON leads(next_follow_up) WHERE status NOT IN ('won', 'lost');
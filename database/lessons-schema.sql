@@ -0,0 +1,198 @@
+-- Lessons: scheduled lessons per group, generated from the group schedule
+--
+-- generate_group_lessons() creates one lesson per scheduled weekday between
+-- the group's start and end dates. Teachers fill in the topic and homework
+-- and mark each lesson as held or cancelled. Rescheduling keeps the original
+-- row (status 'rescheduled') and creates a new lesson it points to.
+
+-- Lessons table
+CREATE TABLE IF NOT EXISTS lessons (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  teacher_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  lesson_date DATE NOT NULL,
+  start_time TIME,
+  end_time TIME,
+  room TEXT,
+  status TEXT NOT NULL DEFAULT 'scheduled'
+    CHECK (status IN ('scheduled', 'held', 'cancelled', 'rescheduled')),
+  topic TEXT,
+  homework TEXT,
+  -- Reason for a cancellation or reschedule, or any other remark
+  notes TEXT,
+  rescheduled_to UUID REFERENCES lessons(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT lessons_time_range CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time),
+  CONSTRAINT lessons_rescheduled_target CHECK (rescheduled_to IS NULL OR status = 'rescheduled'),
+  CONSTRAINT lessons_group_slot_unique UNIQUE NULLS NOT DISTINCT (group_id, lesson_date, start_time)
+);
+
+-- Whether the signed-in user teaches a group: its own teacher, or
+-- head_teaching and superadmin for every group
+CREATE OR REPLACE FUNCTION can_teach_group(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    current_user_role() IN ('head_teaching', 'superadmin')
+    OR EXISTS (
+      SELECT 1 FROM groups
+      WHERE groups.id = p_group_id
+      AND groups.teacher_id = auth.uid()
+    ),
+    FALSE
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Create the lessons of a group between two dates from its schedule.
+-- Future lessons nobody has touched yet are brought in line with the
+-- current schedule (removed if the day or time no longer fits, otherwise
+-- given the current teacher and room). Returns the number of new lessons.
+CREATE OR REPLACE FUNCTION generate_group_lessons(p_group_id UUID, p_from DATE, p_until DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  grp RECORD;
+  v_from DATE;
+  v_until DATE;
+  created_count INTEGER;
+BEGIN
+  IF NOT can_teach_group(p_group_id) THEN
+    RAISE EXCEPTION 'Access denied for group %', p_group_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO grp FROM groups WHERE id = p_group_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group % not found', p_group_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_until < p_from OR p_until - p_from > 366 THEN
+    RAISE EXCEPTION 'Lessons can be generated for at most one year at a time'
+      USING ERRCODE = '23514';
+  END IF;
+
+  v_from := GREATEST(p_from, COALESCE(grp.start_date, p_from));
+  v_until := LEAST(p_until, COALESCE(grp.end_date, p_until));
+
+  -- Drop untouched future lessons that no longer match the schedule. Marked
+  -- attendance counts as touched: deleting the lesson would delete it too.
+  DELETE FROM lessons
+  WHERE group_id = p_group_id
+  AND status = 'scheduled'
+  AND lesson_date >= GREATEST(p_from, CURRENT_DATE)
+  AND topic IS NULL AND homework IS NULL AND notes IS NULL
+  AND NOT EXISTS (SELECT 1 FROM lessons moved WHERE moved.rescheduled_to = lessons.id)
+  AND NOT EXISTS (SELECT 1 FROM lesson_attendance a WHERE a.lesson_id = lessons.id)
+  AND (
+    lesson_date < v_from
+    OR lesson_date > v_until
+    OR NOT (EXTRACT(ISODOW FROM lesson_date)::SMALLINT = ANY (grp.schedule_days))
+    OR start_time IS DISTINCT FROM grp.start_time
+    OR end_time IS DISTINCT FROM grp.end_time
+  );
+
+  -- Keep teacher and room of the remaining untouched lessons current
+  UPDATE lessons
+  SET teacher_id = grp.teacher_id,
+      room = grp.room,
+      updated_at = NOW()
+  WHERE group_id = p_group_id
+  AND status = 'scheduled'
+  AND lesson_date >= GREATEST(p_from, CURRENT_DATE)
+  AND topic IS NULL AND homework IS NULL AND notes IS NULL
+  AND (teacher_id IS DISTINCT FROM grp.teacher_id OR room IS DISTINCT FROM grp.room);
+
+  INSERT INTO lessons (group_id, teacher_id, lesson_date, start_time, end_time, room)
+  SELECT p_group_id, grp.teacher_id, day::DATE, grp.start_time, grp.end_time, grp.room
+  FROM generate_series(v_from, v_until, INTERVAL '1 day') AS day
+  WHERE EXTRACT(ISODOW FROM day)::SMALLINT = ANY (grp.schedule_days)
+  ON CONFLICT ON CONSTRAINT lessons_group_slot_unique DO NOTHING;
+
+  GET DIAGNOSTICS created_count = ROW_COUNT;
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION generate_group_lessons(UUID, DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION generate_group_lessons(UUID, DATE, DATE) TO authenticated;
+
+-- Move a lesson to another date/time: the original is kept as
+-- 'rescheduled' and points to the new lesson. Returns the new lesson id.
+CREATE OR REPLACE FUNCTION reschedule_lesson(
+  p_lesson_id UUID,
+  p_lesson_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_reason TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  lesson RECORD;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO lesson FROM lessons WHERE id = p_lesson_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT (can_teach_group(lesson.group_id) OR lesson.teacher_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Lesson % not found', p_lesson_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF lesson.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Only scheduled lessons can be rescheduled'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO lessons (group_id, teacher_id, lesson_date, start_time, end_time, room, notes)
+  VALUES (
+    lesson.group_id,
+    lesson.teacher_id,
+    p_lesson_date,
+    COALESCE(p_start_time, lesson.start_time),
+    COALESCE(p_end_time, lesson.end_time),
+    lesson.room,
+    'Rescheduled from ' || to_char(lesson.lesson_date, 'YYYY-MM-DD')
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE lessons
+  SET status = 'rescheduled',
+      rescheduled_to = v_new_id,
+      notes = p_reason,
+      updated_at = NOW()
+  WHERE id = p_lesson_id;
+
+  RETURN v_new_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reschedule_lesson(UUID, DATE, TIME, TIME, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reschedule_lesson(UUID, DATE, TIME, TIME, TEXT) TO authenticated;
+
+-- Enable RLS on lessons
+ALTER TABLE lessons ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Teachers see the lessons of their groups and lessons they cover
+CREATE POLICY "Teaching staff can view their lessons" ON lessons
+  FOR SELECT
+  USING (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid());
+
+-- RLS Policy: Teachers record topic, homework and status of their lessons
+CREATE POLICY "Teaching staff can update their lessons" ON lessons
+  FOR UPDATE
+  USING (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid())
+  WITH CHECK (can_teach_group(lessons.group_id) OR lessons.teacher_id = auth.uid());
+
+-- RLS Policy: Head of teaching adds and removes single lessons
+CREATE POLICY "Head of teaching can create lessons" ON lessons
+  FOR INSERT
+  WITH CHECK (current_user_role() IN ('head_teaching', 'superadmin'));
+
+CREATE POLICY "Head of teaching can delete lessons" ON lessons
+  FOR DELETE
+  USING (current_user_role() IN ('head_teaching', 'superadmin'));
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_lessons_group_date ON lessons(group_id, lesson_date);
+CREATE INDEX IF NOT EXISTS idx_lessons_teacher_date ON lessons(teacher_id, lesson_date);
+CREATE INDEX IF NOT EXISTS idx_lessons_lesson_date ON lessons(lesson_date);
@@ -0,0 +1,103 @@
+-- Payment attachments: several receipt files per payment
+--
+-- Each payment can hold any number of files (e.g. both sides of a bank slip,
+-- or a PDF plus a screenshot). Files live in the private "receipts" bucket;
+-- images also get a small thumbnail stored next to them. The single
+-- student_payments.receipt_path from before is migrated into this table.
+
+-- Payment attachments table
+CREATE TABLE IF NOT EXISTS payment_attachments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES student_payments(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE CHECK (storage_path !~ '(^/|\.\.)'),
+  thumbnail_path TEXT CHECK (thumbnail_path IS NULL OR thumbnail_path !~ '(^/|\.\.)'),
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL CHECK (mime_type IN ('image/jpeg', 'image/png', 'image/webp', 'application/pdf')),
+  size_bytes INTEGER CHECK (size_bytes IS NULL OR size_bytes > 0),
+  uploaded_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Migrate the single receipt of existing payments
+INSERT INTO payment_attachments (payment_id, storage_path, file_name, mime_type, uploaded_by, created_at)
+SELECT
+  sp.id,
+  sp.receipt_path,
+  regexp_replace(sp.receipt_path, '^.*/', ''),
+  CASE lower(substring(sp.receipt_path FROM '\.([A-Za-z0-9]+)$'))
+    WHEN 'png' THEN 'image/png'
+    WHEN 'webp' THEN 'image/webp'
+    WHEN 'pdf' THEN 'application/pdf'
+    ELSE 'image/jpeg'
+  END,
+  NULL,
+  sp.created_at
+FROM student_payments sp
+WHERE sp.receipt_path IS NOT NULL
+ON CONFLICT (storage_path) DO NOTHING;
+
+-- Receipts are now required through attachments (checked by the server)
+ALTER TABLE student_payments DROP CONSTRAINT IF EXISTS student_payments_receipt_required;
+
+-- Enable RLS on payment attachments
+ALTER TABLE payment_attachments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can view attachments of payments they can see
+CREATE POLICY "Users can view attachments for their students" ON payment_attachments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM student_payments
+      WHERE student_payments.id = payment_attachments.payment_id
+    )
+  );
+
+-- RLS Policy: Users can attach files to payments of students they manage
+CREATE POLICY "Users can add attachments for their students" ON payment_attachments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM student_payments
+      JOIN students ON students.id = student_payments.student_id
+      WHERE student_payments.id = payment_attachments.payment_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Record a payment together with its attachments in one transaction.
+-- Runs as the caller, so the insert policies above still apply; the payment
+-- triggers (method check, allocation, audit) run as their owner.
+CREATE OR REPLACE FUNCTION record_student_payment(
+  p_student_id UUID,
+  p_payment_date DATE,
+  p_payment_type TEXT,
+  p_amount NUMERIC,
+  p_attachments JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_payment_id UUID;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_attachments, '[]'::JSONB)) = 0 THEN
+    RAISE EXCEPTION 'At least one receipt file is required'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO student_payments (student_id, payment_date, payment_type, amount)
+  VALUES (p_student_id, p_payment_date, p_payment_type, p_amount)
+  RETURNING id INTO v_payment_id;
+
+  INSERT INTO payment_attachments (payment_id, storage_path, thumbnail_path, file_name, mime_type, size_bytes)
+  SELECT v_payment_id, a.storage_path, a.thumbnail_path, a.file_name, a.mime_type, a.size_bytes
+  FROM jsonb_to_recordset(p_attachments)
+    AS a(storage_path TEXT, thumbnail_path TEXT, file_name TEXT, mime_type TEXT, size_bytes INTEGER);
+
+  RETURN v_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_student_payment(UUID, DATE, TEXT, NUMERIC, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_student_payment(UUID, DATE, TEXT, NUMERIC, JSONB) TO authenticated;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_payment_attachments_payment_id ON payment_attachments(payment_id);
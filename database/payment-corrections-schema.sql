@@ -0,0 +1,288 @@
+-- Payment corrections: edit, void and refund with a full history
+--
+-- Payments are never deleted. A voided payment stays on record with the
+-- reason, who voided it and when, and no longer counts towards the balance.
+-- A refund returns part or all of a payment; only the amount that was kept
+-- (amount - refunded_amount) counts towards the balance.
+
+-- Payment status and refund tracking
+ALTER TABLE student_payments
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'voided', 'refunded')),
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12,2) NOT NULL DEFAULT 0
+    CHECK (refunded_amount >= 0),
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE student_payments DROP CONSTRAINT IF EXISTS student_payments_refund_within_amount;
+ALTER TABLE student_payments
+  ADD CONSTRAINT student_payments_refund_within_amount CHECK (refunded_amount <= amount);
+
+-- Payment history table (one row per change, written by the functions below)
+CREATE TABLE IF NOT EXISTS payment_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  payment_id UUID NOT NULL REFERENCES student_payments(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('edited', 'voided', 'refunded')),
+  reason TEXT,
+  amount NUMERIC(12,2),
+  changes JSONB NOT NULL DEFAULT '{}'::JSONB,
+  performed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  performed_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Look up a payment the signed-in user may correct (locks the row)
+CREATE OR REPLACE FUNCTION get_correctable_payment(p_payment_id UUID)
+RETURNS student_payments AS $$
+DECLARE
+  payment student_payments;
+BEGIN
+  SELECT sp.* INTO payment
+  FROM student_payments sp
+  JOIN students s ON s.id = sp.student_id
+  WHERE sp.id = p_payment_id
+  AND can_manage_student(s.manager_id)
+  FOR UPDATE OF sp;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found or access denied', p_payment_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF payment.status = 'voided' THEN
+    RAISE EXCEPTION 'Voided payments cannot be changed'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Name of the signed-in user, kept on history rows so every viewer can read it
+CREATE OR REPLACE FUNCTION current_user_display_name()
+RETURNS TEXT AS $$
+  SELECT COALESCE(full_name, email) FROM profiles WHERE id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Correct the date, type or amount of a payment
+CREATE OR REPLACE FUNCTION edit_student_payment(
+  p_payment_id UUID,
+  p_payment_date DATE,
+  p_payment_type TEXT,
+  p_amount NUMERIC,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS student_payments AS $$
+DECLARE
+  payment student_payments;
+  changes JSONB := '{}'::JSONB;
+BEGIN
+  payment := get_correctable_payment(p_payment_id);
+
+  IF p_amount < payment.refunded_amount THEN
+    RAISE EXCEPTION 'Amount cannot be lower than the refunded amount'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF p_payment_date IS DISTINCT FROM payment.payment_date THEN
+    changes := changes || jsonb_build_object('payment_date', jsonb_build_object('from', payment.payment_date, 'to', p_payment_date));
+  END IF;
+  IF p_payment_type IS DISTINCT FROM payment.payment_type THEN
+    changes := changes || jsonb_build_object('payment_type', jsonb_build_object('from', payment.payment_type, 'to', p_payment_type));
+  END IF;
+  IF p_amount IS DISTINCT FROM payment.amount THEN
+    changes := changes || jsonb_build_object('amount', jsonb_build_object('from', payment.amount, 'to', p_amount));
+  END IF;
+
+  IF changes = '{}'::JSONB THEN
+    RETURN payment;
+  END IF;
+
+  UPDATE student_payments
+  SET payment_date = p_payment_date,
+      payment_type = p_payment_type,
+      amount = p_amount,
+      status = CASE WHEN refunded_amount > 0 AND refunded_amount >= p_amount THEN 'refunded' ELSE 'active' END,
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  INSERT INTO payment_history (payment_id, action, reason, amount, changes, performed_by, performed_by_name)
+  VALUES (p_payment_id, 'edited', p_reason, p_amount, changes, auth.uid(), current_user_display_name());
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Void a payment (e.g. a duplicate); it stays on record but stops counting
+CREATE OR REPLACE FUNCTION void_student_payment(p_payment_id UUID, p_reason TEXT)
+RETURNS student_payments AS $$
+DECLARE
+  payment student_payments;
+BEGIN
+  payment := get_correctable_payment(p_payment_id);
+
+  IF payment.refunded_amount > 0 THEN
+    RAISE EXCEPTION 'Refunded payments cannot be voided'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE student_payments
+  SET status = 'voided',
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  INSERT INTO payment_history (payment_id, action, reason, amount, performed_by, performed_by_name)
+  VALUES (p_payment_id, 'voided', p_reason, payment.amount, auth.uid(), current_user_display_name());
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund part or all of a payment back to the student
+CREATE OR REPLACE FUNCTION refund_student_payment(p_payment_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS student_payments AS $$
+DECLARE
+  payment student_payments;
+BEGIN
+  payment := get_correctable_payment(p_payment_id);
+
+  IF p_amount > payment.amount - payment.refunded_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the amount left on this payment'
+      USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE student_payments
+  SET refunded_amount = refunded_amount + p_amount,
+      status = CASE WHEN refunded_amount + p_amount >= amount THEN 'refunded' ELSE 'active' END,
+      updated_at = NOW()
+  WHERE id = p_payment_id
+  RETURNING * INTO payment;
+
+  INSERT INTO payment_history (payment_id, action, reason, amount, performed_by, performed_by_name)
+  VALUES (p_payment_id, 'refunded', p_reason, p_amount, auth.uid(), current_user_display_name());
+
+  RETURN payment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_correctable_payment(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION edit_student_payment(UUID, DATE, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION void_student_payment(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION refund_student_payment(UUID, NUMERIC, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION edit_student_payment(UUID, DATE, TEXT, NUMERIC, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION void_student_payment(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION refund_student_payment(UUID, NUMERIC, TEXT) TO authenticated;
+
+-- Payments change only through the functions above, never deleted or updated directly
+DROP POLICY IF EXISTS "Users can update payments for their students" ON student_payments;
+DROP POLICY IF EXISTS "Users can delete payments for their students" ON student_payments;
+
+-- Re-allocate payments: voided payments are skipped, refunds reduce the amount
+CREATE OR REPLACE FUNCTION allocate_student_payments(p_student_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  payment RECORD;
+  invoice RECORD;
+  remaining NUMERIC(12,2);
+  invoice_open NUMERIC(12,2);
+  portion NUMERIC(12,2);
+BEGIN
+  DELETE FROM payment_allocations
+  WHERE invoice_id IN (SELECT id FROM student_invoices WHERE student_id = p_student_id);
+
+  FOR payment IN
+    SELECT id, amount - refunded_amount AS amount FROM student_payments
+    WHERE student_id = p_student_id
+    AND status <> 'voided'
+    ORDER BY payment_date, created_at
+  LOOP
+    remaining := payment.amount;
+
+    FOR invoice IN
+      SELECT id, amount FROM student_invoices
+      WHERE student_id = p_student_id
+      ORDER BY period_start
+    LOOP
+      EXIT WHEN remaining <= 0;
+
+      SELECT invoice.amount - COALESCE(SUM(amount), 0)
+      INTO invoice_open
+      FROM payment_allocations
+      WHERE invoice_id = invoice.id;
+
+      CONTINUE WHEN invoice_open <= 0;
+
+      portion := LEAST(remaining, invoice_open);
+
+      INSERT INTO payment_allocations (payment_id, invoice_id, amount)
+      VALUES (payment.id, invoice.id, portion);
+
+      remaining := remaining - portion;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-allocate when a payment is voided or refunded too
+DROP TRIGGER IF EXISTS trigger_payment_allocation ON student_payments;
+CREATE TRIGGER trigger_payment_allocation
+  AFTER INSERT OR UPDATE OF amount, payment_date, student_id, status, refunded_amount OR DELETE ON student_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_payment_allocation_change();
+
+-- Balance per student: only money that was kept counts as paid
+CREATE OR REPLACE VIEW student_balances
+WITH (security_invoker = true) AS
+SELECT
+  s.id AS student_id,
+  COALESCE(inv.total_invoiced, 0) AS total_invoiced,
+  COALESCE(pay.total_paid, 0) AS total_paid,
+  COALESCE(inv.total_invoiced, 0) - COALESCE(pay.total_paid, 0) AS balance,
+  COALESCE(inv.open_invoices, 0) AS open_invoices,
+  inv.oldest_open_due_date,
+  inv.last_period_end,
+  COALESCE(pay.total_refunded, 0) AS total_refunded
+FROM students s
+LEFT JOIN (
+  SELECT
+    i.student_id,
+    SUM(i.amount) AS total_invoiced,
+    COUNT(*) FILTER (WHERE i.amount > COALESCE(a.allocated, 0)) AS open_invoices,
+    MIN(i.due_date) FILTER (WHERE i.amount > COALESCE(a.allocated, 0)) AS oldest_open_due_date,
+    MAX(i.period_end) AS last_period_end
+  FROM student_invoices i
+  LEFT JOIN (
+    SELECT invoice_id, SUM(amount) AS allocated
+    FROM payment_allocations
+    GROUP BY invoice_id
+  ) a ON a.invoice_id = i.id
+  GROUP BY i.student_id
+) inv ON inv.student_id = s.id
+LEFT JOIN (
+  SELECT
+    student_id,
+    SUM(amount - refunded_amount) AS total_paid,
+    SUM(refunded_amount) AS total_refunded
+  FROM student_payments
+  WHERE status <> 'voided'
+  GROUP BY student_id
+) pay ON pay.student_id = s.id;
+
+-- Enable RLS on payment history
+ALTER TABLE payment_history ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can view history of payments they can see
+DROP POLICY IF EXISTS "Users can view history for their students" ON payment_history;
+CREATE POLICY "Users can view history for their students" ON payment_history
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM student_payments
+      WHERE student_payments.id = payment_history.payment_id
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_payment_history_payment_id ON payment_history(payment_id);
+CREATE INDEX IF NOT EXISTS idx_student_payments_status ON student_payments(status);
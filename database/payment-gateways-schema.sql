@@ -0,0 +1,178 @@
+-- Payme and Click merchant callbacks: payments recorded by the gateway
+--
+-- Parents pay with the student's code (students.student_code) as the account
+-- number. Each gateway transaction is stored once per provider transaction
+-- ID, so repeated callbacks return the stored result instead of recording
+-- the payment again. A transaction is created first (Payme
+-- CreateTransaction, Click Prepare) and the student_payments row is only
+-- written when the gateway confirms it (Payme PerformTransaction, Click
+-- Complete). Cancelling a confirmed transaction voids its payment.
+--
+-- The callbacks run with the server key; nothing here is open to users.
+
+-- Gateway transactions table
+CREATE TABLE IF NOT EXISTS gateway_transactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Our transaction number, sent back to Click as merchant_prepare_id
+  number BIGINT GENERATED ALWAYS AS IDENTITY UNIQUE,
+  provider TEXT NOT NULL CHECK (provider IN ('payme', 'click')),
+  -- Payme transaction id or Click click_trans_id
+  external_id TEXT NOT NULL,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE RESTRICT,
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  state TEXT NOT NULL DEFAULT 'created' CHECK (state IN ('created', 'performed', 'cancelled')),
+  payment_id UUID REFERENCES student_payments(id) ON DELETE SET NULL,
+  -- When the gateway created the transaction on its side (Payme "time")
+  provider_created_at TIMESTAMP WITH TIME ZONE,
+  performed_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  -- Payme reason code, or the Click error code that cancelled the payment
+  cancel_reason INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (provider, external_id)
+);
+
+-- Payment method check: recreated so a payment the gateway confirms is
+-- always recorded. The customer has been charged by then, so a deactivated
+-- Payme or Click method only keeps staff from using it. Gateway callbacks
+-- run with the server key, without a signed-in user.
+CREATE OR REPLACE FUNCTION check_payment_method_active()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND auth.uid() IS NULL AND NEW.payment_type IN ('payme', 'click') THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.payment_type IS DISTINCT FROM OLD.payment_type)
+  AND NOT EXISTS (
+    SELECT 1 FROM payment_methods
+    WHERE payment_methods.code = NEW.payment_type
+    AND payment_methods.is_active
+  ) THEN
+    RAISE EXCEPTION 'Payment method % is not available', NEW.payment_type
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the payment of a created transaction. Confirming a transaction
+-- twice returns it unchanged.
+CREATE OR REPLACE FUNCTION perform_gateway_transaction(p_transaction_id UUID)
+RETURNS gateway_transactions AS $$
+DECLARE
+  tx gateway_transactions;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO tx FROM gateway_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF tx.state = 'performed' THEN
+    RETURN tx;
+  END IF;
+
+  IF tx.state = 'cancelled' THEN
+    RAISE EXCEPTION 'Transaction % is cancelled', p_transaction_id
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO student_payments (student_id, payment_date, payment_type, amount)
+  VALUES (tx.student_id, CURRENT_DATE, tx.provider, tx.amount)
+  RETURNING id INTO v_payment_id;
+
+  UPDATE gateway_transactions
+  SET state = 'performed',
+      payment_id = v_payment_id,
+      performed_at = NOW()
+  WHERE id = p_transaction_id
+  RETURNING * INTO tx;
+
+  RETURN tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel a transaction; a confirmed one has its payment voided. Payments
+-- that were partly refunded by staff cannot be cancelled by the gateway.
+-- Cancelling twice returns the transaction unchanged.
+CREATE OR REPLACE FUNCTION cancel_gateway_transaction(p_transaction_id UUID, p_reason INTEGER)
+RETURNS gateway_transactions AS $$
+DECLARE
+  tx gateway_transactions;
+  payment student_payments;
+BEGIN
+  SELECT * INTO tx FROM gateway_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction % not found', p_transaction_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF tx.state = 'cancelled' THEN
+    RETURN tx;
+  END IF;
+
+  IF tx.payment_id IS NOT NULL THEN
+    SELECT * INTO payment FROM student_payments WHERE id = tx.payment_id FOR UPDATE;
+
+    IF payment.refunded_amount > 0 THEN
+      RAISE EXCEPTION 'Refunded payments cannot be cancelled'
+        USING ERRCODE = '23514';
+    END IF;
+
+    -- Staff may have voided it already
+    IF payment.status <> 'voided' THEN
+      UPDATE student_payments
+      SET status = 'voided',
+          updated_at = NOW()
+      WHERE id = payment.id;
+
+      INSERT INTO payment_history (payment_id, action, reason, amount, performed_by, performed_by_name)
+      VALUES (
+        payment.id,
+        'voided',
+        'Cancelled by ' || initcap(tx.provider) || ' (reason ' || COALESCE(p_reason::TEXT, 'not given') || ')',
+        payment.amount,
+        NULL,
+        initcap(tx.provider)
+      );
+    END IF;
+  END IF;
+
+  UPDATE gateway_transactions
+  SET state = 'cancelled',
+      cancelled_at = NOW(),
+      cancel_reason = p_reason
+  WHERE id = p_transaction_id
+  RETURNING * INTO tx;
+
+  RETURN tx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the gateway callbacks (server key) record and cancel transactions
+REVOKE EXECUTE ON FUNCTION perform_gateway_transaction(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_gateway_transaction(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS on gateway transactions
+ALTER TABLE gateway_transactions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can view gateway transactions of students they manage
+CREATE POLICY "Users can view gateway transactions for their students" ON gateway_transactions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = gateway_transactions.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_gateway_transactions_student_id ON gateway_transactions(student_id);
+CREATE INDEX IF NOT EXISTS idx_gateway_transactions_payment_id ON gateway_transactions(payment_id);
+CREATE INDEX IF NOT EXISTS idx_gateway_transactions_created_at ON gateway_transactions(provider, created_at);
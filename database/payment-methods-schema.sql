@@ -0,0 +1,100 @@
+-- Payment methods: a managed list instead of free-text payment_type
+--
+-- student_payments.payment_type now holds a payment method code and
+-- references payment_methods(code). Existing free-text values are mapped
+-- onto the list through the aliases below; anything that cannot be matched
+-- becomes 'other' and the original text is kept in payment_type_original.
+
+-- Payment methods table
+CREATE TABLE IF NOT EXISTS payment_methods (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  -- Lower-case spellings found in old free-text payments
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Default payment methods
+INSERT INTO payment_methods (code, name, aliases, sort_order) VALUES
+  ('cash', 'Cash', ARRAY['cash', 'naqd', 'naqd pul', 'nalichnye', 'наличные', 'нал'], 10),
+  ('card', 'Card', ARRAY['card', 'karta', 'карта', 'terminal', 'pos'], 20),
+  ('uzcard', 'Uzcard', ARRAY['uzcard', 'uz card'], 30),
+  ('humo', 'Humo', ARRAY['humo', 'хумо'], 40),
+  ('bank_transfer', 'Bank Transfer', ARRAY['bank transfer', 'bank_transfer', 'transfer', 'bank', 'perechislenie', 'перечисление', 'o''tkazma'], 50),
+  ('click', 'Click', ARRAY['click', 'клик'], 60),
+  ('payme', 'Payme', ARRAY['payme', 'pay me', 'пейми'], 70),
+  ('online', 'Online Payment', ARRAY['online', 'online payment', 'онлайн'], 80),
+  ('other', 'Other', ARRAY['other'], 1000)
+ON CONFLICT (code) DO NOTHING;
+
+-- Keep the original free text for payments that had to be mapped
+ALTER TABLE student_payments ADD COLUMN IF NOT EXISTS payment_type_original TEXT;
+
+-- Map existing free-text values onto payment method codes
+UPDATE student_payments sp
+SET payment_type_original = sp.payment_type,
+    payment_type = COALESCE(
+      (
+        SELECT pm.code FROM payment_methods pm
+        WHERE pm.code = lower(trim(sp.payment_type))
+        OR lower(trim(sp.payment_type)) = ANY (pm.aliases)
+        OR lower(trim(sp.payment_type)) = lower(pm.name)
+        ORDER BY pm.sort_order
+        LIMIT 1
+      ),
+      'other'
+    )
+WHERE NOT EXISTS (
+  SELECT 1 FROM payment_methods pm WHERE pm.code = sp.payment_type
+);
+
+-- Payments must use a listed method
+ALTER TABLE student_payments DROP CONSTRAINT IF EXISTS student_payments_payment_type_fkey;
+ALTER TABLE student_payments
+  ADD CONSTRAINT student_payments_payment_type_fkey
+  FOREIGN KEY (payment_type) REFERENCES payment_methods(code) ON UPDATE CASCADE;
+
+-- New payments and corrections may only use active methods
+CREATE OR REPLACE FUNCTION check_payment_method_active()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' OR NEW.payment_type IS DISTINCT FROM OLD.payment_type)
+  AND NOT EXISTS (
+    SELECT 1 FROM payment_methods
+    WHERE payment_methods.code = NEW.payment_type
+    AND payment_methods.is_active
+  ) THEN
+    RAISE EXCEPTION 'Payment method % is not available', NEW.payment_type
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_payment_method ON student_payments;
+CREATE TRIGGER trigger_check_payment_method
+  BEFORE INSERT OR UPDATE OF payment_type ON student_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION check_payment_method_active();
+
+-- Enable RLS on payment methods
+ALTER TABLE payment_methods ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Every signed-in user can read the list
+CREATE POLICY "Authenticated users can view payment methods" ON payment_methods
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Only superadmin can manage the list
+CREATE POLICY "Superadmin can manage payment methods" ON payment_methods
+  FOR ALL
+  USING (current_user_role() = 'superadmin')
+  WITH CHECK (current_user_role() = 'superadmin');
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_payments_payment_type ON student_payments(payment_type);
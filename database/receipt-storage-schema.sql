@@ -0,0 +1,62 @@
+-- Private receipt storage
+--
+-- Receipts live in the private "receipts" bucket. The database stores the
+-- object path (student_payments.receipt_path), never a URL. The server hands
+-- out short-lived signed URLs, and only after the signed-in user has read the
+-- payment through the RLS policies above. Uploads and signing go through the
+-- server with the service role, so the bucket has no policies for app users.
+
+-- Make the bucket private (create it if it does not exist yet)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'application/pdf'])
+ON CONFLICT (id) DO UPDATE
+SET public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Remove any direct access app users had to receipt objects
+DO $$
+DECLARE
+  policy RECORD;
+BEGIN
+  FOR policy IN
+    SELECT policyname FROM pg_policies
+    WHERE schemaname = 'storage'
+    AND tablename = 'objects'
+    AND (qual ILIKE '%receipts%' OR with_check ILIKE '%receipts%')
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON storage.objects', policy.policyname);
+  END LOOP;
+END;
+$$;
+
+-- Object path of the receipt inside the bucket
+ALTER TABLE student_payments ADD COLUMN IF NOT EXISTS receipt_path TEXT;
+
+-- Migrate public URLs (.../storage/v1/object/public/receipts/<path>) to paths
+UPDATE student_payments
+SET receipt_path = regexp_replace(
+  split_part(receipt_url, '?', 1),
+  '^.*/storage/v1/object/public/receipts/',
+  ''
+)
+WHERE receipt_path IS NULL
+AND receipt_url ~ '/storage/v1/object/public/receipts/';
+
+-- Public links are no longer stored
+ALTER TABLE student_payments ALTER COLUMN receipt_url DROP NOT NULL;
+UPDATE student_payments
+SET receipt_url = NULL
+WHERE receipt_path IS NOT NULL;
+
+-- New payments must reference an uploaded receipt
+ALTER TABLE student_payments DROP CONSTRAINT IF EXISTS student_payments_receipt_required;
+ALTER TABLE student_payments
+  ADD CONSTRAINT student_payments_receipt_required
+  CHECK (receipt_path IS NOT NULL OR receipt_url IS NOT NULL) NOT VALID;
+
+-- Paths are relative to the bucket (new receipts use <student_id>/<file>)
+ALTER TABLE student_payments DROP CONSTRAINT IF EXISTS student_payments_receipt_path_format;
+ALTER TABLE student_payments
+  ADD CONSTRAINT student_payments_receipt_path_format
+  CHECK (receipt_path IS NULL OR receipt_path !~ '(^/|\.\.)') NOT VALID;
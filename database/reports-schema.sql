@@ -0,0 +1,209 @@
+-- Management reports: revenue, outstanding debt, enrollments and churn
+--
+-- Reports are read by head roles and superadmin. The functions run as their
+-- owner so head of teaching sees the same totals as head of sales, and check
+-- the caller's role themselves. Revenue counts what was kept from each
+-- payment (amount - refunded_amount); voided payments are left out.
+--
+-- A student counts as churned once their oldest unpaid invoice is more than
+-- 30 days overdue; the churn date is that invoice's due date. Students who
+-- pay their debt later are no longer counted as churned.
+
+-- Only management may read reports
+CREATE OR REPLACE FUNCTION assert_report_access()
+RETURNS VOID AS $$
+BEGIN
+  IF COALESCE(current_user_role() IN ('head_teaching', 'head_sales', 'superadmin'), FALSE) = FALSE THEN
+    RAISE EXCEPTION 'Reports are available to management only'
+      USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Revenue between two dates, grouped by month, payment method, tariff or manager
+CREATE OR REPLACE FUNCTION report_revenue(p_from DATE, p_to DATE, p_group_by TEXT DEFAULT 'month')
+RETURNS TABLE (key TEXT, label TEXT, payment_count BIGINT, amount NUMERIC) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM assert_report_access();
+
+  IF p_group_by NOT IN ('month', 'payment_type', 'tariff', 'manager') THEN
+    RAISE EXCEPTION 'Unknown revenue grouping %', p_group_by
+      USING ERRCODE = '23514';
+  END IF;
+
+  -- Every month in the range, including months without payments
+  IF p_group_by = 'month' THEN
+    RETURN QUERY
+    SELECT
+      to_char(m.month_start, 'YYYY-MM'),
+      to_char(m.month_start, 'Mon YYYY'),
+      COUNT(sp.id),
+      COALESCE(SUM(sp.amount - sp.refunded_amount), 0)
+    FROM generate_series(
+      date_trunc('month', p_from::TIMESTAMP),
+      date_trunc('month', p_to::TIMESTAMP),
+      INTERVAL '1 month'
+    ) AS m(month_start)
+    LEFT JOIN student_payments sp
+      ON sp.payment_date >= m.month_start::DATE
+      AND sp.payment_date < (m.month_start + INTERVAL '1 month')::DATE
+      AND sp.payment_date BETWEEN p_from AND p_to
+      AND sp.status <> 'voided'
+    GROUP BY m.month_start
+    ORDER BY m.month_start;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    g.group_key,
+    MIN(g.group_label),
+    COUNT(*),
+    SUM(g.kept_amount)
+  FROM (
+    SELECT
+      CASE p_group_by
+        WHEN 'payment_type' THEN sp.payment_type
+        WHEN 'tariff' THEN s.tariff_id::TEXT
+        ELSE s.manager_id::TEXT
+      END AS group_key,
+      CASE p_group_by
+        WHEN 'payment_type' THEN COALESCE(pm.name, sp.payment_type)
+        WHEN 'tariff' THEN COALESCE(t.name, 'Unknown tariff')
+        ELSE COALESCE(pr.full_name, pr.email, 'Unknown manager')
+      END AS group_label,
+      sp.amount - sp.refunded_amount AS kept_amount
+    FROM student_payments sp
+    JOIN students s ON s.id = sp.student_id
+    LEFT JOIN payment_methods pm ON pm.code = sp.payment_type
+    LEFT JOIN tariffs t ON t.id = s.tariff_id
+    LEFT JOIN profiles pr ON pr.id = s.manager_id
+    WHERE sp.payment_date BETWEEN p_from AND p_to
+    AND sp.status <> 'voided'
+  ) g
+  GROUP BY g.group_key
+  ORDER BY SUM(g.kept_amount) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Unpaid invoices due between two dates, bucketed by how long they are overdue
+CREATE OR REPLACE FUNCTION report_debt_aging(p_from DATE, p_to DATE)
+RETURNS TABLE (bucket TEXT, label TEXT, student_count BIGINT, invoice_count BIGINT, amount NUMERIC) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM assert_report_access();
+
+  RETURN QUERY
+  WITH open_invoices AS (
+    SELECT
+      i.student_id,
+      i.amount_open,
+      CASE
+        WHEN i.due_date >= CURRENT_DATE THEN 'current'
+        WHEN CURRENT_DATE - i.due_date <= 30 THEN '1_30'
+        WHEN CURRENT_DATE - i.due_date <= 60 THEN '31_60'
+        WHEN CURRENT_DATE - i.due_date <= 90 THEN '61_90'
+        ELSE '90_plus'
+      END AS age_bucket
+    FROM student_invoice_status i
+    WHERE i.amount_open > 0
+    AND i.due_date BETWEEN p_from AND p_to
+  )
+  SELECT
+    b.code,
+    b.name,
+    COUNT(DISTINCT oi.student_id),
+    COUNT(oi.student_id),
+    COALESCE(SUM(oi.amount_open), 0)
+  FROM (
+    VALUES
+      ('current', 'Not yet due', 1),
+      ('1_30', '1-30 days overdue', 2),
+      ('31_60', '31-60 days overdue', 3),
+      ('61_90', '61-90 days overdue', 4),
+      ('90_plus', 'Over 90 days overdue', 5)
+  ) AS b(code, name, position)
+  LEFT JOIN open_invoices oi ON oi.age_bucket = b.code
+  GROUP BY b.code, b.name, b.position
+  ORDER BY b.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- New enrollments and churn per month between two dates
+CREATE OR REPLACE FUNCTION report_enrollments(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  month TEXT,
+  label TEXT,
+  active_at_start BIGINT,
+  new_students BIGINT,
+  churned_students BIGINT,
+  churn_rate NUMERIC
+) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM assert_report_access();
+
+  RETURN QUERY
+  WITH student_lifetimes AS (
+    SELECT
+      s.id,
+      s.created_at::DATE AS enrolled_on,
+      CASE
+        WHEN b.oldest_open_due_date < CURRENT_DATE - 30 THEN b.oldest_open_due_date
+      END AS churned_on
+    FROM students s
+    LEFT JOIN student_balances b ON b.student_id = s.id
+  ),
+  months AS (
+    SELECT
+      m.month_start::DATE AS month_start,
+      GREATEST(m.month_start::DATE, p_from) AS range_start,
+      LEAST((m.month_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE, p_to) AS range_end
+    FROM generate_series(
+      date_trunc('month', p_from::TIMESTAMP),
+      date_trunc('month', p_to::TIMESTAMP),
+      INTERVAL '1 month'
+    ) AS m(month_start)
+  ),
+  counts AS (
+    SELECT
+      mo.month_start,
+      COUNT(*) FILTER (
+        WHERE sl.enrolled_on < mo.range_start
+        AND (sl.churned_on IS NULL OR sl.churned_on >= mo.range_start)
+      ) AS active_count,
+      COUNT(*) FILTER (WHERE sl.enrolled_on BETWEEN mo.range_start AND mo.range_end) AS new_count,
+      COUNT(*) FILTER (WHERE sl.churned_on BETWEEN mo.range_start AND mo.range_end) AS churned_count
+    FROM months mo
+    LEFT JOIN student_lifetimes sl ON sl.enrolled_on <= mo.range_end
+    GROUP BY mo.month_start
+  )
+  SELECT
+    to_char(c.month_start, 'YYYY-MM'),
+    to_char(c.month_start, 'Mon YYYY'),
+    c.active_count,
+    c.new_count,
+    c.churned_count,
+    CASE
+      WHEN c.active_count + c.new_count > 0
+      THEN ROUND(c.churned_count * 100.0 / (c.active_count + c.new_count), 1)
+      ELSE 0
+    END
+  FROM counts c
+  ORDER BY c.month_start;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reports are called by signed-in staff; the role check is inside each function
+REVOKE EXECUTE ON FUNCTION assert_report_access() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION report_revenue(DATE, DATE, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION report_debt_aging(DATE, DATE) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION report_enrollments(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_revenue(DATE, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_debt_aging(DATE, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_enrollments(DATE, DATE) TO authenticated;
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_payments_payment_date ON student_payments(payment_date);
+CREATE INDEX IF NOT EXISTS idx_student_invoices_due_date ON student_invoices(due_date);
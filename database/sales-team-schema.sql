@@ -0,0 +1,212 @@
+-- Head of sales team view: access to every sales manager's students,
+-- per-manager totals and reassigning students between managers
+
+-- Role of the signed-in user (SECURITY DEFINER so policies on profiles
+-- can use it without recursing into themselves)
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS TEXT AS $$
+  SELECT role FROM profiles WHERE id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the signed-in user may work with a student owned by p_manager_id:
+-- sales see their own students, head_sales and superadmin see everyone's
+CREATE OR REPLACE FUNCTION can_manage_student(p_manager_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT COALESCE(
+    current_user_role() IN ('head_sales', 'superadmin')
+    OR (current_user_role() = 'sales' AND p_manager_id = auth.uid()),
+    FALSE
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Students: replace the "own rows only" policies
+DROP POLICY IF EXISTS "Sales managers can view their own students" ON students;
+DROP POLICY IF EXISTS "Sales managers can create students for themselves" ON students;
+DROP POLICY IF EXISTS "Sales managers can update their own students" ON students;
+DROP POLICY IF EXISTS "Sales managers can delete their own students" ON students;
+
+-- RLS Policy: Sales see their own students, head of sales sees the whole team
+CREATE POLICY "Sales staff can view students they manage" ON students
+  FOR SELECT
+  USING (can_manage_student(students.manager_id));
+
+-- RLS Policy: Sales create students for themselves, head of sales for anyone on the team
+CREATE POLICY "Sales staff can create students they manage" ON students
+  FOR INSERT
+  WITH CHECK (can_manage_student(students.manager_id));
+
+-- RLS Policy: Sales update their own students; only head of sales can move them to another manager
+CREATE POLICY "Sales staff can update students they manage" ON students
+  FOR UPDATE
+  USING (can_manage_student(students.manager_id))
+  WITH CHECK (can_manage_student(students.manager_id));
+
+-- RLS Policy: Sales staff can delete students they manage
+CREATE POLICY "Sales staff can delete students they manage" ON students
+  FOR DELETE
+  USING (can_manage_student(students.manager_id));
+
+-- Student payments: follow the student's visibility
+DROP POLICY IF EXISTS "Users can view payments for their students" ON student_payments;
+DROP POLICY IF EXISTS "Users can create payments for their students" ON student_payments;
+DROP POLICY IF EXISTS "Users can update payments for their students" ON student_payments;
+DROP POLICY IF EXISTS "Users can delete payments for their students" ON student_payments;
+
+CREATE POLICY "Users can view payments for their students" ON student_payments
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_payments.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+CREATE POLICY "Users can create payments for their students" ON student_payments
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_payments.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+CREATE POLICY "Users can update payments for their students" ON student_payments
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_payments.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+CREATE POLICY "Users can delete payments for their students" ON student_payments
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_payments.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Student invoices: follow the student's visibility
+DROP POLICY IF EXISTS "Users can view invoices for their students" ON student_invoices;
+
+CREATE POLICY "Users can view invoices for their students" ON student_invoices
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_invoices.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Profiles: head of sales needs names of the sales managers on the team
+DROP POLICY IF EXISTS "Head of sales can view sales staff profiles" ON profiles;
+CREATE POLICY "Head of sales can view sales staff profiles" ON profiles
+  FOR SELECT
+  USING (
+    profiles.role IN ('sales', 'head_sales')
+    AND current_user_role() IN ('head_sales', 'superadmin')
+  );
+
+-- Students can only be assigned to sales staff
+CREATE OR REPLACE FUNCTION check_student_manager()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = NEW.manager_id
+    AND profiles.role IN ('sales', 'head_sales')
+  ) THEN
+    RAISE EXCEPTION 'Students can only be assigned to sales managers'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_student_manager ON students;
+CREATE TRIGGER trigger_check_student_manager
+  BEFORE INSERT OR UPDATE OF manager_id ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_manager();
+
+-- Invoice refresh uses the same access rule as the policies above
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    WHERE students.id = p_student_id
+    AND can_manage_student(students.manager_id)
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, tp.price
+  INTO student
+  FROM students s
+  LEFT JOIN tariff_prices tp ON tp.id = s.tariff_price_id
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.price IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, amount)
+    VALUES (
+      student.id,
+      student.tariff_price_id,
+      v_period_start,
+      (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE,
+      v_period_start,
+      student.price
+    )
+    ON CONFLICT (student_id, period_start) DO NOTHING;
+
+    GET DIAGNOSTICS inserted_count = ROW_COUNT;
+    created_count := created_count + inserted_count;
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Per-manager totals for the team view
+CREATE OR REPLACE VIEW sales_manager_summary
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS manager_id,
+  p.full_name,
+  p.email,
+  p.role,
+  COUNT(s.id) AS student_count,
+  COALESCE(SUM(b.total_paid), 0) AS total_collected,
+  COALESCE(SUM(GREATEST(b.balance, 0)), 0) AS total_outstanding
+FROM profiles p
+LEFT JOIN students s ON s.manager_id = p.id
+LEFT JOIN student_balances b ON b.student_id = s.id
+WHERE p.role IN ('sales', 'head_sales')
+GROUP BY p.id, p.full_name, p.email, p.role;
@@ -0,0 +1,238 @@
+-- SMS and Telegram messages to students: payment receipts and reminders
+--
+-- Messages are queued here by the database and sent by the app's scheduled
+-- "messages:send" task through the configured provider (Eskiz, Playmobile,
+-- Telegram or the log provider in development). Each row is both the queue
+-- entry and the log of what was sent, so the student page can show it.
+--
+-- A student with a Telegram chat ID gets Telegram messages, everyone else
+-- an SMS to students.phone. Students who opted out still get a row, marked
+-- skipped, so staff can see a reminder was due but not sent.
+--
+-- Queued automatically:
+--   payment_received  when a payment is recorded (not for back-dated ones,
+--                     so imports of old payments stay quiet)
+--   payment_due       payment_due_reminder_days before the student's next
+--                     monthly period starts (its invoice is only created on
+--                     that day), unless their credit already covers it
+--   balance_overdue   while a student owes money past a due date, at most
+--                     once every overdue_reminder_interval_days
+
+INSERT INTO app_settings (key, value, description) VALUES
+  ('payment_due_reminder_days', '3', 'Days before a monthly payment is due to send the payment reminder'),
+  ('overdue_reminder_interval_days', '7', 'Days between reminders about an overdue balance')
+ON CONFLICT (key) DO NOTHING;
+
+-- Where and whether a student gets messages
+ALTER TABLE students ADD COLUMN IF NOT EXISTS telegram_chat_id TEXT;
+ALTER TABLE students ADD COLUMN IF NOT EXISTS messages_opted_out_at TIMESTAMP WITH TIME ZONE;
+
+-- Student messages table
+CREATE TABLE IF NOT EXISTS student_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  template TEXT NOT NULL CHECK (template IN ('payment_received', 'payment_due', 'balance_overdue')),
+  -- Values the template is filled with (amounts, dates)
+  params JSONB NOT NULL DEFAULT '{}',
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'telegram')),
+  -- Phone number or Telegram chat ID at the time the message was queued
+  recipient TEXT NOT NULL,
+  -- Text as sent, filled in by the sender
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'skipped')),
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  -- One message per event, e.g. payment_received:<payment id>
+  dedupe_key TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Queue a message for a student, once per dedupe key. Returns the message
+-- ID, or NULL when it was queued before or the student cannot be reached.
+CREATE OR REPLACE FUNCTION queue_student_message(
+  p_student_id UUID,
+  p_template TEXT,
+  p_params JSONB,
+  p_dedupe_key TEXT,
+  p_scheduled_for TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS UUID AS $$
+DECLARE
+  student RECORD;
+  v_id UUID;
+BEGIN
+  SELECT s.id, s.full_name, s.student_code, s.phone, s.telegram_chat_id, s.messages_opted_out_at, s.archived_at
+  INTO student
+  FROM students s
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.archived_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF student.telegram_chat_id IS NULL AND COALESCE(student.phone, '') = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO student_messages (student_id, template, params, channel, recipient, status, error, scheduled_for, dedupe_key)
+  VALUES (
+    student.id,
+    p_template,
+    p_params || jsonb_build_object('student_name', student.full_name, 'student_code', student.student_code),
+    CASE WHEN student.telegram_chat_id IS NOT NULL THEN 'telegram' ELSE 'sms' END,
+    COALESCE(student.telegram_chat_id, student.phone),
+    CASE WHEN student.messages_opted_out_at IS NOT NULL THEN 'skipped' ELSE 'pending' END,
+    CASE WHEN student.messages_opted_out_at IS NOT NULL THEN 'Student opted out of messages' END,
+    p_scheduled_for,
+    p_dedupe_key
+  )
+  ON CONFLICT (dedupe_key) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger: thank the student for a payment as soon as it is recorded
+CREATE OR REPLACE FUNCTION queue_payment_received_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Imported payments and ones dated more than a few days back are history,
+  -- not payments the student just made
+  IF NEW.import_batch_id IS NOT NULL OR NEW.payment_date < CURRENT_DATE - 3 THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM queue_student_message(
+    NEW.student_id,
+    'payment_received',
+    jsonb_build_object('amount', NEW.amount, 'payment_date', NEW.payment_date),
+    'payment_received:' || NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_queue_payment_received_message ON student_payments;
+CREATE TRIGGER trigger_queue_payment_received_message
+  AFTER INSERT ON student_payments
+  FOR EACH ROW
+  WHEN (NEW.status = 'active')
+  EXECUTE FUNCTION queue_payment_received_message();
+
+-- Queue the due date and overdue balance reminders for a day (run daily by
+-- the "messages:reminders" task). Returns the number of messages queued.
+CREATE OR REPLACE FUNCTION queue_payment_reminders(p_on DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  v_days_before INTEGER;
+  v_interval INTEGER;
+  v_due_date DATE;
+  upcoming RECORD;
+  balance RECORD;
+  queued_count INTEGER := 0;
+BEGIN
+  SELECT (value #>> '{}')::INTEGER INTO v_days_before
+  FROM app_settings WHERE key = 'payment_due_reminder_days';
+
+  SELECT (value #>> '{}')::INTEGER INTO v_interval
+  FROM app_settings WHERE key = 'overdue_reminder_interval_days';
+
+  v_days_before := COALESCE(v_days_before, 3);
+  v_interval := GREATEST(COALESCE(v_interval, 7), 1);
+  v_due_date := p_on + v_days_before;
+
+  -- Periods starting on the due date, priced the way generate_student_invoices
+  -- will bill them, less any credit the student has
+  FOR upcoming IN
+    SELECT
+      p.student_id,
+      p.list_amount - student_discount_amount(p.student_id, v_due_date, p.period_end, p.list_amount)
+        + LEAST(COALESCE(b.balance, 0), 0) AS amount_due
+    FROM (
+      SELECT
+        s.id AS student_id,
+        (s.created_at::DATE + make_interval(months => m.period_index + 1) - INTERVAL '1 day')::DATE AS period_end,
+        tariff_price_on(s.tariff_price_id, v_due_date, s.price_plan_since) AS list_amount
+      FROM students s
+      CROSS JOIN LATERAL (
+        SELECT (
+          EXTRACT(YEAR FROM v_due_date) * 12 + EXTRACT(MONTH FROM v_due_date)
+          - EXTRACT(YEAR FROM s.created_at::DATE) * 12 - EXTRACT(MONTH FROM s.created_at::DATE)
+        )::INTEGER AS period_index
+      ) m
+      WHERE s.archived_at IS NULL
+      AND s.tariff_price_id IS NOT NULL
+      AND m.period_index >= 1
+      AND (s.created_at::DATE + make_interval(months => m.period_index))::DATE = v_due_date
+    ) p
+    LEFT JOIN student_balances b ON b.student_id = p.student_id
+    WHERE p.list_amount IS NOT NULL
+    AND student_billable_between(p.student_id, v_due_date, p.period_end)
+  LOOP
+    CONTINUE WHEN upcoming.amount_due <= 0;
+
+    IF queue_student_message(
+      upcoming.student_id,
+      'payment_due',
+      jsonb_build_object('amount', upcoming.amount_due, 'due_date', v_due_date),
+      'payment_due:' || upcoming.student_id || ':' || v_due_date
+    ) IS NOT NULL THEN
+      queued_count := queued_count + 1;
+    END IF;
+  END LOOP;
+
+  -- Balances past due, unless the student was reminded recently
+  FOR balance IN
+    SELECT b.student_id, b.balance, b.oldest_open_due_date
+    FROM student_balances b
+    WHERE b.balance > 0
+    AND b.oldest_open_due_date < p_on
+    AND NOT EXISTS (
+      SELECT 1 FROM student_messages m
+      WHERE m.student_id = b.student_id
+      AND m.template = 'balance_overdue'
+      AND m.created_at > p_on - v_interval
+    )
+  LOOP
+    IF queue_student_message(
+      balance.student_id,
+      'balance_overdue',
+      jsonb_build_object('amount', balance.balance, 'due_date', balance.oldest_open_due_date),
+      'balance_overdue:' || balance.student_id || ':' || p_on
+    ) IS NOT NULL THEN
+      queued_count := queued_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN queued_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the database and the scheduler queue messages
+REVOKE EXECUTE ON FUNCTION queue_student_message(UUID, TEXT, JSONB, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION queue_payment_reminders(DATE) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS on student messages
+ALTER TABLE student_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Users can view messages of students they manage
+-- (messages are written by the functions above and the sender)
+CREATE POLICY "Users can view messages for their students" ON student_messages
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_messages.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_messages_student ON student_messages(student_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_student_messages_pending ON student_messages(scheduled_for) WHERE status = 'pending';
@@ -0,0 +1,429 @@
+-- Student lifecycle: trial, active, frozen, graduated and dropped
+--
+-- Every status change is a dated row in student_status_changes, so the status
+-- of a student on any day can be read back from the log (student_status_on).
+-- A freeze has an end date and the student is active again the day after it;
+-- it can also be ended early by changing the status back to active.
+-- students.status always holds today's status and is kept in sync by the
+-- log (and by the daily sync for freezes that end or changes that were
+-- scheduled ahead).
+--
+-- Billing: a period is invoiced when the student is active on at least one of
+-- its days. Trial days, whole frozen periods and everything after a student
+-- dropped out or graduated are not invoiced; invoices already issued for such
+-- periods are removed and their payments move to the next open invoice (or
+-- stay as credit).
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active'
+  CHECK (status IN ('trial', 'active', 'frozen', 'graduated', 'dropped'));
+
+-- Status changes table
+CREATE TABLE IF NOT EXISTS student_status_changes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  -- Empty for the status a student was enrolled with
+  from_status TEXT CHECK (from_status IN ('trial', 'active', 'frozen', 'graduated', 'dropped')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('trial', 'active', 'frozen', 'graduated', 'dropped')),
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- Last day of a freeze
+  effective_until DATE,
+  reason TEXT,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK ((to_status = 'frozen') = (effective_until IS NOT NULL)),
+  CHECK (effective_until IS NULL OR effective_until >= effective_from)
+);
+
+-- Status of a student on a given day. A freeze only counts until its end
+-- date; after that the change before it applies again.
+CREATE OR REPLACE FUNCTION student_status_on(p_student_id UUID, p_on DATE)
+RETURNS TEXT AS $$
+  SELECT COALESCE(
+    (
+      SELECT c.to_status FROM student_status_changes c
+      WHERE c.student_id = p_student_id
+      AND c.effective_from <= p_on
+      AND (c.effective_until IS NULL OR c.effective_until >= p_on)
+      ORDER BY c.effective_from DESC, c.created_at DESC
+      LIMIT 1
+    ),
+    'active'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the student is active on at least one day between two dates
+CREATE OR REPLACE FUNCTION student_billable_between(p_student_id UUID, p_from DATE, p_to DATE)
+RETURNS BOOLEAN AS $$
+  SELECT student_status_on(p_student_id, p_from) = 'active'
+  -- Became active during the period
+  OR EXISTS (
+    SELECT 1 FROM student_status_changes c
+    WHERE c.student_id = p_student_id
+    AND c.to_status = 'active'
+    AND c.effective_from BETWEEN p_from AND p_to
+  )
+  -- A freeze ended during the period
+  OR EXISTS (
+    SELECT 1 FROM student_status_changes c
+    WHERE c.student_id = p_student_id
+    AND c.to_status = 'frozen'
+    AND c.effective_until >= p_from
+    AND c.effective_until < p_to
+    AND student_status_on(p_student_id, c.effective_until + 1) = 'active'
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Trigger: students.status can only be changed through the status log
+CREATE OR REPLACE FUNCTION set_student_status()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('trial', 'active') THEN
+      RAISE EXCEPTION 'A new student starts as trial or active'
+        USING ERRCODE = '23514';
+    END IF;
+  ELSE
+    NEW.status := student_status_on(NEW.id, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_set_student_status ON students;
+CREATE TRIGGER trigger_set_student_status
+  BEFORE INSERT OR UPDATE OF status ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION set_student_status();
+
+-- Trigger: a new student's log starts with the status they enrolled with
+CREATE OR REPLACE FUNCTION handle_student_enrolled()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO student_status_changes (student_id, to_status, effective_from)
+  VALUES (NEW.id, NEW.status, COALESCE(NEW.created_at, NOW())::DATE);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_student_enrolled ON students;
+CREATE TRIGGER trigger_student_enrolled
+  AFTER INSERT ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_student_enrolled();
+
+-- Trigger: check a status change against the student's history
+CREATE OR REPLACE FUNCTION check_student_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_last_change DATE;
+  v_first BOOLEAN;
+BEGIN
+  NEW.changed_by := COALESCE(auth.uid(), NEW.changed_by);
+
+  SELECT MAX(effective_from) INTO v_last_change
+  FROM student_status_changes
+  WHERE student_id = NEW.student_id;
+
+  v_first := v_last_change IS NULL;
+
+  IF v_first THEN
+    NEW.from_status := NULL;
+    RETURN NEW;
+  END IF;
+
+  -- History is only ever added to, never rewritten
+  IF NEW.effective_from < v_last_change THEN
+    RAISE EXCEPTION 'The change must take effect on or after %', v_last_change
+      USING ERRCODE = '23514';
+  END IF;
+
+  NEW.from_status := student_status_on(NEW.student_id, NEW.effective_from);
+
+  IF NOT (
+    (NEW.from_status = 'trial' AND NEW.to_status IN ('active', 'dropped'))
+    OR (NEW.from_status = 'active' AND NEW.to_status IN ('frozen', 'graduated', 'dropped'))
+    OR (NEW.from_status = 'frozen' AND NEW.to_status IN ('active', 'dropped'))
+    OR (NEW.from_status IN ('graduated', 'dropped') AND NEW.to_status = 'active')
+  ) THEN
+    RAISE EXCEPTION 'A % student cannot become %', NEW.from_status, NEW.to_status
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF NEW.to_status IN ('frozen', 'dropped') AND NULLIF(btrim(COALESCE(NEW.reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the % status', NEW.to_status
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_student_status_change ON student_status_changes;
+CREATE TRIGGER trigger_check_student_status_change
+  BEFORE INSERT ON student_status_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_student_status_change();
+
+-- Trigger: the log cannot be edited or deleted (except with the student)
+CREATE OR REPLACE FUNCTION prevent_student_status_change_edit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (SELECT 1 FROM students WHERE id = OLD.student_id) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Status changes cannot be edited or deleted'
+    USING ERRCODE = '42501';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prevent_student_status_change_edit ON student_status_changes;
+CREATE TRIGGER trigger_prevent_student_status_change_edit
+  BEFORE UPDATE OR DELETE ON student_status_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_student_status_change_edit();
+
+-- Bring a student's status and invoices in line with their status log:
+-- remove invoices for periods they were not active in, then bill the ones
+-- they were (e.g. after coming back early from a freeze)
+CREATE OR REPLACE FUNCTION apply_student_status(p_student_id UUID, p_from DATE)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE students SET status = status WHERE id = p_student_id;
+
+  DELETE FROM student_invoices i
+  WHERE i.student_id = p_student_id
+  AND i.period_end >= p_from
+  AND NOT student_billable_between(p_student_id, i.period_start, i.period_end);
+
+  PERFORM generate_student_invoices(p_student_id);
+  PERFORM allocate_student_payments(p_student_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only status changes adjust invoices
+REVOKE EXECUTE ON FUNCTION apply_student_status(UUID, DATE) FROM PUBLIC, anon, authenticated;
+
+-- Trigger: apply a status change
+CREATE OR REPLACE FUNCTION handle_student_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.from_status IS NOT NULL THEN
+    PERFORM apply_student_status(NEW.student_id, NEW.effective_from);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_student_status_change ON student_status_changes;
+CREATE TRIGGER trigger_student_status_change
+  AFTER INSERT ON student_status_changes
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_student_status_change();
+
+-- Move students.status forward for freezes that ended and changes that were
+-- scheduled ahead (run daily by the app's "students:sync-statuses" task,
+-- before invoices are generated)
+CREATE OR REPLACE FUNCTION sync_student_statuses()
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE students
+  SET status = status
+  WHERE status IS DISTINCT FROM student_status_on(id, CURRENT_DATE);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION sync_student_statuses() FROM PUBLIC, anon, authenticated;
+
+-- Invoices: only periods in which the student was active are billed
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  v_price NUMERIC(12,2);
+  v_discount NUMERIC(12,2);
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    WHERE students.id = p_student_id
+    AND can_manage_student(students.manager_id)
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, s.price_plan_since, s.archived_at
+  INTO student
+  FROM students s
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.archived_at IS NOT NULL OR student.tariff_price_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    v_period_end := (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE;
+    v_price := tariff_price_on(student.tariff_price_id, v_period_start, student.price_plan_since);
+
+    IF v_price IS NOT NULL
+      AND student_billable_between(student.id, v_period_start, v_period_end)
+      AND NOT student_archived_during(student.id, v_period_start, v_period_end) THEN
+      v_discount := student_discount_amount(student.id, v_period_start, v_period_end, v_price);
+
+      INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, list_amount, discount_amount, amount)
+      VALUES (
+        student.id,
+        student.tariff_price_id,
+        v_period_start,
+        v_period_end,
+        v_period_start,
+        v_price,
+        v_discount,
+        v_price - v_discount
+      )
+      ON CONFLICT (student_id, period_start) DO NOTHING;
+
+      GET DIAGNOSTICS inserted_count = ROW_COUNT;
+      created_count := created_count + inserted_count;
+    END IF;
+
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enrollments, churn and retention per month between two dates. A student
+-- churns on the day they drop out; graduates are counted separately and do
+-- not count as churn.
+DROP FUNCTION IF EXISTS report_enrollments(DATE, DATE);
+CREATE FUNCTION report_enrollments(p_from DATE, p_to DATE)
+RETURNS TABLE (
+  month TEXT,
+  label TEXT,
+  active_at_start BIGINT,
+  new_students BIGINT,
+  churned_students BIGINT,
+  graduated_students BIGINT,
+  churn_rate NUMERIC,
+  retention_rate NUMERIC
+) AS $$
+#variable_conflict use_column
+BEGIN
+  PERFORM assert_report_access();
+
+  RETURN QUERY
+  WITH months AS (
+    SELECT
+      m.month_start::DATE AS month_start,
+      GREATEST(m.month_start::DATE, p_from) AS range_start,
+      LEAST((m.month_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE, p_to) AS range_end
+    FROM generate_series(
+      date_trunc('month', p_from::TIMESTAMP),
+      date_trunc('month', p_to::TIMESTAMP),
+      INTERVAL '1 month'
+    ) AS m(month_start)
+  ),
+  counts AS (
+    SELECT
+      mo.month_start,
+      (
+        SELECT COUNT(*) FROM students s
+        WHERE s.created_at::DATE < mo.range_start
+        AND student_status_on(s.id, mo.range_start - 1) IN ('trial', 'active', 'frozen')
+      ) AS active_count,
+      (
+        SELECT COUNT(*) FROM students s
+        WHERE s.created_at::DATE BETWEEN mo.range_start AND mo.range_end
+      ) AS new_count,
+      (
+        SELECT COUNT(DISTINCT c.student_id) FROM student_status_changes c
+        WHERE c.to_status = 'dropped'
+        AND c.effective_from BETWEEN mo.range_start AND mo.range_end
+      ) AS churned_count,
+      (
+        SELECT COUNT(DISTINCT c.student_id) FROM student_status_changes c
+        WHERE c.to_status = 'graduated'
+        AND c.effective_from BETWEEN mo.range_start AND mo.range_end
+      ) AS graduated_count
+    FROM months mo
+  )
+  SELECT
+    to_char(c.month_start, 'YYYY-MM'),
+    to_char(c.month_start, 'Mon YYYY'),
+    c.active_count,
+    c.new_count,
+    c.churned_count,
+    c.graduated_count,
+    CASE
+      WHEN c.active_count + c.new_count > 0
+      THEN ROUND(c.churned_count * 100.0 / (c.active_count + c.new_count), 1)
+      ELSE 0
+    END,
+    CASE
+      WHEN c.active_count + c.new_count > 0
+      THEN ROUND((c.active_count + c.new_count - c.churned_count) * 100.0 / (c.active_count + c.new_count), 1)
+      ELSE 100
+    END
+  FROM counts c
+  ORDER BY c.month_start;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION report_enrollments(DATE, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION report_enrollments(DATE, DATE) TO authenticated;
+
+-- Enable RLS on status changes
+ALTER TABLE student_status_changes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Status changes follow the student's visibility
+CREATE POLICY "Users can view status changes of their students" ON student_status_changes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_status_changes.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+CREATE POLICY "Users can change the status of their students" ON student_status_changes
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM students
+      WHERE students.id = student_status_changes.student_id
+      AND can_manage_student(students.manager_id)
+    )
+  );
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_student_status_changes_student ON student_status_changes(student_id, effective_from DESC);
+CREATE INDEX IF NOT EXISTS idx_student_status_changes_to_status ON student_status_changes(to_status, effective_from);
+CREATE INDEX IF NOT EXISTS idx_students_status ON students(status);
+
+-- Start the log of existing students with the status they have today
+INSERT INTO student_status_changes (student_id, to_status, effective_from)
+SELECT s.id, s.status, s.created_at::DATE FROM students s
+WHERE NOT EXISTS (SELECT 1 FROM student_status_changes c WHERE c.student_id = s.id);
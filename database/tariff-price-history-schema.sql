@@ -0,0 +1,247 @@
+-- Tariff price history: versioned prices with effective dates
+--
+-- Every change to a price plan is a new row in tariff_price_versions that
+-- takes effect on its effective_from date, so price changes can be scheduled
+-- ahead. A change either applies to everyone on the plan from that date, or
+-- only to students who join the plan on or after it (existing students keep
+-- the price they signed up with). Invoices use the price that was in effect
+-- for their period; tariff_prices.price always holds today's price for new
+-- students.
+
+-- Price versions table
+CREATE TABLE IF NOT EXISTS tariff_price_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  tariff_price_id UUID NOT NULL REFERENCES tariff_prices(id) ON DELETE CASCADE,
+  price NUMERIC(12,2) NOT NULL CHECK (price > 0),
+  effective_from DATE NOT NULL,
+  -- false: students already on the plan keep their previous price
+  applies_to_existing BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (tariff_price_id, effective_from)
+);
+
+-- Date the student joined their current price plan ("existing students" of a
+-- price change are the ones who joined before it takes effect)
+ALTER TABLE students ADD COLUMN IF NOT EXISTS price_plan_since DATE;
+
+UPDATE students SET price_plan_since = created_at::DATE WHERE price_plan_since IS NULL;
+
+CREATE OR REPLACE FUNCTION set_student_price_plan_since()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.price_plan_since := COALESCE(NEW.created_at, NOW())::DATE;
+  ELSIF NEW.tariff_price_id IS DISTINCT FROM OLD.tariff_price_id THEN
+    NEW.price_plan_since := CURRENT_DATE;
+  ELSE
+    NEW.price_plan_since := OLD.price_plan_since;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_student_price_plan_since ON students;
+CREATE TRIGGER trigger_student_price_plan_since
+  BEFORE INSERT OR UPDATE OF tariff_price_id, price_plan_since ON students
+  FOR EACH ROW
+  EXECUTE FUNCTION set_student_price_plan_since();
+
+-- Price of a plan on a given date for a student who joined it on
+-- p_plan_since. Dates before the first version use the first version.
+CREATE OR REPLACE FUNCTION tariff_price_on(p_tariff_price_id UUID, p_on DATE, p_plan_since DATE DEFAULT NULL)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(
+    (
+      SELECT v.price FROM tariff_price_versions v
+      WHERE v.tariff_price_id = p_tariff_price_id
+      AND v.effective_from <= p_on
+      AND (v.applies_to_existing OR p_plan_since IS NULL OR p_plan_since >= v.effective_from)
+      ORDER BY v.effective_from DESC
+      LIMIT 1
+    ),
+    (
+      SELECT v.price FROM tariff_price_versions v
+      WHERE v.tariff_price_id = p_tariff_price_id
+      ORDER BY v.effective_from
+      LIMIT 1
+    ),
+    (SELECT tp.price FROM tariff_prices tp WHERE tp.id = p_tariff_price_id)
+  )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Keep tariff_prices.price at today's price for new students (run daily by
+-- the app's "tariffs:sync-prices" task, before invoices are generated)
+CREATE OR REPLACE FUNCTION sync_tariff_prices(p_tariff_price_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE tariff_prices tp
+  SET price = tariff_price_on(tp.id, CURRENT_DATE)
+  WHERE (p_tariff_price_id IS NULL OR tp.id = p_tariff_price_id)
+  AND tp.price IS DISTINCT FROM tariff_price_on(tp.id, CURRENT_DATE);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Trigger: a new price plan starts its history with its initial price
+CREATE OR REPLACE FUNCTION handle_tariff_price_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO tariff_price_versions (tariff_price_id, price, effective_from)
+  VALUES (NEW.id, NEW.price, COALESCE(NEW.created_at, NOW())::DATE)
+  ON CONFLICT (tariff_price_id, effective_from) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_tariff_price_created ON tariff_prices;
+CREATE TRIGGER trigger_tariff_price_created
+  AFTER INSERT ON tariff_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_tariff_price_created();
+
+-- Trigger: only future changes can be added or cancelled, so invoices that
+-- were already issued never disagree with the history
+CREATE OR REPLACE FUNCTION check_tariff_price_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    IF TG_OP = 'INSERT' AND NEW.effective_from < CURRENT_DATE THEN
+      RAISE EXCEPTION 'A price change cannot take effect in the past'
+        USING ERRCODE = '23514';
+    END IF;
+
+    -- Deleting the whole price plan takes its history with it
+    IF TG_OP = 'DELETE' AND OLD.effective_from <= CURRENT_DATE
+      AND EXISTS (SELECT 1 FROM tariff_prices WHERE id = OLD.tariff_price_id) THEN
+      RAISE EXCEPTION 'Only scheduled price changes can be cancelled'
+        USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_check_tariff_price_version ON tariff_price_versions;
+CREATE TRIGGER trigger_check_tariff_price_version
+  BEFORE INSERT OR DELETE ON tariff_price_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_tariff_price_version();
+
+-- Trigger: a change that takes effect today updates the current price
+CREATE OR REPLACE FUNCTION handle_tariff_price_version_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM sync_tariff_prices(COALESCE(NEW.tariff_price_id, OLD.tariff_price_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_tariff_price_version_change ON tariff_price_versions;
+CREATE TRIGGER trigger_tariff_price_version_change
+  AFTER INSERT OR DELETE ON tariff_price_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_tariff_price_version_change();
+
+-- Invoices: each period is billed at the price in effect when it starts
+CREATE OR REPLACE FUNCTION generate_student_invoices(p_student_id UUID, p_until DATE DEFAULT CURRENT_DATE)
+RETURNS INTEGER AS $$
+DECLARE
+  student RECORD;
+  v_period_start DATE;
+  v_period_end DATE;
+  v_price NUMERIC(12,2);
+  period_index INTEGER := 0;
+  created_count INTEGER := 0;
+  inserted_count INTEGER;
+BEGIN
+  -- Signed-in callers may only bill students they manage
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM students
+    WHERE students.id = p_student_id
+    AND can_manage_student(students.manager_id)
+  ) THEN
+    RAISE EXCEPTION 'Access denied for student %', p_student_id;
+  END IF;
+
+  SELECT s.id, s.created_at::DATE AS enrolled_on, s.tariff_price_id, s.price_plan_since, s.archived_at
+  INTO student
+  FROM students s
+  WHERE s.id = p_student_id;
+
+  IF NOT FOUND OR student.archived_at IS NOT NULL OR student.tariff_price_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    v_period_start := (student.enrolled_on + make_interval(months => period_index))::DATE;
+    EXIT WHEN v_period_start > p_until;
+
+    v_period_end := (student.enrolled_on + make_interval(months => period_index + 1) - INTERVAL '1 day')::DATE;
+    v_price := tariff_price_on(student.tariff_price_id, v_period_start, student.price_plan_since);
+
+    IF v_price IS NOT NULL AND NOT student_archived_during(student.id, v_period_start, v_period_end) THEN
+      INSERT INTO student_invoices (student_id, tariff_price_id, period_start, period_end, due_date, amount)
+      VALUES (
+        student.id,
+        student.tariff_price_id,
+        v_period_start,
+        v_period_end,
+        v_period_start,
+        v_price
+      )
+      ON CONFLICT (student_id, period_start) DO NOTHING;
+
+      GET DIAGNOSTICS inserted_count = ROW_COUNT;
+      created_count := created_count + inserted_count;
+    END IF;
+
+    period_index := period_index + 1;
+  END LOOP;
+
+  IF created_count > 0 THEN
+    PERFORM allocate_student_payments(student.id);
+  END IF;
+
+  RETURN created_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the scheduler moves current prices forward
+REVOKE EXECUTE ON FUNCTION sync_tariff_prices(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Enable RLS on price versions
+ALTER TABLE tariff_price_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policy: Everyone signed in can see the price history
+CREATE POLICY "Authenticated users can view price history" ON tariff_price_versions
+  FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- RLS Policy: Superadmin schedules price changes
+CREATE POLICY "Superadmin can schedule price changes" ON tariff_price_versions
+  FOR INSERT
+  WITH CHECK (current_user_role() = 'superadmin');
+
+-- RLS Policy: Superadmin cancels scheduled price changes
+CREATE POLICY "Superadmin can cancel price changes" ON tariff_price_versions
+  FOR DELETE
+  USING (current_user_role() = 'superadmin');
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_tariff_price_versions_lookup ON tariff_price_versions(tariff_price_id, effective_from DESC);
+
+-- Start the history of existing price plans with their current price
+INSERT INTO tariff_price_versions (tariff_price_id, price, effective_from)
+SELECT id, price, created_at::DATE FROM tariff_prices
+ON CONFLICT (tariff_price_id, effective_from) DO NOTHING;
@@ -5,6 +5,36 @@ export default defineNuxtConfig({
   compatibilityDate: '2025-07-11',
   devtools: { enabled: true },
   runtimeConfig: {
+    // SMS and Telegram messages to students (see server/utils/message-providers.ts)
+    messages: {
+      // eskiz, playmobile or log
+      smsProvider: process.env.SMS_PROVIDER || 'log',
+      eskiz: {
+        email: process.env.ESKIZ_EMAIL || '',
+        password: process.env.ESKIZ_PASSWORD || '',
+        sender: process.env.ESKIZ_SENDER || '4546',
+        baseUrl: process.env.ESKIZ_BASE_URL || 'https://notify.eskiz.uz'
+      },
+      playmobile: {
+        username: process.env.PLAYMOBILE_USERNAME || '',
+        password: process.env.PLAYMOBILE_PASSWORD || '',
+        originator: process.env.PLAYMOBILE_ORIGINATOR || '3700',
+        baseUrl: process.env.PLAYMOBILE_BASE_URL || 'https://send.smsxabar.uz'
+      },
+      telegram: {
+        botToken: process.env.TELEGRAM_BOT_TOKEN || ''
+      }
+    },
+    // Payme and Click merchant callbacks (see server/api/gateways)
+    gateways: {
+      payme: {
+        key: process.env.PAYME_KEY || ''
+      },
+      click: {
+        serviceId: process.env.CLICK_SERVICE_ID || '',
+        secretKey: process.env.CLICK_SECRET_KEY || ''
+      }
+    },
     public: {
       supabaseUrl: process.env.SUPABASE_URL,
       supabaseKey: process.env.SUPABASE_KEY,
@@ -31,6 +61,24 @@ export default defineNuxtConfig({
     redirect: false
   },
 
+  nitro: {
+    experimental: {
+      tasks: true
+    },
+    scheduledTasks: {
+      // Ended freezes and scheduled status changes, before the night's invoices
+      '50 0 * * *': ['students:sync-statuses'],
+      // Scheduled price changes take effect before the night's invoices
+      '55 0 * * *': ['tariffs:sync-prices'],
+      // New monthly invoices, so balances in lists are current every morning
+      '0 1 * * *': ['billing:invoices'],
+      // Queued student messages go out within a minute
+      '* * * * *': ['messages:send'],
+      // Payment reminders in the morning, after the night's invoices
+      '0 9 * * *': ['messages:reminders']
+    }
+  },
+
   shadcn: {
     prefix: '',
     componentDir: '~/components/ui'
@@ -0,0 +1,173 @@
+// Local Payme and Click simulator: plays a gateway against a running app
+// (npm run dev) and checks the answers of every callback step.
+//
+//   PAYME_KEY=... node scripts/payment-gateway-simulator.mjs payme <student code> <amount>
+//   CLICK_SERVICE_ID=... CLICK_SECRET_KEY=... node scripts/payment-gateway-simulator.mjs click <student code> <amount>
+//
+// Add --cancel to cancel the payment afterwards (Payme) or have Click report
+// it as failed, and --url to target another server (default
+// http://localhost:3000). --checks only plays the requests the app has to
+// refuse or repeat (bad key or signature, duplicates, amount and account
+// mismatches) and cancels the transaction at the end, so no payment is recorded
+// (npm run simulate:payments:checks -- <payme|click> <student code> <amount>).
+// Exits with 1 when any step got an unexpected answer.
+import { createHash, randomBytes } from 'node:crypto'
+
+const args = process.argv.slice(2)
+const flags = new Set(args.filter(arg => arg.startsWith('--') && !arg.includes('=')))
+const urlFlag = args.find(arg => arg.startsWith('--url='))
+const [provider, studentCode, amountArg] = args.filter(arg => !arg.startsWith('--'))
+
+const baseUrl = urlFlag ? urlFlag.slice('--url='.length) : 'http://localhost:3000'
+const amount = Number(amountArg)
+
+if (!['payme', 'click'].includes(provider) || !studentCode || !(amount > 0)) {
+  console.error('Usage: node scripts/payment-gateway-simulator.mjs <payme|click> <student code> <amount> [--cancel] [--checks] [--url=http://localhost:3000]')
+  process.exit(2)
+}
+
+const checksOnly = flags.has('--checks')
+
+let failures = 0
+
+// Print a step and whether its answer was the expected one
+const check = (step, response, expect) => {
+  const passed = Boolean(expect(response))
+  if (!passed) failures++
+  console.log(`${passed ? 'ok  ' : 'FAIL'} ${step}`)
+  console.log(`     ${JSON.stringify(response)}`)
+}
+
+// Payme: JSON-RPC with Basic auth
+const simulatePayme = async () => {
+  const key = process.env.PAYME_KEY
+  if (!key) throw new Error('Set PAYME_KEY to the merchant key the app uses')
+
+  const call = async (method, params, auth = `Paycom:${key}`) => {
+    const response = await fetch(`${baseUrl}/api/gateways/payme`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${Buffer.from(auth).toString('base64')}`
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params })
+    })
+    return response.json()
+  }
+
+  const id = randomBytes(12).toString('hex')
+  const tiyin = Math.round(amount * 100)
+  const account = { student_code: studentCode }
+
+  check('wrong key is refused', await call('CheckTransaction', { id }, 'Paycom:wrong'), r => r.error?.code === -32504)
+  check('unknown student is refused', await call('CheckPerformTransaction', { amount: tiyin, account: { student_code: 'NO-SUCH-CODE' } }), r => r.error?.code === -31050)
+  if (!checksOnly) {
+    check('CheckPerformTransaction', await call('CheckPerformTransaction', { amount: tiyin, account }), r => r.result?.allow === true)
+  }
+
+  const created = await call('CreateTransaction', { id, time: Date.now(), amount: tiyin, account })
+  check('CreateTransaction', created, r => r.result?.state === 1)
+  check('CreateTransaction again returns the same transaction', await call('CreateTransaction', { id, time: Date.now(), amount: tiyin, account }),
+    r => r.result?.transaction === created.result?.transaction)
+  check('CreateTransaction again with another amount is refused', await call('CreateTransaction', { id, time: Date.now(), amount: tiyin + 100, account }),
+    r => r.error?.code === -31001)
+  check('CreateTransaction again for another account is refused', await call('CreateTransaction', { id, time: Date.now(), amount: tiyin, account: { student_code: 'NO-SUCH-CODE' } }),
+    r => r.error?.code === -31050)
+
+  if (checksOnly) {
+    check('CancelTransaction cancels the unpaid transaction', await call('CancelTransaction', { id, reason: 5 }), r => r.result?.state === -1)
+    check('CancelTransaction again', await call('CancelTransaction', { id, reason: 5 }), r => r.result?.state === -1)
+    check('PerformTransaction after the cancel is refused', await call('PerformTransaction', { id }), r => r.error?.code === -31008)
+    return
+  }
+
+  check('PerformTransaction', await call('PerformTransaction', { id }), r => r.result?.state === 2)
+  check('PerformTransaction again records nothing new', await call('PerformTransaction', { id }), r => r.result?.state === 2)
+  check('CheckTransaction', await call('CheckTransaction', { id }), r => r.result?.state === 2)
+
+  if (flags.has('--cancel')) {
+    check('CancelTransaction voids the payment', await call('CancelTransaction', { id, reason: 5 }), r => r.result?.state === -2)
+    check('CancelTransaction again', await call('CancelTransaction', { id, reason: 5 }), r => r.result?.state === -2)
+  }
+
+  const now = Date.now()
+  check('GetStatement lists the transaction', await call('GetStatement', { from: now - 60 * 60 * 1000, to: now }),
+    r => r.result?.transactions?.some(transaction => transaction.id === id))
+}
+
+// Click: form posts signed with MD5
+const simulateClick = async () => {
+  const serviceId = process.env.CLICK_SERVICE_ID
+  const secretKey = process.env.CLICK_SECRET_KEY
+  if (!serviceId || !secretKey) throw new Error('Set CLICK_SERVICE_ID and CLICK_SECRET_KEY to the values the app uses')
+
+  const call = async (path, fields, options = {}) => {
+    const signed = [
+      fields.click_trans_id, fields.service_id, secretKey, fields.merchant_trans_id,
+      ...(fields.action === '1' ? [fields.merchant_prepare_id] : []),
+      fields.amount, fields.action, fields.sign_time
+    ].join('')
+    const sign = options.badSignature ? '0'.repeat(32) : createHash('md5').update(signed).digest('hex')
+
+    const response = await fetch(`${baseUrl}/api/gateways/click/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ ...fields, sign_string: sign })
+    })
+    return response.json()
+  }
+
+  const signTime = new Date().toISOString().slice(0, 19).replace('T', ' ')
+  const base = {
+    click_trans_id: String(Date.now()),
+    service_id: serviceId,
+    click_paydoc_id: String(Date.now()),
+    merchant_trans_id: studentCode,
+    amount: amount.toFixed(2),
+    error: '0',
+    error_note: 'Success',
+    sign_time: signTime
+  }
+
+  check('bad signature is refused', await call('prepare', { ...base, action: '0' }, { badSignature: true }), r => r.error === -1)
+  check('unknown student is refused', await call('prepare', { ...base, action: '0', merchant_trans_id: 'NO-SUCH-CODE' }), r => r.error === -5)
+
+  const prepared = await call('prepare', { ...base, action: '0' })
+  check('Prepare', prepared, r => r.error === 0 && r.merchant_prepare_id)
+  check('Prepare again returns the same transaction', await call('prepare', { ...base, action: '0' }),
+    r => r.merchant_prepare_id === prepared.merchant_prepare_id)
+  check('Prepare again with another amount is refused', await call('prepare', { ...base, action: '0', amount: (amount + 1).toFixed(2) }),
+    r => r.error === -2)
+  check('Prepare again for another student is refused', await call('prepare', { ...base, action: '0', merchant_trans_id: 'NO-SUCH-CODE' }),
+    r => r.error === -5)
+
+  const completeFields = { ...base, action: '1', merchant_prepare_id: String(prepared.merchant_prepare_id) }
+
+  check('Complete with another amount is refused', await call('complete', { ...completeFields, amount: (amount + 1).toFixed(2) }),
+    r => r.error === -2)
+
+  if (checksOnly) {
+    const failed = { ...completeFields, error: '-5017', error_note: 'Insufficient funds' }
+    check('Complete with a Click error cancels', await call('complete', failed), r => r.error === -9)
+    check('Complete again after the cancel is refused', await call('complete', completeFields), r => r.error === -9)
+    return
+  }
+
+  if (flags.has('--cancel')) {
+    check('Complete with a Click error cancels', await call('complete', { ...completeFields, error: '-5017', error_note: 'Insufficient funds' }), r => r.error === -9)
+    return
+  }
+
+  check('Complete', await call('complete', completeFields), r => r.error === 0 && r.merchant_confirm_id)
+  check('Complete again records nothing new', await call('complete', completeFields), r => r.error === -4)
+}
+
+try {
+  await (provider === 'payme' ? simulatePayme() : simulateClick())
+} catch (error) {
+  console.error(error.message)
+  process.exit(1)
+}
+
+console.log(failures ? `\n${failures} step(s) failed` : '\nAll steps passed')
+process.exit(failures ? 1 : 0)
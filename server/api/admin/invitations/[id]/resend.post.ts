@@ -0,0 +1,40 @@
+// Send a fresh one-time link and restart the expiry. The invitee never
+// signed in, so their auth user is recreated for the new link.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+    const id = getUuidParam(event, 'id')
+
+    const invitation = await getOpenInvitation(client, id)
+
+    if (invitation.user_id) {
+      await deleteAuthUser(event, invitation.user_id)
+    }
+
+    const { error: expiryError } = await client
+      .from('user_invitations')
+      .update({ expires_at: getInvitationExpiry(), user_id: null })
+      .eq('id', id)
+
+    if (expiryError) throwDatabaseError(expiryError, 'update invitation')
+
+    const userId = await sendInvitationEmail(event, invitation)
+
+    const { data, error } = await client
+      .from('user_invitations')
+      .update({ user_id: userId })
+      .eq('id', id)
+      .select(INVITATION_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update invitation')
+
+    return {
+      success: true,
+      message: `Invitation sent again to ${invitation.email}`,
+      invitation: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
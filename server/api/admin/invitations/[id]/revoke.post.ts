@@ -0,0 +1,30 @@
+// Withdraw an invitation; the link stops working because its auth user is removed
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+    const id = getUuidParam(event, 'id')
+
+    const invitation = await getOpenInvitation(client, id)
+
+    const { data, error } = await client
+      .from('user_invitations')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(INVITATION_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'revoke invitation')
+
+    if (invitation.user_id) {
+      await deleteAuthUser(event, invitation.user_id)
+    }
+
+    return {
+      success: true,
+      message: 'Invitation revoked',
+      invitation: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,19 @@
+// Invitations that have not been accepted or revoked yet
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+
+    const { data, error } = await client
+      .from('user_invitations')
+      .select(INVITATION_SELECT)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false })
+
+    if (error) throwDatabaseError(error, 'load invitations')
+
+    return { invitations: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
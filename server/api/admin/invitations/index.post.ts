@@ -0,0 +1,84 @@
+import type { UserRole } from '~/types/role'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Invite someone with a fixed role; they set their own password through the
+// one-time link in the email
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const email = v.string('email', { required: true, max: 254 })?.toLowerCase()
+    const fullName = v.string('full_name', { max: 100 })
+    const role = v.string('role', { required: true })
+    if (email && !EMAIL_PATTERN.test(email)) v.fail('email', 'Must be a valid email address')
+    if (role && !USER_ROLES.includes(role as UserRole)) v.fail('role', 'Unknown role')
+    v.assert()
+
+    const { count, error: profileError } = await client
+      .from('profiles')
+      .select('id', { count: 'exact', head: true })
+      .eq('email', email!)
+
+    if (profileError) throwDatabaseError(profileError, 'check existing users')
+
+    if (count) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'A user with this email already exists',
+        data: { errors: [{ field: 'email', message: 'A user with this email already exists' }] }
+      })
+    }
+
+    const { data: invitation, error } = await client
+      .from('user_invitations')
+      .insert({
+        email,
+        full_name: fullName || null,
+        role,
+        expires_at: getInvitationExpiry()
+      })
+      .select('id')
+      .single()
+
+    if (error?.code === '23505') {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'This email has already been invited',
+        data: { errors: [{ field: 'email', message: 'This email has already been invited' }] }
+      })
+    }
+    if (error) throwDatabaseError(error, 'create invitation')
+
+    let userId: string
+    try {
+      userId = await sendInvitationEmail(event, { email: email!, full_name: fullName || null })
+    } catch (sendError) {
+      // Free the email for another attempt
+      await client
+        .from('user_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitation.id)
+      throw sendError
+    }
+
+    const { data, error: updateError } = await client
+      .from('user_invitations')
+      .update({ user_id: userId })
+      .eq('id', invitation.id)
+      .select(INVITATION_SELECT)
+      .single()
+
+    if (updateError) throwDatabaseError(updateError, 'update invitation')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: `Invitation sent to ${email}`,
+      invitation: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,48 @@
+// Give a deactivated (or never approved) user access again
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
+
+    assertNotSelf(currentUserId, userId!, 'activate')
+
+    // Invitees get access by accepting their invitation
+    const { count, error: invitationError } = await client
+      .from('user_invitations')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId!)
+      .is('accepted_at', null)
+      .is('revoked_at', null)
+
+    if (invitationError) throwDatabaseError(invitationError, 'check invitations')
+
+    if (count) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'This user has not accepted their invitation yet'
+      })
+    }
+
+    const { data, error } = await client
+      .from('profiles')
+      .update({ is_approved: true, deactivated_at: null })
+      .eq('id', userId!)
+      .select(USER_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'activate user')
+
+    await setSignInBlocked(event, userId!, false)
+
+    return {
+      success: true,
+      message: 'User activated successfully',
+      user: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,32 @@
+// Archive a user instead of deleting them: they lose access, but their
+// students, payments and audit entries keep pointing at them
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
+
+    if (userId === currentUserId) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'You cannot archive your own account'
+      })
+    }
+
+    const user = await setArchived(client, 'profiles', userId!, true, {
+      label: 'User',
+      columns: 'id, is_approved, archived_at',
+      values: { is_approved: false }
+    })
+
+    return {
+      success: true,
+      message: 'User archived successfully',
+      user
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,32 @@
+// Deactivate a user: they stay in the list with their role and history, but
+// can no longer sign in until they are activated again
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
+
+    assertNotSelf(currentUserId, userId!, 'deactivate')
+
+    const { data, error } = await client
+      .from('profiles')
+      .update({ is_approved: false, deactivated_at: new Date().toISOString() })
+      .eq('id', userId!)
+      .select(USER_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'deactivate user')
+
+    await setSignInBlocked(event, userId!, true)
+
+    return {
+      success: true,
+      message: 'User deactivated successfully',
+      user: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
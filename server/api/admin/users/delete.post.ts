@@ -1,50 +1,31 @@
-import { serverSupabaseServiceRole } from '#supabase/server'
-
+// Delete a user for good. Only archived users can be deleted, matching the
+// users page, so nobody who still has access disappears by accident.
 export default defineEventHandler(async (event) => {
-  console.log('Delete user API called')
   try {
-    // Get the user ID from the request body
-    const body = await readBody(event)
-    console.log('Request body:', body)
-    const { userId } = body
-
-    if (!userId) {
-      console.log('No userId provided')
-      throw createError({
-        statusCode: 400,
-        statusMessage: 'User ID is required'
-      })
-    }
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
 
-    console.log('Attempting to delete user:', userId)
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
 
-    // Create admin client using service role key
-    const supabaseAdmin = serverSupabaseServiceRole(event)
+    assertNotSelf(currentUserId, userId!, 'delete')
 
-    // Then delete from Supabase auth using admin client
-    const { error: authError } = await supabaseAdmin.auth.admin.deleteUser(userId)
+    const user = await getManagedUser(client, userId!)
 
-    if (authError) {
+    if (!user.archived_at) {
       throw createError({
-        statusCode: 500,
-        statusMessage: `Failed to delete user from auth: ${authError.message}`
+        statusCode: 409,
+        statusMessage: 'Archive the user before deleting them'
       })
     }
 
+    await deleteAuthUser(event, userId!)
+
     return {
       success: true,
       message: 'User deleted successfully'
     }
-  } catch (error: any) {
-    // If it's already a createError, re-throw it
-    if (error?.statusCode) {
-      throw error
-    }
-
-    // Otherwise, create a generic server error
-    throw createError({
-      statusCode: 500,
-      statusMessage: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`
-    })
+  } catch (error) {
+    throw toApiError(error)
   }
 })
@@ -0,0 +1,16 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+
+    const { data, error } = await client
+      .from('profiles')
+      .select(USER_SELECT)
+      .order('created_at', { ascending: false })
+
+    if (error) throwDatabaseError(error, 'load users')
+
+    return { users: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,28 @@
+// Email the user a one-time link to set a new password
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
+
+    const user = await getManagedUser(client, userId!)
+
+    if (user.archived_at || user.deactivated_at) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Activate the user before resetting their password'
+      })
+    }
+
+    await sendPasswordResetEmail(event, user.email)
+
+    return {
+      success: true,
+      message: `Password reset link sent to ${user.email}`
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,30 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    v.assert()
+
+    if (userId === currentUserId) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'You cannot restore your own account'
+      })
+    }
+
+    const user = await setArchived(client, 'profiles', userId!, false, {
+      label: 'User',
+      columns: 'id, is_approved, archived_at',
+      values: { is_approved: true }
+    })
+
+    return {
+      success: true,
+      message: 'User restored successfully',
+      user
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,43 @@
+import type { UserRole } from '~/types/role'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId: currentUserId, client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    const role = v.string('role', { required: true })
+    if (role && !USER_ROLES.includes(role as UserRole)) v.fail('role', 'Unknown role')
+    v.assert()
+
+    assertNotSelf(currentUserId, userId!, 'change the role of')
+
+    const user = await getManagedUser(client, userId!)
+    if (user.role === role) {
+      return {
+        success: true,
+        message: 'Role unchanged',
+        user
+      }
+    }
+
+    await assertNoManagedStudents(client, userId!, role as UserRole)
+
+    const { data, error } = await client
+      .from('profiles')
+      .update({ role })
+      .eq('id', userId!)
+      .select(USER_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'change role')
+
+    return {
+      success: true,
+      message: 'Role changed successfully',
+      user: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
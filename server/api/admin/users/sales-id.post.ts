@@ -0,0 +1,27 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'users.manage')
+
+    const v = createValidator(await readBody(event))
+    const userId = v.uuid('userId', { required: true })
+    const salesId = v.string('salesId', { max: 10 })
+    v.assert()
+
+    const { data, error } = await client
+      .from('profiles')
+      .update({ sales_id: salesId || null })
+      .eq('id', userId!)
+      .select('id, sales_id')
+      .single()
+
+    if (error) throwDatabaseError(error, 'update sales ID')
+
+    return {
+      success: true,
+      message: 'Sales ID updated successfully',
+      user: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,36 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'audit.read')
+
+    const filters = parseAuditQuery(getQuery(event))
+    const start = (filters.page - 1) * AUDIT_PAGE_SIZE
+
+    let query = client
+      .from('audit_log')
+      .select(AUDIT_SELECT, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(start, start + AUDIT_PAGE_SIZE - 1)
+
+    if (filters.entity) query = query.eq('table_name', filters.entity)
+    if (filters.actorId) query = query.eq('actor_id', filters.actorId)
+    if (filters.recordId) query = query.eq('record_id', filters.recordId)
+    if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`)
+    if (filters.to) query = query.lte('created_at', `${filters.to}T23:59:59.999Z`)
+
+    const { data, error, count } = await query
+
+    if (error) throwDatabaseError(error, 'load audit log')
+
+    const entries = data || []
+
+    return {
+      entries,
+      references: await fetchAuditReferences(client, entries),
+      total: count ?? 0,
+      page: filters.page,
+      pageSize: AUDIT_PAGE_SIZE
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,19 @@
+// Called by the invitee after setting their password: activates the account
+// unless the invitation has expired
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+
+    const { data, error } = await client.rpc('accept_user_invitation')
+
+    if (error) throwDatabaseError(error, 'accept invitation')
+
+    return {
+      success: true,
+      message: 'Invitation accepted',
+      invitation: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
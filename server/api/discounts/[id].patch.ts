@@ -0,0 +1,50 @@
+// Update a catalog discount. Students who already have it keep the amount
+// they were given; changes apply to new students only.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'discounts.manage')
+
+    const discountId = getUuidParam(event, 'id')
+    const input = parseDiscountInput(await readBody(event), { partial: true })
+
+    if (Object.keys(input).length === 0) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Nothing to update'
+      })
+    }
+
+    const { data, error } = await client
+      .from('discounts')
+      .update(input)
+      .eq('id', discountId)
+      .select(DISCOUNT_SELECT)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'This promo code is already in use',
+          data: { errors: [{ field: 'promo_code', message: 'This promo code is already in use' }] }
+        })
+      }
+      throwDatabaseError(error, 'update discount')
+    }
+
+    if (!data) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Discount not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Discount updated successfully',
+      discount: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,40 @@
+import type { Discount } from '~/types/discount'
+
+// Catalog row with the number of students it was given to
+type DiscountRow = Omit<Discount, 'uses'> & { student_discounts: { count: number }[] | null }
+
+// Discount catalog. Pickers pass active=true to only get discounts that can
+// be given today.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const { active } = getQuery(event)
+
+    let query = client
+      .from('discounts')
+      .select(`${DISCOUNT_SELECT}, student_discounts(count)`)
+      .order('created_at', { ascending: false })
+
+    if (active === 'true') {
+      const today = todayDate()
+      query = query
+        .eq('is_active', true)
+        .or(`valid_from.is.null,valid_from.lte.${today}`)
+        .or(`valid_until.is.null,valid_until.gte.${today}`)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load discounts')
+
+    const rows = (data || []) as unknown as DiscountRow[]
+    const discounts: Discount[] = rows.map(({ student_discounts, ...discount }) => ({
+      ...discount,
+      uses: student_discounts?.[0]?.count ?? 0
+    }))
+
+    return { discounts }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,33 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'discounts.manage')
+
+    const input = parseDiscountInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('discounts')
+      .insert(input)
+      .select(DISCOUNT_SELECT)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'This promo code is already in use',
+          data: { errors: [{ field: 'promo_code', message: 'This promo code is already in use' }] }
+        })
+      }
+      throwDatabaseError(error, 'create discount')
+    }
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Discount created successfully',
+      discount: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,26 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluation_templates.manage')
+
+    const templateId = getUuidParam(event, 'id')
+    const input = parseEvaluationTemplateInput(await readBody(event), { partial: true })
+
+    // Evaluations keep their own copy of the criteria, so editing is safe
+    const { data, error } = await client
+      .from('evaluation_templates')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select(EVALUATION_TEMPLATE_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update evaluation template')
+
+    return {
+      success: true,
+      message: 'Evaluation template updated successfully',
+      template: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
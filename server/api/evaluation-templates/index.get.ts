@@ -0,0 +1,23 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const { includeInactive } = getQuery(event)
+
+    let query = client
+      .from('evaluation_templates')
+      .select(EVALUATION_TEMPLATE_SELECT)
+      .order('name')
+
+    if (includeInactive !== 'true') {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load evaluation templates')
+
+    return { templates: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
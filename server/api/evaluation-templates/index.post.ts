@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluation_templates.manage')
+
+    const input = parseEvaluationTemplateInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('evaluation_templates')
+      .insert(input)
+      .select(EVALUATION_TEMPLATE_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'create evaluation template')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Evaluation template created successfully',
+      template: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
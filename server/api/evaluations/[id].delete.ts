@@ -0,0 +1,29 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluations.manage')
+
+    const evaluationId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('student_evaluations')
+      .delete()
+      .eq('id', evaluationId)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'delete evaluation')
+
+    if (!data?.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Evaluation not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Evaluation deleted successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
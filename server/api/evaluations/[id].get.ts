@@ -0,0 +1,10 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const evaluationId = getUuidParam(event, 'id')
+
+    return { evaluation: await fetchEvaluation(client, evaluationId) }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,26 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluations.manage')
+
+    const evaluationId = getUuidParam(event, 'id')
+    const input = parseEvaluationInput(await readBody(event), { partial: true })
+
+    const { error } = await client.rpc('edit_student_evaluation', {
+      p_evaluation_id: evaluationId,
+      p_evaluation_date: input.evaluation_date,
+      p_recommended_level: input.recommended_level,
+      p_comment: input.comment,
+      p_scores: input.scores
+    })
+
+    if (error) throwDatabaseError(error, 'update evaluation')
+
+    return {
+      success: true,
+      message: 'Evaluation updated successfully',
+      evaluation: await fetchEvaluation(client, evaluationId)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
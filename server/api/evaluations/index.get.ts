@@ -0,0 +1,36 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluations.manage')
+
+    const query = getQuery(event)
+    const groupId = typeof query.groupId === 'string' && query.groupId ? query.groupId : undefined
+
+    let request = client
+      .from('student_evaluations')
+      .select(EVALUATION_SELECT)
+      .order('evaluation_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(500)
+
+    // Evaluations of the students currently in the group
+    if (groupId) {
+      const { data: students, error: studentsError } = await client
+        .from('students')
+        .select('id')
+        .eq('group_id', groupId)
+
+      if (studentsError) throwDatabaseError(studentsError, 'load group students')
+      if (!students?.length) return { evaluations: [] }
+
+      request = request.in('student_id', students.map(student => student.id))
+    }
+
+    const { data, error } = await request
+
+    if (error) throwDatabaseError(error, 'load evaluations')
+
+    return { evaluations: sortEvaluationScores(data || []) }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,27 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'evaluations.manage')
+
+    const input = parseEvaluationInput(await readBody(event))
+
+    const { data: evaluationId, error } = await client.rpc('record_student_evaluation', {
+      p_student_id: input.student_id,
+      p_template_id: input.template_id,
+      p_evaluation_date: input.evaluation_date,
+      p_recommended_level: input.recommended_level,
+      p_comment: input.comment,
+      p_scores: input.scores
+    })
+
+    if (error) throwDatabaseError(error, 'record evaluation')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Evaluation recorded successfully',
+      evaluation: await fetchEvaluation(client, evaluationId as string)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,76 @@
+import { hasPermission } from '~/config/permissions'
+
+const PAYMENT_EXPORT_SELECT = `
+  id, payment_date, payment_type, amount, refunded_amount, status, created_at,
+  method:payment_methods(name),
+  student:students!inner(student_code, full_name, manager_id, manager:profiles!manager_id(full_name, email))
+`
+
+interface PaymentExportRow {
+  payment_date: string
+  payment_type: string
+  amount: number
+  refunded_amount: number
+  status: string
+  created_at: string
+  method: { name: string } | null
+  student: {
+    student_code: string
+    full_name: string
+    manager: { full_name: string | null; email: string } | null
+  } | null
+}
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { client, profile } = await requirePermission(event, 'students.read.own')
+    const query = getQuery(event)
+    const format = parseExportFormat(query)
+    const { from, to } = parseReportRangeInput(query)
+    const managerId = typeof query.managerId === 'string' && query.managerId ? query.managerId : undefined
+
+    let request = client
+      .from('student_payments')
+      .select(PAYMENT_EXPORT_SELECT)
+      .gte('payment_date', from)
+      .lte('payment_date', to)
+      .order('payment_date')
+      .order('created_at')
+
+    // Same scoping as the student list: the team for head of sales, own students otherwise
+    if (hasPermission(profile.role, 'students.read.all')) {
+      if (managerId) {
+        request = request.eq('student.manager_id', managerId)
+      }
+    } else {
+      request = request.eq('student.manager_id', profile.id)
+    }
+
+    const { data, error } = await request
+
+    if (error) throwDatabaseError(error, 'load payments')
+
+    const payments = (data || []) as unknown as PaymentExportRow[]
+
+    return sendExport(event, {
+      filename: `payments-${from}-to-${to}`,
+      format,
+      sheetName: 'Payments',
+      rows: payments,
+      columns: [
+        { header: 'Date', value: payment => payment.payment_date },
+        { header: 'Student Code', value: payment => payment.student?.student_code },
+        { header: 'Student', value: payment => payment.student?.full_name },
+        { header: 'Manager', value: payment => payment.student?.manager?.full_name || payment.student?.manager?.email },
+        { header: 'Method', value: payment => payment.method?.name || payment.payment_type },
+        { header: 'Amount', value: payment => Number(payment.amount) },
+        { header: 'Refunded', value: payment => Number(payment.refunded_amount) },
+        { header: 'Kept', value: payment => (payment.status === 'voided' ? 0 : Number(payment.amount) - Number(payment.refunded_amount)) },
+        { header: 'Status', value: payment => payment.status },
+        { header: 'Recorded At', value: payment => payment.created_at }
+      ]
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
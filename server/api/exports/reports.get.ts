@@ -0,0 +1,49 @@
+// Spreadsheet columns of each report table
+const REPORT_EXPORT_COLUMNS: Record<ReportKindValue, ExportColumn<Record<string, any>>[]> = {
+  revenue: [
+    { header: 'Group', value: row => row.label },
+    { header: 'Payments', value: row => Number(row.payment_count) },
+    { header: 'Revenue', value: row => Number(row.amount) }
+  ],
+  debt: [
+    { header: 'Age', value: row => row.label },
+    { header: 'Students', value: row => Number(row.student_count) },
+    { header: 'Invoices', value: row => Number(row.invoice_count) },
+    { header: 'Outstanding', value: row => Number(row.amount) }
+  ],
+  enrollments: [
+    { header: 'Month', value: row => row.month },
+    { header: 'Active At Start', value: row => Number(row.active_at_start) },
+    { header: 'New Students', value: row => Number(row.new_students) },
+    { header: 'Churned', value: row => Number(row.churned_students) },
+    { header: 'Graduated', value: row => Number(row.graduated_students) },
+    { header: 'Churn Rate (%)', value: row => Number(row.churn_rate) },
+    { header: 'Retention Rate (%)', value: row => Number(row.retention_rate) }
+  ]
+}
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'reports.read')
+
+    const query = getQuery(event)
+    const format = parseExportFormat(query)
+    const report = parseReportKind(query)
+    const range = parseReportRangeInput(query)
+    const groupBy = parseRevenueGrouping(query)
+
+    const rows = await fetchReportRows(client, report, range, groupBy)
+
+    return sendExport(event, {
+      filename: report === 'revenue'
+        ? `revenue-by-${groupBy.replace('_', '-')}-${range.from}-to-${range.to}`
+        : `${report}-report-${range.from}-to-${range.to}`,
+      format,
+      sheetName: report === 'revenue' ? 'Revenue' : report === 'debt' ? 'Debt Aging' : 'Enrollments',
+      rows,
+      columns: REPORT_EXPORT_COLUMNS[report]
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
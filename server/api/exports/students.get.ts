@@ -0,0 +1,40 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client, profile } = await requireProfile(event)
+    const query = getQuery(event)
+    const format = parseExportFormat(query)
+    const managerId = typeof query.managerId === 'string' && query.managerId ? query.managerId : undefined
+
+    // Same students as the on-screen list
+    const students = await listStudents(client, profile, {
+      managerId,
+      archived: query.archived === 'true',
+      statuses: parseStudentStatusFilter(query.status)
+    })
+
+    return sendExport(event, {
+      filename: `students-${todayDate()}`,
+      format,
+      sheetName: 'Students',
+      rows: students,
+      columns: [
+        { header: 'Code', value: student => student.student_code },
+        { header: 'Full Name', value: student => student.full_name },
+        { header: 'Phone', value: student => student.phone },
+        { header: 'Status', value: student => student.status },
+        { header: 'Group', value: student => student.group?.code },
+        { header: 'Manager', value: student => student.manager?.full_name || student.manager?.email },
+        { header: 'Tariff', value: student => student.tariff?.name },
+        { header: 'Price Plan', value: student => student.tariff_price?.name },
+        { header: 'Price', value: student => (student.tariff_price ? Number(student.tariff_price.price) : null) },
+        { header: 'Total Invoiced', value: student => Number(student.balance?.total_invoiced ?? 0) },
+        { header: 'Total Paid', value: student => Number(student.balance?.total_paid ?? 0) },
+        { header: 'Amount Owed', value: student => Math.max(0, Number(student.balance?.balance ?? 0)) },
+        { header: 'Credit', value: student => Math.max(0, -Number(student.balance?.balance ?? 0)) },
+        { header: 'Registered', value: student => String(student.created_at).slice(0, 10) }
+      ]
+    })
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,2 @@
+// Click SHOP API Prepare callback (see server/utils/click.ts)
+export default defineEventHandler(event => handleClickRequest(event, 'prepare'))
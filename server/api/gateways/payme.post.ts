@@ -0,0 +1,2 @@
+// Payme Merchant API callback (see server/utils/payme.ts)
+export default defineEventHandler(event => handlePaymeRequest(event))
@@ -0,0 +1,38 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'groups.manage')
+
+    const groupId = getUuidParam(event, 'id')
+
+    // Groups that still have students cannot be deleted
+    const occupancy = await fetchGroupOccupancy(client)
+    if ((occupancy[groupId] ?? 0) > 0) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'Move the students to another group before deleting this one'
+      })
+    }
+
+    const { data, error } = await client
+      .from('groups')
+      .delete()
+      .eq('id', groupId)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'delete group')
+
+    if (!data?.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Group not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Group deleted successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,32 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const groupId = getUuidParam(event, 'id')
+
+    const [{ data: group, error }, { data: students, error: studentsError }, occupancy] = await Promise.all([
+      client
+        .from('groups')
+        .select(GROUP_SELECT)
+        .eq('id', groupId)
+        .single(),
+      // Only the students the caller is allowed to see
+      client
+        .from('students')
+        .select('id, student_code, full_name, phone, created_at, manager:profiles!manager_id(id, full_name, email)')
+        .eq('group_id', groupId)
+        .is('archived_at', null)
+        .order('full_name'),
+      fetchGroupOccupancy(client)
+    ])
+
+    if (error) throwDatabaseError(error, 'load group')
+    if (studentsError) throwDatabaseError(studentsError, 'load group students')
+
+    return {
+      group: { ...group, student_count: occupancy[groupId] ?? 0 },
+      students: students || []
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,30 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'groups.manage')
+
+    const groupId = getUuidParam(event, 'id')
+    const input = parseGroupInput(await readBody(event), { partial: true })
+
+    const { data, error } = await client
+      .from('groups')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', groupId)
+      .select(GROUP_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update group')
+
+    // Bring upcoming lessons in line with the new schedule, teacher and room
+    await generateGroupLessons(client, data)
+
+    const occupancy = await fetchGroupOccupancy(client)
+
+    return {
+      success: true,
+      message: 'Group updated successfully',
+      group: { ...data, student_count: occupancy[groupId] ?? 0 }
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,26 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const groupId = getUuidParam(event, 'id')
+    const range = parseLessonRangeInput(await readBody(event), { maxDays: 366 })
+
+    const { data: group, error } = await client
+      .from('groups')
+      .select('id, start_date, end_date')
+      .eq('id', groupId)
+      .single()
+
+    if (error) throwDatabaseError(error, 'load group')
+
+    const created = await generateGroupLessons(client, group, range)
+
+    return {
+      success: true,
+      message: created === 1 ? '1 lesson created' : `${created} lessons created`,
+      created
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+
+    const [{ data, error }, occupancy] = await Promise.all([
+      client
+        .from('groups')
+        .select(GROUP_SELECT)
+        .order('code'),
+      fetchGroupOccupancy(client)
+    ])
+
+    if (error) throwDatabaseError(error, 'load groups')
+
+    return {
+      groups: (data || []).map(group => ({
+        ...group,
+        student_count: occupancy[group.id] ?? 0
+      }))
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
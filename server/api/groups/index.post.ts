@@ -0,0 +1,29 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'groups.manage')
+
+    const input = parseGroupInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('groups')
+      .insert(input)
+      .select(GROUP_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'create group')
+
+    // Create the lessons for the group's schedule
+    if (data.schedule_days.length > 0) {
+      await generateGroupLessons(client, data)
+    }
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Group created successfully',
+      group: { ...data, student_count: 0 }
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,54 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client, profile } = await requirePermission(event, 'students.import')
+
+    const { fileName, dryRun, rows } = parseImportInput(await readBody(event))
+    const plan = await planImport(client, profile, rows)
+
+    if (dryRun) {
+      return {
+        success: true,
+        message: plan.summary.errorRows > 0
+          ? `${plan.summary.errorRows} of ${plan.summary.rows} rows have errors`
+          : 'All rows are ready to import',
+        dryRun,
+        summary: plan.summary,
+        rows: plan.rows,
+        batchId: null
+      }
+    }
+
+    // Nothing is imported until every row is valid
+    if (plan.summary.errorRows > 0) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: `${plan.summary.errorRows} rows have errors: fix them before importing`,
+        data: {
+          errors: plan.rows
+            .filter(row => row.errors.length > 0)
+            .map(row => ({ field: `row ${row.row}`, message: row.errors.join('; ') }))
+        }
+      })
+    }
+
+    const { data: batchId, error } = await client.rpc('import_students', {
+      p_file_name: fileName,
+      p_students: plan.students,
+      p_payments: plan.payments
+    })
+
+    if (error) throwDatabaseError(error, 'import students')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: `Imported ${plan.summary.newStudents} students and ${plan.summary.payments} payments`,
+      dryRun,
+      summary: plan.summary,
+      rows: plan.rows,
+      batchId: batchId as string
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
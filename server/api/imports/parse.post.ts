@@ -0,0 +1,9 @@
+export default defineEventHandler(async (event) => {
+  try {
+    await requirePermission(event, 'students.import')
+
+    return await readImportUpload(event)
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
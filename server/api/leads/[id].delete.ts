@@ -0,0 +1,29 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'leads.manage')
+
+    const leadId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('leads')
+      .delete()
+      .eq('id', leadId)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'delete lead')
+
+    if (!data?.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Lead not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Lead deleted successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
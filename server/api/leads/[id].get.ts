@@ -0,0 +1,11 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'leads.manage')
+
+    const leadId = getUuidParam(event, 'id')
+
+    return { lead: await fetchLead(client, leadId) }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
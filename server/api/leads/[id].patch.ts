@@ -0,0 +1,36 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'leads.manage')
+
+    const leadId = getUuidParam(event, 'id')
+    const input = parseLeadInput(await readBody(event), { partial: true })
+
+    // Converted leads stay won; the student record is edited instead
+    if ('status' in input) {
+      const lead = await fetchLead(client, leadId)
+      if (lead?.student_id) {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'This lead has already been converted into a student'
+        })
+      }
+    }
+
+    const { data, error } = await client
+      .from('leads')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', leadId)
+      .select(LEAD_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update lead')
+
+    return {
+      success: true,
+      message: 'Lead updated successfully',
+      lead: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,31 @@
+import { hasPermission } from '~/config/permissions'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client, profile } = await requirePermission(event, 'leads.manage')
+
+    const { managerId } = getQuery(event)
+
+    let query = client
+      .from('leads')
+      .select(LEAD_SELECT)
+      .order('created_at', { ascending: false })
+
+    // Head of sales sees the whole team (optionally one manager), sales only their own
+    if (hasPermission(profile.role, 'leads.read.all')) {
+      if (typeof managerId === 'string' && managerId) {
+        query = query.eq('manager_id', managerId)
+      }
+    } else {
+      query = query.eq('manager_id', userId)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load leads')
+
+    return { leads: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
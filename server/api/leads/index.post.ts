@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client } = await requirePermission(event, 'leads.manage')
+
+    const input = parseLeadInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('leads')
+      .insert({ ...input, manager_id: userId })
+      .select(LEAD_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'create lead')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Lead created successfully',
+      lead: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
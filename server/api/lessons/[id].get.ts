@@ -0,0 +1,11 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const lessonId = getUuidParam(event, 'id')
+
+    return { lesson: await fetchLesson(client, lessonId) }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
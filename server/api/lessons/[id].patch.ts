@@ -0,0 +1,41 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const lessonId = getUuidParam(event, 'id')
+    const input = parseLessonUpdateInput(await readBody(event))
+    const lesson = await fetchLesson(client, lessonId)
+
+    if (lesson.status === 'rescheduled') {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'This lesson was rescheduled; update the new lesson instead'
+      })
+    }
+
+    if (input.status === 'held' && lesson.lesson_date > todayDate()) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'A lesson cannot be marked as held before it takes place',
+        data: { errors: [{ field: 'status', message: 'Lesson date is in the future' }] }
+      })
+    }
+
+    const { data, error } = await client
+      .from('lessons')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', lessonId)
+      .select(LESSON_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update lesson')
+
+    return {
+      success: true,
+      message: 'Lesson updated successfully',
+      lesson: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
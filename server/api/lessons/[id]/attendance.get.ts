@@ -0,0 +1,42 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const lessonId = getUuidParam(event, 'id')
+    const lesson = await fetchLesson(client, lessonId)
+
+    const [{ data: students, error: studentsError }, { data: attendance, error }] = await Promise.all([
+      // Current students of the group
+      client
+        .from('students')
+        .select('id, student_code, full_name')
+        .eq('group_id', lesson.group_id)
+        .is('archived_at', null)
+        .order('full_name'),
+      client
+        .from('lesson_attendance')
+        .select(`${ATTENDANCE_SELECT}, student:students(id, student_code, full_name)`)
+        .eq('lesson_id', lessonId)
+    ])
+
+    if (studentsError) throwDatabaseError(studentsError, 'load group students')
+    if (error) throwDatabaseError(error, 'load attendance')
+
+    // Students marked earlier who have since left the group stay on the sheet
+    const sheetStudents = [...(students || [])]
+    for (const mark of attendance || []) {
+      const student = mark.student as unknown as { id: string; student_code: string; full_name: string } | null
+      if (student && !sheetStudents.some(s => s.id === student.id)) {
+        sheetStudents.push(student)
+      }
+    }
+
+    return {
+      lesson,
+      students: sheetStudents,
+      attendance: (attendance || []).map(({ student: _student, ...mark }) => mark)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,75 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const lessonId = getUuidParam(event, 'id')
+    const entries = parseAttendanceSheetInput(await readBody(event))
+    const lesson = await fetchLesson(client, lessonId)
+
+    if (lesson.status === 'cancelled' || lesson.status === 'rescheduled') {
+      throw createError({
+        statusCode: 422,
+        statusMessage: `Attendance cannot be taken for a ${lesson.status} lesson`
+      })
+    }
+
+    if (lesson.lesson_date > todayDate()) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'Attendance cannot be taken before the lesson takes place'
+      })
+    }
+
+    // Only students of the lesson's group, or ones already on the sheet
+    const studentIds = entries.map(entry => entry.student_id)
+    const [{ data: groupStudents, error: studentsError }, { data: marked, error: markedError }] = await Promise.all([
+      client
+        .from('students')
+        .select('id')
+        .eq('group_id', lesson.group_id)
+        .is('archived_at', null)
+        .in('id', studentIds),
+      client
+        .from('lesson_attendance')
+        .select('student_id')
+        .eq('lesson_id', lessonId)
+        .in('student_id', studentIds)
+    ])
+
+    if (studentsError) throwDatabaseError(studentsError, 'load group students')
+    if (markedError) throwDatabaseError(markedError, 'load attendance')
+
+    const allowed = new Set([
+      ...(groupStudents || []).map(student => student.id as string),
+      ...(marked || []).map(mark => mark.student_id as string)
+    ])
+
+    if (studentIds.some(id => !allowed.has(id))) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'Invalid attendance: Only students of the lesson\'s group can be marked',
+        data: { errors: [{ field: 'entries', message: 'Only students of the lesson\'s group can be marked' }] }
+      })
+    }
+
+    // Saving marks the lesson as held (see mark_lesson_held in SQL)
+    const now = new Date().toISOString()
+    const { data, error } = await client
+      .from('lesson_attendance')
+      .upsert(
+        entries.map(entry => ({ ...entry, lesson_id: lessonId, updated_at: now })),
+        { onConflict: 'lesson_id,student_id' }
+      )
+      .select(ATTENDANCE_SELECT)
+
+    if (error) throwDatabaseError(error, 'save attendance')
+
+    return {
+      success: true,
+      message: 'Attendance saved successfully',
+      attendance: data || []
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
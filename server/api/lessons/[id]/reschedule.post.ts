@@ -0,0 +1,33 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'lessons.manage')
+
+    const lessonId = getUuidParam(event, 'id')
+    const input = parseLessonRescheduleInput(await readBody(event))
+
+    const { data: newLessonId, error } = await client.rpc('reschedule_lesson', {
+      p_lesson_id: lessonId,
+      p_lesson_date: input.lesson_date,
+      p_start_time: input.start_time ?? null,
+      p_end_time: input.end_time ?? null,
+      p_reason: input.reason
+    })
+
+    if (error) throwDatabaseError(error, 'reschedule lesson')
+
+    const [original, lesson] = await Promise.all([
+      fetchLesson(client, lessonId),
+      fetchLesson(client, newLessonId as string)
+    ])
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Lesson rescheduled successfully',
+      original,
+      lesson
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,40 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client } = await requirePermission(event, 'lessons.manage')
+
+    const query = getQuery(event)
+    const range = parseLessonRangeInput(query, { maxDays: 62 })
+    const groupId = typeof query.groupId === 'string' && query.groupId ? query.groupId : undefined
+
+    // Default to the current week, Monday to Sunday
+    const today = todayDate()
+    const weekday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7
+    const from = range.from || addDays(today, -weekday)
+    const until = range.until || addDays(from, 6)
+
+    let request = client
+      .from('lessons')
+      .select(LESSON_SELECT)
+      .gte('lesson_date', from)
+      .lte('lesson_date', until)
+      .order('lesson_date')
+      .order('start_time')
+
+    if (groupId) {
+      request = request.eq('group_id', groupId)
+    }
+
+    // Only the lessons the caller teaches
+    if (query.mine === 'true') {
+      request = request.eq('teacher_id', userId)
+    }
+
+    const { data, error } = await request
+
+    if (error) throwDatabaseError(error, 'load lessons')
+
+    return { from, until, lessons: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,23 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client } = await requireUser(event)
+    const notificationId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'mark notification as read')
+
+    return {
+      success: true,
+      message: data?.length ? 'Notification marked as read' : 'Notification was already read'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,29 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client } = await requireUser(event)
+
+    const [{ data, error }, { count, error: countError }] = await Promise.all([
+      client
+        .from('notifications')
+        .select('id, type, title, body, link, student_id, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(50),
+      client
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .is('read_at', null)
+    ])
+
+    if (error) throwDatabaseError(error, 'load notifications')
+    if (countError) throwDatabaseError(countError, 'count notifications')
+
+    return {
+      notifications: data || [],
+      unreadCount: count ?? 0
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,22 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client } = await requireUser(event)
+
+    const { data, error } = await client
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'mark notifications as read')
+
+    return {
+      success: true,
+      message: 'All notifications marked as read',
+      updated: data?.length ?? 0
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
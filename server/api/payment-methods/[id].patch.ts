@@ -0,0 +1,25 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payment_methods.manage')
+
+    const methodId = getUuidParam(event, 'id')
+    const input = parsePaymentMethodInput(await readBody(event), { partial: true })
+
+    const { data, error } = await client
+      .from('payment_methods')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', methodId)
+      .select(PAYMENT_METHOD_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update payment method')
+
+    return {
+      success: true,
+      message: 'Payment method updated successfully',
+      method: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
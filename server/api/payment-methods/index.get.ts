@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const { includeInactive } = getQuery(event)
+
+    let query = client
+      .from('payment_methods')
+      .select(PAYMENT_METHOD_SELECT)
+      .order('sort_order')
+      .order('name')
+
+    if (includeInactive !== 'true') {
+      query = query.eq('is_active', true)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load payment methods')
+
+    return { methods: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payment_methods.manage')
+
+    const input = parsePaymentMethodInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('payment_methods')
+      .insert(input)
+      .select(PAYMENT_METHOD_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'create payment method')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Payment method created successfully',
+      method: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,25 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.refund')
+    const paymentId = getUuidParam(event, 'id')
+    const input = parsePaymentEditInput(await readBody(event))
+
+    const { error } = await client.rpc('edit_student_payment', {
+      p_payment_id: paymentId,
+      p_payment_date: input.payment_date,
+      p_payment_type: input.payment_type,
+      p_amount: input.amount,
+      p_reason: input.reason ?? null
+    })
+
+    if (error) throwDatabaseError(error, 'update payment')
+
+    return {
+      success: true,
+      message: 'Payment updated successfully',
+      payment: await fetchPayment(client, paymentId)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
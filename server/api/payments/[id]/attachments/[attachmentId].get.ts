@@ -0,0 +1,28 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const paymentId = getUuidParam(event, 'id')
+    const attachmentId = getUuidParam(event, 'attachmentId')
+
+    // Reading the attachment through RLS is what grants access to the file
+    const { data, error } = await client
+      .from('payment_attachments')
+      .select('storage_path, file_name, mime_type')
+      .eq('id', attachmentId)
+      .eq('payment_id', paymentId)
+      .single()
+
+    if (error) throwDatabaseError(error, 'load attachment')
+
+    const { url, expiresAt } = await createReceiptUrl(event, data!.storage_path)
+
+    return {
+      url,
+      expiresAt,
+      fileName: data!.file_name as string,
+      mimeType: data!.mime_type as string
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
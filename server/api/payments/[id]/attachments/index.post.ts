@@ -0,0 +1,32 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.record')
+    const paymentId = getUuidParam(event, 'id')
+
+    const { data: payment, error: paymentError } = await client
+      .from('student_payments')
+      .select('id, student_id')
+      .eq('id', paymentId)
+      .single()
+
+    if (paymentError) throwDatabaseError(paymentError, 'load payment')
+
+    const body = await readBody(event)
+    const attachments = parseAttachmentsInput(body?.attachments, payment!.student_id, { required: true })
+
+    const { error } = await client
+      .from('payment_attachments')
+      .insert(attachments.map(attachment => ({ ...attachment, payment_id: paymentId })))
+
+    if (error) throwDatabaseError(error, 'attach files')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Files attached successfully',
+      payment: await fetchPayment(client, paymentId)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,23 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.refund')
+    const paymentId = getUuidParam(event, 'id')
+    const { amount, reason } = parsePaymentRefundInput(await readBody(event))
+
+    const { error } = await client.rpc('refund_student_payment', {
+      p_payment_id: paymentId,
+      p_amount: amount,
+      p_reason: reason
+    })
+
+    if (error) throwDatabaseError(error, 'refund payment')
+
+    return {
+      success: true,
+      message: 'Refund recorded successfully',
+      payment: await fetchPayment(client, paymentId)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,22 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.refund')
+    const paymentId = getUuidParam(event, 'id')
+    const { reason } = parsePaymentVoidInput(await readBody(event))
+
+    const { error } = await client.rpc('void_student_payment', {
+      p_payment_id: paymentId,
+      p_reason: reason
+    })
+
+    if (error) throwDatabaseError(error, 'void payment')
+
+    return {
+      success: true,
+      message: 'Payment voided successfully',
+      payment: await fetchPayment(client, paymentId)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
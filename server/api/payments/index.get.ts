@@ -0,0 +1,25 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+
+    const v = createValidator(getQuery(event))
+    const limit = v.integer('limit', { min: 1, max: 50 }) ?? 10
+    v.assert()
+
+    // Latest payments of the students the caller manages (RLS)
+    const { data, error } = await client
+      .from('student_payments')
+      .select(`
+        id, amount, payment_date, payment_type, status, refunded_amount, created_at,
+        student:students(id, student_code, full_name)
+      `)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throwDatabaseError(error, 'load payments')
+
+    return { payments: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,12 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'reports.read')
+
+    const range = parseReportRangeInput(getQuery(event))
+    const rows = await fetchReportRows(client, 'debt', range)
+
+    return { ...range, rows }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,15 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'reports.read')
+
+    const query = getQuery(event)
+    const range = parseReportRangeInput(query)
+    const groupBy = parseRevenueGrouping(query)
+
+    const rows = await fetchReportRows(client, 'revenue', range, groupBy)
+
+    return { ...range, groupBy, rows }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,20 @@
+import { STUDENT_MANAGER_ROLES } from '~/config/permissions'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { client, profile } = await requirePermission(event, 'students.read.all')
+
+    const { data, error } = await client
+      .from('profiles')
+      .select('id, full_name, email, role')
+      .in('role', STUDENT_MANAGER_ROLES)
+      .eq('is_approved', true)
+      .order('full_name')
+
+    if (error) throwDatabaseError(error, 'load sales managers')
+
+    return { managers: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
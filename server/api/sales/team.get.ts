@@ -0,0 +1,16 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.read.all')
+
+    const { data, error } = await client
+      .from('sales_manager_summary')
+      .select('*')
+      .order('full_name')
+
+    if (error) throwDatabaseError(error, 'load team summary')
+
+    return { managers: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
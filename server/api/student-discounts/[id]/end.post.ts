@@ -0,0 +1,59 @@
+// End a student's discount on a date (today by default). Invoices for
+// periods after that date go back to the full price.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const discountId = getUuidParam(event, 'id')
+
+    const v = createValidator(await readBody(event))
+    const endsOn = v.date('ends_on') ?? todayDate()
+    v.assert()
+
+    const { data: current, error: loadError } = await client
+      .from('student_discounts')
+      .select('id, starts_on, ends_on, status')
+      .eq('id', discountId)
+      .maybeSingle()
+
+    if (loadError) throwDatabaseError(loadError, 'load discount')
+
+    if (!current) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Discount not found or access denied'
+      })
+    }
+
+    if (current.ends_on && current.ends_on <= endsOn) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'This discount already ends by then'
+      })
+    }
+
+    if (endsOn < current.starts_on) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'Invalid ends_on: Must be on or after the start date',
+        data: { errors: [{ field: 'ends_on', message: 'Must be on or after the start date' }] }
+      })
+    }
+
+    const { data, error } = await client
+      .from('student_discounts')
+      .update({ ends_on: endsOn })
+      .eq('id', discountId)
+      .select(STUDENT_DISCOUNT_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'end discount')
+
+    return {
+      success: true,
+      message: 'Discount ended',
+      discount: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
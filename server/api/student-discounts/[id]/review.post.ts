@@ -0,0 +1,45 @@
+// Approve or reject a manual discount. Approving it re-prices the student's
+// current and future invoices.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'discounts.approve')
+
+    const discountId = getUuidParam(event, 'id')
+    const v = createValidator(await readBody(event))
+    const status = v.string('status', { required: true })
+    const note = v.string('note', { max: 500 })
+
+    if (status && status !== 'approved' && status !== 'rejected') {
+      v.fail('status', 'Must be approved or rejected')
+    }
+    if (status === 'rejected' && !note) {
+      v.fail('note', 'Say why the discount is rejected')
+    }
+    v.assert()
+
+    const { data, error } = await client
+      .from('student_discounts')
+      .update({ status, review_note: note ?? null })
+      .eq('id', discountId)
+      .eq('status', 'pending')
+      .select(STUDENT_DISCOUNT_SELECT)
+      .maybeSingle()
+
+    if (error) throwDatabaseError(error, 'review discount')
+
+    if (!data) {
+      throw createError({
+        statusCode: 409,
+        statusMessage: 'This discount is no longer awaiting approval'
+      })
+    }
+
+    return {
+      success: true,
+      message: status === 'approved' ? 'Discount approved' : 'Discount rejected',
+      discount: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,18 @@
+// Manual discounts waiting for head of sales approval, oldest first
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'discounts.approve')
+
+    const { data, error } = await client
+      .from('student_discounts')
+      .select(`${STUDENT_DISCOUNT_SELECT}, student:students!student_id(id, full_name, tariff_price:tariff_prices(id, name, price))`)
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true })
+
+    if (error) throwDatabaseError(error, 'load pending discounts')
+
+    return { discounts: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
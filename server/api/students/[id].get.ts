@@ -0,0 +1,18 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('students')
+      .select(STUDENT_SELECT)
+      .eq('id', studentId)
+      .single()
+
+    if (error) throwDatabaseError(error, 'load student')
+
+    return { student: data }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
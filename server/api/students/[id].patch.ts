@@ -0,0 +1,28 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+    const input = parseStudentInput(await readBody(event), { partial: true })
+
+    if (input.tariff_id && input.tariff_price_id) {
+      await assertTariffPrice(client, input.tariff_id, input.tariff_price_id)
+    }
+
+    const { data, error } = await client
+      .from('students')
+      .update(input)
+      .eq('id', studentId)
+      .select(STUDENT_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update student')
+
+    return {
+      success: true,
+      message: 'Student updated successfully',
+      student: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,21 @@
+// Archive a student instead of deleting them: payments and history stay,
+// and the student is no longer invoiced
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+
+    const student = await setArchived(client, 'students', studentId, true, {
+      label: 'Student',
+      columns: STUDENT_SELECT
+    })
+
+    return {
+      success: true,
+      message: 'Student archived successfully',
+      student
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
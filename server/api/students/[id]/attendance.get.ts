@@ -0,0 +1,32 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    const [{ data: history, error }, { data: summary, error: summaryError }] = await Promise.all([
+      client
+        .from('lesson_attendance')
+        .select(`${ATTENDANCE_SELECT}, lesson:lessons(id, lesson_date, start_time, end_time, status, topic, group:groups(id, code))`)
+        .eq('student_id', studentId),
+      client
+        .from('student_attendance_summary')
+        .select('*')
+        .eq('student_id', studentId)
+        .maybeSingle()
+    ])
+
+    if (error) throwDatabaseError(error, 'load attendance')
+    if (summaryError) throwDatabaseError(summaryError, 'load attendance summary')
+
+    // Most recent lessons first
+    const lessonDate = (mark: { lesson: unknown }) => (mark.lesson as { lesson_date?: string } | null)?.lesson_date || ''
+    const sorted = [...(history || [])].sort((a, b) => lessonDate(b).localeCompare(lessonDate(a)))
+
+    return {
+      summary: summary || null,
+      history: sorted
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,10 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    return await fetchStudentBilling(client, studentId)
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,18 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('student_discounts')
+      .select(STUDENT_DISCOUNT_SELECT)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false })
+
+    if (error) throwDatabaseError(error, 'load discounts')
+
+    return { discounts: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,22 @@
+// Give a student a catalog discount, a promo code or a manual override.
+// Large manual overrides wait for head of sales approval.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+    const input = parseStudentDiscountInput(await readBody(event))
+
+    const discount = await applyStudentDiscount(client, studentId, input)
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: discount.status === 'pending'
+        ? 'Discount sent for approval'
+        : 'Discount added successfully',
+      discount
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
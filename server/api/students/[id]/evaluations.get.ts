@@ -0,0 +1,20 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    // Oldest first, so the timeline reads as progress over time
+    const { data, error } = await client
+      .from('student_evaluations')
+      .select(EVALUATION_SELECT)
+      .eq('student_id', studentId)
+      .order('evaluation_date')
+      .order('created_at')
+
+    if (error) throwDatabaseError(error, 'load evaluations')
+
+    return { evaluations: sortEvaluationScores(data || []) }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,25 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    // Changes to the student and their payments, newest first
+    const { data, error } = await client
+      .from('audit_log')
+      .select(AUDIT_SELECT)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (error) throwDatabaseError(error, 'load student history')
+
+    const entries = data || []
+
+    return {
+      entries,
+      references: await fetchAuditReferences(client, entries)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,20 @@
+// SMS and Telegram messages of a student, newest first
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.read.own')
+    const studentId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('student_messages')
+      .select(STUDENT_MESSAGE_SELECT)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false })
+      .limit(200)
+
+    if (error) throwDatabaseError(error, 'load messages')
+
+    return { messages: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,29 @@
+// Stop (or resume) SMS and Telegram messages to a student. Messages still
+// queued are skipped when their turn comes.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+
+    const v = createValidator(await readBody(event))
+    const optedOut = v.boolean('opted_out', { required: true })
+    v.assert()
+
+    const { data, error } = await client
+      .from('students')
+      .update({ messages_opted_out_at: optedOut ? new Date().toISOString() : null })
+      .eq('id', studentId)
+      .select(STUDENT_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'update message settings')
+
+    return {
+      success: true,
+      message: optedOut ? 'Messages to the student are turned off' : 'Messages to the student are turned on',
+      student: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,24 @@
+import type { StudentPayment } from '~/types/payment'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('student_payments')
+      .select(PAYMENT_SELECT)
+      .eq('student_id', studentId)
+      .order('payment_date', { ascending: false })
+      .order('created_at', { referencedTable: 'payment_history', ascending: true })
+      .order('created_at', { referencedTable: 'payment_attachments', ascending: true })
+
+    if (error) throwDatabaseError(error, 'load payments')
+
+    return {
+      payments: await withAttachmentThumbnails(event, (data || []) as unknown as StudentPayment[])
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
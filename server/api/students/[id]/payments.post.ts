@@ -0,0 +1,28 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.record')
+    const studentId = getUuidParam(event, 'id')
+    const body = await readBody(event)
+    const input = parsePaymentInput(body)
+    const attachments = parseAttachmentsInput(body?.attachments, studentId, { required: true })
+
+    const { data: paymentId, error } = await client.rpc('record_student_payment', {
+      p_student_id: studentId,
+      p_payment_date: input.payment_date,
+      p_payment_type: input.payment_type,
+      p_amount: input.amount,
+      p_attachments: attachments
+    })
+
+    if (error) throwDatabaseError(error, 'record payment')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Payment recorded successfully',
+      payment: await fetchPayment(client, paymentId as string)
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
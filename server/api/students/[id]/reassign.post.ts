@@ -0,0 +1,27 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.reassign')
+
+    const studentId = getUuidParam(event, 'id')
+    const v = createValidator(await readBody(event))
+    const managerId = v.uuid('managerId', { required: true })
+    v.assert()
+
+    const { data, error } = await client
+      .from('students')
+      .update({ manager_id: managerId })
+      .eq('id', studentId)
+      .select(STUDENT_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'reassign student')
+
+    return {
+      success: true,
+      message: 'Student reassigned successfully',
+      student: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
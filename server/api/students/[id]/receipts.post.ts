@@ -0,0 +1,20 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'payments.record')
+    const studentId = getUuidParam(event, 'id')
+
+    await assertStudentAccess(client, studentId)
+
+    const upload = await readReceiptUpload(event)
+    const attachment = await uploadReceipt(event, studentId, upload)
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Receipt uploaded successfully',
+      attachment
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
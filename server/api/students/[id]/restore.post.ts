@@ -0,0 +1,19 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+
+    const student = await setArchived(client, 'students', studentId, false, {
+      label: 'Student',
+      columns: STUDENT_SELECT
+    })
+
+    return {
+      success: true,
+      message: 'Student restored successfully',
+      student
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
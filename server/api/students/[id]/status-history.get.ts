@@ -0,0 +1,20 @@
+// Status log of a student, newest first
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const studentId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('student_status_changes')
+      .select(STUDENT_STATUS_CHANGE_SELECT)
+      .eq('student_id', studentId)
+      .order('effective_from', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) throwDatabaseError(error, 'load status history')
+
+    return { changes: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
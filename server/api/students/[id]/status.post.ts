@@ -0,0 +1,42 @@
+// Change a student's lifecycle status from a date: freeze them for a while,
+// let them graduate or drop out, or bring them back. Invoices for periods the
+// student is not active in are removed.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'students.manage')
+    const studentId = getUuidParam(event, 'id')
+    const input = parseStudentStatusChangeInput(await readBody(event))
+
+    const { data: change, error } = await client
+      .from('student_status_changes')
+      .insert({
+        student_id: studentId,
+        to_status: input.to_status,
+        effective_from: input.effective_from,
+        effective_until: input.effective_until ?? null,
+        reason: input.reason ?? null
+      })
+      .select(STUDENT_STATUS_CHANGE_SELECT)
+      .single()
+
+    if (error) throwDatabaseError(error, 'change status')
+
+    const { data: student, error: studentError } = await client
+      .from('students')
+      .select(STUDENT_SELECT)
+      .eq('id', studentId)
+      .single()
+
+    if (studentError) throwDatabaseError(studentError, 'load student')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: input.effective_from > todayDate() ? 'Status change scheduled' : 'Status changed successfully',
+      change,
+      student
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
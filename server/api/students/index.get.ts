@@ -0,0 +1,16 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client, profile } = await requireProfile(event)
+    const { managerId, archived, status } = getQuery(event)
+
+    const students = await listStudents(client, profile, {
+      managerId: typeof managerId === 'string' && managerId ? managerId : undefined,
+      archived: archived === 'true',
+      statuses: parseStudentStatusFilter(status)
+    })
+
+    return { students }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
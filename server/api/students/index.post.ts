@@ -0,0 +1,63 @@
+import { hasPermission, STUDENT_MANAGER_ROLES } from '~/config/permissions'
+
+export default defineEventHandler(async (event) => {
+  try {
+    const { userId, client, profile } = await requirePermission(event, 'students.manage')
+    const body = await readBody(event)
+    const input = parseStudentInput(body)
+
+    // Optional lead the student is converted from, promo code they joined
+    // with and whether they start with a trial
+    const v = createValidator(body)
+    const leadId = v.uuid('lead_id')
+    const promoCode = v.string('promo_code', { max: 30 })
+    const status = v.string('status') ?? 'active'
+    if (status !== 'trial' && status !== 'active') {
+      v.fail('status', 'A new student starts as trial or active')
+    }
+
+    // Students belong to a sales manager: sales users add their own, anyone
+    // else picks the manager, and only those who reassign students may add
+    // them for someone else
+    const managerId = v.uuid('manager_id')
+    const isStudentManager = STUDENT_MANAGER_ROLES.includes(profile.role)
+    if (!managerId && !isStudentManager) {
+      v.fail('manager_id', 'Choose the sales manager of this student')
+    }
+    if (managerId && managerId !== userId && !hasPermission(profile.role, 'students.reassign')) {
+      v.fail('manager_id', 'You can only add your own students')
+    }
+    v.assert()
+
+    const discount = promoCode ? await resolvePromoCode(client, promoCode) : null
+
+    await assertTariffPrice(client, input.tariff_id!, input.tariff_price_id!)
+
+    // Converting a lead marks it as won and links it to the new student,
+    // and the promo discount is given along with it
+    const { data: studentId, error } = await client.rpc('create_student', {
+      p_student: { ...input, status, manager_id: managerId ?? userId },
+      p_lead_id: leadId ?? null,
+      p_discount_id: discount?.id ?? null
+    })
+
+    if (error) throwDatabaseError(error, 'create student')
+
+    const { data, error: loadError } = await client
+      .from('students')
+      .select(STUDENT_SELECT)
+      .eq('id', studentId as string)
+      .single()
+
+    if (loadError) throwDatabaseError(loadError, 'load student')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Student created successfully',
+      student: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,30 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const priceId = getUuidParam(event, 'id')
+
+    await assertNotUsedByStudents(client, 'tariff_price_id', priceId, 'Price plan')
+
+    const { data, error } = await client
+      .from('tariff_prices')
+      .delete()
+      .eq('id', priceId)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'delete price')
+
+    if (!data?.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Price not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Price deleted successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
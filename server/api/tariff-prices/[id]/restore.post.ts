@@ -0,0 +1,19 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const priceId = getUuidParam(event, 'id')
+
+    const price = await setArchived(client, 'tariff_prices', priceId, false, {
+      label: 'Price plan',
+      columns: 'id, name, tariff_id, price, created_at, archived_at'
+    })
+
+    return {
+      success: true,
+      message: 'Price plan restored successfully',
+      price
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,19 @@
+// Price history of a plan, newest first, including scheduled changes
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const priceId = getUuidParam(event, 'id')
+
+    const { data, error } = await client
+      .from('tariff_price_versions')
+      .select(TARIFF_PRICE_VERSION_SELECT)
+      .eq('tariff_price_id', priceId)
+      .order('effective_from', { ascending: false })
+
+    if (error) throwDatabaseError(error, 'load price history')
+
+    return { versions: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
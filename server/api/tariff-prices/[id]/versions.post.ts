@@ -0,0 +1,46 @@
+// Change a plan's price from a date (today or later). The current price
+// moves on that date; invoices for earlier periods keep the old price.
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+
+    const priceId = getUuidParam(event, 'id')
+    const input = parseTariffPriceVersionInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('tariff_price_versions')
+      .insert({ ...input, tariff_price_id: priceId })
+      .select(TARIFF_PRICE_VERSION_SELECT)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw createError({
+          statusCode: 409,
+          statusMessage: 'A price change is already scheduled for this date',
+          data: { errors: [{ field: 'effective_from', message: 'A price change is already scheduled for this date' }] }
+        })
+      }
+      throwDatabaseError(error, 'schedule price change')
+    }
+
+    // A change that starts today already moved the current price
+    const { data: price, error: priceError } = await client
+      .from('tariff_prices')
+      .select('id, name, tariff_id, price, created_at, archived_at')
+      .eq('id', priceId)
+      .single()
+
+    if (priceError) throwDatabaseError(priceError, 'load price')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: input.effective_from > todayDate() ? 'Price change scheduled successfully' : 'Price changed successfully',
+      version: data,
+      price
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
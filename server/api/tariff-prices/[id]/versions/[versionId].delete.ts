@@ -0,0 +1,32 @@
+// Cancel a scheduled price change (changes already in effect stay)
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+
+    const priceId = getUuidParam(event, 'id')
+    const versionId = getUuidParam(event, 'versionId')
+
+    const { data, error } = await client
+      .from('tariff_price_versions')
+      .delete()
+      .eq('id', versionId)
+      .eq('tariff_price_id', priceId)
+      .select('id')
+
+    if (error) throwDatabaseError(error, 'cancel price change')
+
+    if (!data?.length) {
+      throw createError({
+        statusCode: 404,
+        statusMessage: 'Price change not found or access denied'
+      })
+    }
+
+    return {
+      success: true,
+      message: 'Price change cancelled successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
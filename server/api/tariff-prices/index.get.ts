@@ -0,0 +1,29 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const { tariffId, includeArchived, withHistory } = getQuery(event)
+
+    let query = client
+      .from('tariff_prices')
+      .select(withHistory === 'true'
+        ? 'id, name, tariff_id, price, created_at, archived_at, versions:tariff_price_versions(id, price, effective_from, applies_to_existing)'
+        : 'id, name, tariff_id, price, created_at, archived_at')
+      .order('created_at', { ascending: false })
+
+    if (typeof tariffId === 'string' && tariffId) {
+      query = query.eq('tariff_id', tariffId)
+    }
+
+    if (includeArchived !== 'true') {
+      query = query.is('archived_at', null)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load tariff prices')
+
+    return { prices: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,23 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const input = parseTariffPriceInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('tariff_prices')
+      .insert(input)
+      .select('id, name, tariff_id, price, created_at')
+      .single()
+
+    if (error) throwDatabaseError(error, 'add price')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Price added successfully',
+      price: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
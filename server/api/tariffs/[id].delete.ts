@@ -0,0 +1,22 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const tariffId = getUuidParam(event, 'id')
+
+    // Students keep their tariff for their whole history: such a tariff can
+    // only be archived
+    await assertNotUsedByStudents(client, 'tariff_id', tariffId, 'Tariff')
+
+    // The tariff and its price plans go in one statement (see delete_tariff in SQL)
+    const { error } = await client.rpc('delete_tariff', { p_tariff_id: tariffId })
+
+    if (error) throwDatabaseError(error, 'delete tariff')
+
+    return {
+      success: true,
+      message: 'Tariff deleted successfully'
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
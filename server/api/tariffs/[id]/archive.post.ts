@@ -0,0 +1,19 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const tariffId = getUuidParam(event, 'id')
+
+    const tariff = await setArchived(client, 'tariffs', tariffId, true, {
+      label: 'Tariff',
+      columns: 'id, name, created_at, archived_at'
+    })
+
+    return {
+      success: true,
+      message: 'Tariff archived successfully',
+      tariff
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,24 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+    const { includeArchived } = getQuery(event)
+
+    let query = client
+      .from('tariffs')
+      .select('id, name, created_at, archived_at')
+      .order('created_at', { ascending: false })
+
+    // Archived tariffs only show up on the tariffs page
+    if (includeArchived !== 'true') {
+      query = query.is('archived_at', null)
+    }
+
+    const { data, error } = await query
+
+    if (error) throwDatabaseError(error, 'load tariffs')
+
+    return { tariffs: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,23 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requirePermission(event, 'tariffs.manage')
+    const input = parseTariffInput(await readBody(event))
+
+    const { data, error } = await client
+      .from('tariffs')
+      .insert(input)
+      .select('id, name, created_at')
+      .single()
+
+    if (error) throwDatabaseError(error, 'create tariff')
+
+    setResponseStatus(event, 201)
+    return {
+      success: true,
+      message: 'Tariff created successfully',
+      tariff: data
+    }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
@@ -0,0 +1,18 @@
+export default defineEventHandler(async (event) => {
+  try {
+    const { client } = await requireUser(event)
+
+    const { data, error } = await client
+      .from('profiles')
+      .select('id, full_name, email, role')
+      .in('role', ['teacher', 'head_teaching'])
+      .eq('is_approved', true)
+      .order('full_name')
+
+    if (error) throwDatabaseError(error, 'load teachers')
+
+    return { teachers: data || [] }
+  } catch (error) {
+    throw toApiError(error)
+  }
+})
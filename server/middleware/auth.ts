@@ -0,0 +1,16 @@
+// Floor for every /api route, including ones added later: a signed-in user
+// with an active account, and the permission of the matching access rule.
+// Public rules skip this and leave the check to their handler.
+export default defineEventHandler(async (event) => {
+  const path = getRequestURL(event).pathname
+  if (!path.startsWith('/api/')) return
+
+  const rule = getApiAccessRule(path)
+  if (rule?.public) return
+
+  if (rule?.permission) {
+    await requirePermission(event, rule.permission)
+  } else {
+    await requireProfile(event, { allowInactive: rule?.allowInactive })
+  }
+})
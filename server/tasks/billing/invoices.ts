@@ -0,0 +1,11 @@
+// Generate the day's monthly invoices (scheduled in nuxt.config.ts)
+export default defineTask({
+  meta: {
+    name: 'billing:invoices',
+    description: 'Generate missing monthly invoices for every student'
+  },
+  async run() {
+    const result = await generateMonthlyInvoices(getTaskClient())
+    return { result }
+  }
+})
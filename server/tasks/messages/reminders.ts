@@ -0,0 +1,11 @@
+// Queue the daily payment reminders (scheduled in nuxt.config.ts)
+export default defineTask({
+  meta: {
+    name: 'messages:reminders',
+    description: 'Queue payment due and overdue balance reminders'
+  },
+  async run() {
+    const result = await queuePaymentReminders(getTaskClient())
+    return { result }
+  }
+})
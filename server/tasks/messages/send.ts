@@ -0,0 +1,11 @@
+// Send queued SMS and Telegram messages (scheduled in nuxt.config.ts)
+export default defineTask({
+  meta: {
+    name: 'messages:send',
+    description: 'Send queued SMS and Telegram messages to students'
+  },
+  async run() {
+    const result = await sendQueuedMessages(getTaskClient())
+    return { result }
+  }
+})
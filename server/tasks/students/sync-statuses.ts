@@ -0,0 +1,11 @@
+// Apply the day's status changes (scheduled in nuxt.config.ts)
+export default defineTask({
+  meta: {
+    name: 'students:sync-statuses',
+    description: 'Apply ended freezes and scheduled student status changes'
+  },
+  async run() {
+    const result = await syncStudentStatuses(getTaskClient())
+    return { result }
+  }
+})
@@ -0,0 +1,11 @@
+// Apply the day's scheduled price changes (scheduled in nuxt.config.ts)
+export default defineTask({
+  meta: {
+    name: 'tariffs:sync-prices',
+    description: 'Apply scheduled tariff price changes that take effect today'
+  },
+  async run() {
+    const result = await syncTariffPrices(getTaskClient())
+    return { result }
+  }
+})
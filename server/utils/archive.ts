@@ -0,0 +1,54 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Tables whose rows are archived instead of deleted (see archiving-schema.sql)
+export type ArchivableTable = 'students' | 'tariffs' | 'tariff_prices' | 'profiles'
+
+// Archive or restore one row and return it with the given columns
+export const setArchived = async (
+  client: SupabaseClient<any>,
+  table: ArchivableTable,
+  id: string,
+  archived: boolean,
+  options: { label: string; columns?: string; values?: Record<string, unknown> }
+) => {
+  const { data, error } = await client
+    .from(table)
+    .update({ ...options.values, archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id)
+    .select(options.columns || 'id, archived_at')
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, `${archived ? 'archive' : 'restore'} ${options.label.toLowerCase()}`)
+
+  if (!data) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: `${options.label} not found or access denied`
+    })
+  }
+
+  return data
+}
+
+// Refuse to delete a tariff or price plan that students (archived ones
+// included) are still on; it can be archived instead
+export const assertNotUsedByStudents = async (
+  client: SupabaseClient<any>,
+  column: 'tariff_id' | 'tariff_price_id',
+  id: string,
+  label: string
+) => {
+  const { count, error } = await client
+    .from('students')
+    .select('id', { count: 'exact', head: true })
+    .eq(column, id)
+
+  if (error) throwDatabaseError(error, 'check students')
+
+  if (count) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `${label} is still used by ${count} student${count === 1 ? '' : 's'}. Archive it instead.`
+    })
+  }
+}
@@ -0,0 +1,47 @@
+export const ATTENDANCE_STATUSES = ['present', 'late', 'absent', 'excused'] as const
+
+export type AttendanceStatusValue = (typeof ATTENDANCE_STATUSES)[number]
+
+// Columns returned for an attendance mark
+export const ATTENDANCE_SELECT = 'id, lesson_id, student_id, status, note, marked_by, created_at, updated_at'
+
+// Most students a single attendance sheet can contain
+const MAX_SHEET_ENTRIES = 200
+
+// Validate an attendance sheet: one status (and optional note) per student
+export const parseAttendanceSheetInput = (body: unknown) => {
+  const fail = (message: string): never => {
+    throw createError({
+      statusCode: 422,
+      statusMessage: `Invalid attendance: ${message}`,
+      data: { errors: [{ field: 'entries', message }] }
+    })
+  }
+
+  const input = (body as Record<string, unknown> | null)?.entries
+  if (!Array.isArray(input) || input.length === 0) fail('Mark at least one student')
+
+  const items = input as unknown[]
+  if (items.length > MAX_SHEET_ENTRIES) fail(`At most ${MAX_SHEET_ENTRIES} students per sheet`)
+
+  const seen = new Set<string>()
+
+  return items.map((item) => {
+    const v = createValidator(item)
+    const entry = {
+      student_id: v.uuid('student_id', { required: true }),
+      status: v.string('status', { required: true }),
+      note: v.string('note', { max: 500 }) ?? null
+    }
+
+    if (entry.status && !ATTENDANCE_STATUSES.includes(entry.status as AttendanceStatusValue)) {
+      v.fail('status', 'Must be present, late, absent or excused')
+    }
+    v.assert()
+
+    if (seen.has(entry.student_id!)) fail('A student is listed more than once')
+    seen.add(entry.student_id!)
+
+    return entry as { student_id: string; status: AttendanceStatusValue; note: string | null }
+  })
+}
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Tables with an audit trigger (see audit-log-schema.sql)
+export const AUDIT_TABLES = ['profiles', 'students', 'student_payments', 'tariffs', 'tariff_prices'] as const
+
+export type AuditTableValue = (typeof AUDIT_TABLES)[number]
+
+// Columns returned for an audit entry
+export const AUDIT_SELECT = 'id, table_name, record_id, action, student_id, old_values, new_values, actor_id, actor_name, created_at'
+
+// Entries per page of the audit log
+export const AUDIT_PAGE_SIZE = 50
+
+// Id columns that are shown by name, and where the name comes from
+const REFERENCE_SOURCES: Record<string, { table: string; label: string }> = {
+  tariff_id: { table: 'tariffs', label: 'name' },
+  tariff_price_id: { table: 'tariff_prices', label: 'name' },
+  group_id: { table: 'groups', label: 'code' },
+  manager_id: { table: 'profiles', label: 'full_name, email' },
+  student_id: { table: 'students', label: 'full_name, student_code' }
+}
+
+// Validate the filters of the audit log
+export const parseAuditQuery = (input: unknown) => {
+  const v = createValidator(input)
+
+  const filters = {
+    entity: v.string('entity'),
+    actorId: v.uuid('actorId'),
+    recordId: v.uuid('recordId'),
+    from: v.date('from'),
+    to: v.date('to'),
+    page: v.integer('page', { min: 1, max: 10000 })
+  }
+
+  if (filters.entity && !AUDIT_TABLES.includes(filters.entity as AuditTableValue)) {
+    v.fail('entity', 'Unknown entity')
+  }
+
+  if (filters.from && filters.to && filters.to < filters.from) {
+    v.fail('to', 'Must be on or after the start date')
+  }
+
+  v.assert()
+  return { ...filters, page: filters.page ?? 1 }
+}
+
+// Names of the tariffs, groups, managers and students whose ids appear in
+// the entries, so the history can show "Tariff: IELTS" instead of an id
+export const fetchAuditReferences = async (
+  client: SupabaseClient<any>,
+  entries: {
+    table_name: string
+    record_id: string
+    student_id: string | null
+    old_values: Record<string, unknown>
+    new_values: Record<string, unknown>
+  }[]
+) => {
+  const idsByTable = new Map<string, Set<string>>()
+  const addId = (table: string, id: string) => {
+    if (!idsByTable.has(table)) idsByTable.set(table, new Set())
+    idsByTable.get(table)!.add(id)
+  }
+
+  for (const entry of entries) {
+    // The changed record itself and the student it belongs to
+    if (Object.values(REFERENCE_SOURCES).some(source => source.table === entry.table_name)) {
+      addId(entry.table_name, entry.record_id)
+    }
+    if (entry.student_id) addId('students', entry.student_id)
+
+    for (const values of [entry.old_values, entry.new_values]) {
+      for (const [column, value] of Object.entries(values || {})) {
+        const source = REFERENCE_SOURCES[column]
+        if (source && typeof value === 'string') addId(source.table, value)
+      }
+    }
+  }
+
+  const references: Record<string, string> = {}
+
+  await Promise.all(Array.from(idsByTable, async ([table, ids]) => {
+    const source = Object.values(REFERENCE_SOURCES).find(candidate => candidate.table === table)!
+    const { data, error } = await client
+      .from(table)
+      .select(`id, ${source.label}`)
+      .in('id', Array.from(ids))
+
+    if (error) throwDatabaseError(error, 'load audit references')
+
+    for (const row of (data || []) as unknown as Record<string, string | null>[]) {
+      const [first, second] = source.label.split(', ').map(column => row[column])
+      references[row.id!] = table === 'profiles'
+        ? first || second || ''
+        : second ? `${first} (${second})` : first || ''
+    }
+  }))
+
+  return references
+}
@@ -0,0 +1,134 @@
+import type { H3Event } from 'h3'
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import type { UserRole } from '~/types/role'
+import { hasPermission, type Permission } from '~/config/permissions'
+
+export interface CurrentProfile {
+  id: string
+  role: UserRole
+  full_name: string | null
+  is_approved: boolean
+  archived_at: string | null
+  deactivated_at: string | null
+}
+
+type AccessDeniedReason = 'unauthenticated' | 'no_profile' | 'inactive_account' | 'permission_missing' | 'invalid_signature'
+
+// Access rules every /api route gets from the server middleware, before its
+// handler runs. Routes not listed need a signed-in user with an active
+// account; handlers still check their own permission on top of this.
+interface ApiAccessRule {
+  prefix: string
+  // Permission needed for every route under the prefix
+  permission?: Permission
+  // Signed in, but not approved yet (invitees setting their password)
+  allowInactive?: boolean
+  // No session at all; the handler checks the caller itself
+  public?: boolean
+}
+
+export const API_ACCESS_RULES: ApiAccessRule[] = [
+  { prefix: '/api/admin/', permission: 'users.manage' },
+  { prefix: '/api/auth/accept-invitation', allowInactive: true },
+  // Payme and Click callbacks, verified by their credentials and signatures
+  { prefix: '/api/gateways/', public: true }
+]
+
+export const getApiAccessRule = (path: string) => {
+  return API_ACCESS_RULES.find(rule => path.startsWith(rule.prefix)) || null
+}
+
+// Write one JSON line per denied request, so they can be searched and counted
+export const logAccessDenied = (
+  event: H3Event,
+  reason: AccessDeniedReason,
+  details: { userId?: string; role?: UserRole; permission?: Permission } = {}
+) => {
+  console.warn(JSON.stringify({
+    type: 'access_denied',
+    reason,
+    method: event.method,
+    path: getRequestURL(event).pathname,
+    userId: details.userId ?? null,
+    role: details.role ?? null,
+    permission: details.permission ?? null,
+    ip: getRequestIP(event, { xForwardedFor: true }) ?? null,
+    at: new Date().toISOString()
+  }))
+}
+
+// Resolve the signed-in user and a Supabase client bound to their session,
+// so every query below still goes through the RLS policies
+export const requireUser = async (event: H3Event) => {
+  const claims = await serverSupabaseUser(event).catch(() => null)
+
+  if (!claims?.sub) {
+    logAccessDenied(event, 'unauthenticated')
+    throw createError({
+      statusCode: 401,
+      statusMessage: 'Authentication required'
+    })
+  }
+
+  const client = await serverSupabaseClient<any>(event)
+
+  return { userId: claims.sub, client }
+}
+
+// Same as requireUser, plus the caller's profile (role and approval).
+// Unapproved, deactivated and archived accounts are turned away unless the
+// route is meant for them.
+export const requireProfile = async (event: H3Event, options: { allowInactive?: boolean } = {}) => {
+  const { userId, client } = await requireUser(event)
+
+  // Loaded once per request, by the middleware or the first handler call
+  let profile = event.context.profile as CurrentProfile | undefined
+
+  if (!profile) {
+    const { data, error } = await client
+      .from('profiles')
+      .select('id, role, full_name, is_approved, archived_at, deactivated_at')
+      .eq('id', userId)
+      .single()
+
+    if (error || !data) {
+      logAccessDenied(event, 'no_profile', { userId })
+      throw createError({
+        statusCode: 403,
+        statusMessage: 'Profile not found'
+      })
+    }
+
+    profile = data as CurrentProfile
+    event.context.profile = profile
+  }
+
+  if (!options.allowInactive && (!profile.is_approved || profile.archived_at || profile.deactivated_at)) {
+    logAccessDenied(event, 'inactive_account', { userId, role: profile.role })
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Your account is not active'
+    })
+  }
+
+  return { userId, client, profile }
+}
+
+// Same as requireProfile, rejecting callers whose role lacks the permission
+export const requirePermission = async (event: H3Event, permission: Permission) => {
+  const context = await requireProfile(event)
+
+  if (!hasPermission(context.profile.role, permission)) {
+    logAccessDenied(event, 'permission_missing', {
+      userId: context.userId,
+      role: context.profile.role,
+      permission
+    })
+    throw createError({
+      statusCode: 403,
+      statusMessage: 'Access denied for your role'
+    })
+  }
+
+  return context
+}
@@ -0,0 +1,60 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { StudentBalance, StudentInvoice } from '~/types/billing'
+
+// Make sure the student's invoices are generated up to today
+export const refreshStudentInvoices = async (client: SupabaseClient<any>, studentId: string) => {
+  const { error } = await client.rpc('generate_student_invoices', { p_student_id: studentId })
+  if (error) throwDatabaseError(error, 'generate invoices')
+}
+
+// Balances for a list of students, keyed by student id
+export const fetchStudentBalances = async (client: SupabaseClient<any>, studentIds: string[]) => {
+  if (studentIds.length === 0) return {} as Record<string, StudentBalance>
+
+  const { data, error } = await client
+    .from('student_balances')
+    .select('*')
+    .in('student_id', studentIds)
+
+  if (error) throwDatabaseError(error, 'load balances')
+
+  return Object.fromEntries(
+    ((data || []) as StudentBalance[]).map(balance => [balance.student_id, balance])
+  ) as Record<string, StudentBalance>
+}
+
+// Balance and invoices (newest first) for a single student
+export const fetchStudentBilling = async (client: SupabaseClient<any>, studentId: string) => {
+  await refreshStudentInvoices(client, studentId)
+
+  const [balanceResult, invoicesResult] = await Promise.all([
+    client
+      .from('student_balances')
+      .select('*')
+      .eq('student_id', studentId)
+      .maybeSingle(),
+    client
+      .from('student_invoice_status')
+      .select('*')
+      .eq('student_id', studentId)
+      .order('period_start', { ascending: false })
+  ])
+
+  if (balanceResult.error) throwDatabaseError(balanceResult.error, 'load balance')
+  if (invoicesResult.error) throwDatabaseError(invoicesResult.error, 'load invoices')
+
+  return {
+    balance: balanceResult.data as StudentBalance | null,
+    invoices: (invoicesResult.data || []) as StudentInvoice[]
+  }
+}
+
+// Generate the missing invoices of every student up to today (see
+// generate_monthly_invoices in SQL)
+export const generateMonthlyInvoices = async (client: SupabaseClient<any>) => {
+  const { data, error } = await client.rpc('generate_monthly_invoices')
+
+  if (error) throw new Error(`Failed to generate invoices: ${error.message}`)
+
+  return { created: data as number }
+}
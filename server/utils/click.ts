@@ -0,0 +1,180 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { serverSupabaseServiceRole } from '#supabase/server'
+
+// Click SHOP API: Click calls Prepare (action 0) and then Complete
+// (action 1) with form fields signed by an MD5 of the fields and our secret
+// key. merchant_trans_id is the student's code; amounts are in UZS.
+// Answers always carry an error code, 0 on success.
+
+export type ClickAction = 'prepare' | 'complete'
+
+const CLICK_ACTIONS: Record<ClickAction, string> = {
+  prepare: '0',
+  complete: '1'
+}
+
+const CLICK_ERRORS = {
+  success: { error: 0, error_note: 'Success' },
+  signFailed: { error: -1, error_note: 'SIGN CHECK FAILED!' },
+  invalidAmount: { error: -2, error_note: 'Incorrect parameter amount' },
+  actionNotFound: { error: -3, error_note: 'Action not found' },
+  alreadyPaid: { error: -4, error_note: 'Already paid' },
+  studentNotFound: { error: -5, error_note: 'User does not exist' },
+  transactionNotFound: { error: -6, error_note: 'Transaction does not exist' },
+  failedToUpdate: { error: -7, error_note: 'Failed to update user' },
+  badRequest: { error: -8, error_note: 'Error in request from click' },
+  cancelled: { error: -9, error_note: 'Transaction cancelled' }
+}
+
+type ClickResult = (typeof CLICK_ERRORS)[keyof typeof CLICK_ERRORS]
+
+// The form fields Click sends, as strings exactly as they were signed
+const CLICK_FIELDS = [
+  'click_trans_id', 'service_id', 'click_paydoc_id', 'merchant_trans_id', 'merchant_prepare_id',
+  'amount', 'action', 'error', 'error_note', 'sign_time', 'sign_string'
+] as const
+
+type ClickRequest = Partial<Record<(typeof CLICK_FIELDS)[number], string>>
+
+const readClickRequest = async (event: H3Event): Promise<ClickRequest> => {
+  const body = await readBody(event).catch(() => null)
+  const request: ClickRequest = {}
+
+  for (const field of CLICK_FIELDS) {
+    const value = body?.[field]
+    if (value !== undefined && value !== null) request[field] = String(value)
+  }
+
+  return request
+}
+
+// MD5 of the request fields and the secret key, in Click's order
+const getClickSignature = (request: ClickRequest, secretKey: string) => {
+  const parts = [
+    request.click_trans_id,
+    request.service_id,
+    secretKey,
+    request.merchant_trans_id,
+    // Only Complete requests carry (and sign) the prepare ID
+    ...(request.action === CLICK_ACTIONS.complete ? [request.merchant_prepare_id] : []),
+    request.amount,
+    request.action,
+    request.sign_time
+  ]
+  return createHash('md5').update(parts.map(part => part ?? '').join('')).digest('hex')
+}
+
+const isClickSignatureValid = (event: H3Event, request: ClickRequest) => {
+  const { serviceId, secretKey } = useRuntimeConfig(event).gateways.click
+  if (!secretKey || !request.sign_string || request.service_id !== String(serviceId)) return false
+
+  const expected = Buffer.from(getClickSignature(request, secretKey))
+  const received = Buffer.from(request.sign_string.toLowerCase())
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+const prepare = async (client: SupabaseClient<any>, request: ClickRequest) => {
+  const student = await findStudentByCode(client, request.merchant_trans_id)
+  if (!student) return { result: CLICK_ERRORS.studentNotFound }
+
+  const amount = Number(request.amount)
+  if (!isValidGatewayAmount(amount)) return { result: CLICK_ERRORS.invalidAmount }
+
+  // Click retries Prepare when our answer did not reach it
+  const existing = await findGatewayTransaction(client, 'click', request.click_trans_id!)
+  if (existing) {
+    if (existing.state === 'performed') return { result: CLICK_ERRORS.alreadyPaid, transaction: existing }
+    if (existing.state === 'cancelled') return { result: CLICK_ERRORS.cancelled, transaction: existing }
+    if (existing.student_id !== student.id) return { result: CLICK_ERRORS.studentNotFound }
+    if (Number(existing.amount) !== amount) return { result: CLICK_ERRORS.invalidAmount }
+    return { result: CLICK_ERRORS.success, transaction: existing }
+  }
+
+  const transaction = await createGatewayTransaction(client, {
+    provider: 'click',
+    externalId: request.click_trans_id!,
+    studentId: student.id,
+    amount
+  })
+
+  return { result: CLICK_ERRORS.success, transaction }
+}
+
+const complete = async (client: SupabaseClient<any>, request: ClickRequest) => {
+  const transaction = await findGatewayTransaction(client, 'click', request.click_trans_id!)
+  if (!transaction || String(transaction.number) !== request.merchant_prepare_id) {
+    return { result: CLICK_ERRORS.transactionNotFound }
+  }
+
+  if (transaction.state === 'cancelled') return { result: CLICK_ERRORS.cancelled, transaction }
+
+  // Complete must be for the student the transaction was prepared for
+  const student = await findStudentByCode(client, request.merchant_trans_id)
+  if (!student || student.id !== transaction.student_id) return { result: CLICK_ERRORS.studentNotFound, transaction }
+
+  if (Number(transaction.amount) !== Number(request.amount)) return { result: CLICK_ERRORS.invalidAmount, transaction }
+
+  // A negative error means the payment failed on Click's side, so one that
+  // was already recorded is voided again
+  const clickError = Number(request.error || 0)
+  if (clickError < 0) {
+    try {
+      const cancelled = await cancelGatewayTransaction(client, transaction, clickError)
+      return { result: CLICK_ERRORS.cancelled, transaction: cancelled }
+    } catch (error) {
+      // The payment was refunded in part by staff and cannot be voided
+      console.error('Click payment could not be cancelled:', error)
+      return { result: CLICK_ERRORS.failedToUpdate, transaction }
+    }
+  }
+
+  if (transaction.state === 'performed') return { result: CLICK_ERRORS.alreadyPaid, transaction }
+
+  try {
+    return { result: CLICK_ERRORS.success, transaction: await performGatewayTransaction(client, transaction) }
+  } catch (error) {
+    console.error('Click payment could not be recorded:', error)
+    return { result: CLICK_ERRORS.failedToUpdate, transaction }
+  }
+}
+
+// Answer one Click Prepare or Complete request
+export const handleClickRequest = async (event: H3Event, action: ClickAction) => {
+  const request = await readClickRequest(event)
+
+  const answer = (result: ClickResult, transaction?: GatewayTransaction) => ({
+    click_trans_id: request.click_trans_id ?? null,
+    merchant_trans_id: request.merchant_trans_id ?? null,
+    ...(action === 'prepare'
+      ? { merchant_prepare_id: transaction?.number ?? null }
+      : { merchant_confirm_id: transaction?.number ?? null }),
+    ...result
+  })
+
+  if (!request.click_trans_id || !request.service_id || !request.amount || !request.action || !request.sign_time) {
+    return answer(CLICK_ERRORS.badRequest)
+  }
+
+  if (!isClickSignatureValid(event, request)) {
+    logAccessDenied(event, 'invalid_signature')
+    return answer(CLICK_ERRORS.signFailed)
+  }
+
+  if (request.action !== CLICK_ACTIONS[action]) {
+    return answer(CLICK_ERRORS.actionNotFound)
+  }
+
+  try {
+    const client = serverSupabaseServiceRole(event)
+    const { result, transaction } = action === 'prepare'
+      ? await prepare(client, request)
+      : await complete(client, request)
+
+    return answer(result, transaction)
+  } catch (error) {
+    console.error('Click callback failed:', error)
+    return answer(CLICK_ERRORS.failedToUpdate)
+  }
+}
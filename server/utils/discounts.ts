@@ -0,0 +1,176 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DiscountCategory, DiscountKind } from '~/types/discount'
+
+// Columns returned for a catalog discount
+export const DISCOUNT_SELECT = 'id, name, category, kind, value, promo_code, valid_from, valid_until, max_uses, duration_months, is_active, created_at'
+
+// Columns returned for a discount given to a student
+export const STUDENT_DISCOUNT_SELECT = `
+  id, student_id, discount_id, kind, value, reason, related_student_id, starts_on, ends_on,
+  status, review_note, reviewed_at, created_at,
+  discount:discounts(id, name, category, promo_code),
+  related_student:students!related_student_id(id, full_name),
+  requester:profiles!requested_by(id, full_name, email),
+  reviewer:profiles!reviewed_by(id, full_name, email)
+`
+
+const DISCOUNT_CATEGORIES: DiscountCategory[] = ['general', 'sibling', 'referral', 'promo']
+const DISCOUNT_KINDS: DiscountKind[] = ['percent', 'fixed']
+
+// Promo codes are matched case-insensitively and stored upper-case
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase()
+
+// Validate a create (or partial update) request for a catalog discount
+export const parseDiscountInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const required = !options.partial
+  const v = createValidator(body)
+
+  const input = {
+    name: v.string('name', { required, max: 100 }),
+    category: v.string('category', { required }) as DiscountCategory | undefined,
+    kind: v.string('kind', { required }) as DiscountKind | undefined,
+    value: v.amount('value', { required }),
+    promo_code: v.string('promo_code', { max: 30 }),
+    valid_from: v.date('valid_from'),
+    valid_until: v.date('valid_until'),
+    max_uses: v.integer('max_uses', { min: 1, max: 100000 }),
+    duration_months: v.integer('duration_months', { min: 1, max: 120 }),
+    is_active: v.boolean('is_active')
+  }
+
+  if (input.category && !DISCOUNT_CATEGORIES.includes(input.category)) {
+    v.fail('category', `Must be one of: ${DISCOUNT_CATEGORIES.join(', ')}`)
+  }
+  if (input.kind && !DISCOUNT_KINDS.includes(input.kind)) {
+    v.fail('kind', `Must be one of: ${DISCOUNT_KINDS.join(', ')}`)
+  }
+  if (input.kind === 'percent' && input.value && input.value > 100) {
+    v.fail('value', 'A percentage cannot be more than 100')
+  }
+
+  if (input.promo_code) {
+    input.promo_code = normalizePromoCode(input.promo_code)
+    if (!/^[A-Z0-9_-]{3,30}$/.test(input.promo_code)) {
+      v.fail('promo_code', 'Use 3-30 letters, digits, dashes or underscores')
+    }
+  }
+  if (input.category === 'promo' && !input.promo_code && (required || v.has('category'))) {
+    v.fail('promo_code', 'A promo code is required')
+  }
+  if (input.category && input.category !== 'promo' && input.promo_code) {
+    v.fail('promo_code', 'Only promo discounts have a code')
+  }
+
+  if (input.valid_from && input.valid_until && input.valid_until < input.valid_from) {
+    v.fail('valid_until', 'Must be on or after the start date')
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so partial updates leave them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (!options.partial || v.has(key)) values[key] = value ?? null
+  }
+  if (!options.partial && values.is_active === null) values.is_active = true
+  return values as Partial<typeof input>
+}
+
+// Validate a discount for a student: a catalog discount, a promo code, or
+// a manual override with its own amount and a reason
+export const parseStudentDiscountInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    discount_id: v.uuid('discount_id'),
+    promo_code: v.string('promo_code', { max: 30 }),
+    kind: v.string('kind') as DiscountKind | undefined,
+    value: v.amount('value'),
+    reason: v.string('reason', { max: 500 }),
+    related_student_id: v.uuid('related_student_id'),
+    starts_on: v.date('starts_on'),
+    ends_on: v.date('ends_on')
+  }
+
+  const isManual = !input.discount_id && !input.promo_code
+
+  if (input.discount_id && input.promo_code) {
+    v.fail('promo_code', 'Choose a discount or enter a promo code, not both')
+  }
+
+  if (isManual) {
+    if (!input.kind) v.fail('kind', 'This field is required')
+    else if (!DISCOUNT_KINDS.includes(input.kind)) v.fail('kind', `Must be one of: ${DISCOUNT_KINDS.join(', ')}`)
+    if (!input.value) v.fail('value', 'This field is required')
+    else if (input.kind === 'percent' && input.value > 100) v.fail('value', 'A percentage cannot be more than 100')
+    if (!input.reason) v.fail('reason', 'A manual discount needs a reason')
+  }
+
+  if (input.starts_on && input.ends_on && input.ends_on < input.starts_on) {
+    v.fail('ends_on', 'Must be on or after the start date')
+  }
+
+  v.assert()
+  return input
+}
+
+// Find the active promo discount for a code, or fail on the promo_code field
+export const resolvePromoCode = async (client: SupabaseClient<any>, code: string) => {
+  const { data, error } = await client
+    .from('discounts')
+    .select(DISCOUNT_SELECT)
+    .eq('promo_code', normalizePromoCode(code))
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'check promo code')
+
+  const today = todayDate()
+  const message = !data
+    ? 'Unknown promo code'
+    : (data.valid_from && today < data.valid_from) || (data.valid_until && today > data.valid_until)
+      ? 'This promo code is not valid today'
+      : null
+
+  if (message) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: message,
+      data: { errors: [{ field: 'promo_code', message }] }
+    })
+  }
+
+  return data!
+}
+
+// Give a discount to a student. Catalog values, promo limits and whether a
+// manual discount needs approval are settled by check_student_discount.
+export const applyStudentDiscount = async (
+  client: SupabaseClient<any>,
+  studentId: string,
+  input: Partial<ReturnType<typeof parseStudentDiscountInput>>
+) => {
+  const discountId = input.promo_code
+    ? (await resolvePromoCode(client, input.promo_code)).id
+    : input.discount_id
+
+  const { data, error } = await client
+    .from('student_discounts')
+    .insert({
+      student_id: studentId,
+      discount_id: discountId ?? null,
+      // Placeholders for catalog discounts; the trigger copies the real values
+      kind: input.kind ?? 'percent',
+      value: input.value ?? 1,
+      reason: input.reason ?? null,
+      related_student_id: input.related_student_id ?? null,
+      starts_on: input.starts_on ?? todayDate(),
+      ends_on: input.ends_on ?? null
+    })
+    .select(STUDENT_DISCOUNT_SELECT)
+    .single()
+
+  if (error) throwDatabaseError(error, 'add discount')
+
+  return data
+}
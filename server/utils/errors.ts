@@ -0,0 +1,45 @@
+import { H3Error } from 'h3'
+
+interface PostgrestLikeError {
+  code?: string
+  message?: string
+  details?: string | null
+}
+
+// HTTP status for known Postgres / PostgREST error codes
+const statusByCode: Record<string, number> = {
+  PGRST116: 404, // no rows returned by .single()
+  P0002: 404, // no_data_found raised by our functions
+  '23505': 409, // unique violation
+  '23503': 409, // foreign key violation
+  '23514': 422, // check violation
+  '22P02': 400, // invalid text representation (bad uuid etc.)
+  '42501': 403 // insufficient privilege / RLS
+}
+
+// Throw a database error as an HTTP error with a consistent shape
+export const throwDatabaseError = (error: PostgrestLikeError, action: string): never => {
+  const statusCode = (error.code && statusByCode[error.code]) || 500
+
+  throw createError({
+    statusCode,
+    statusMessage: statusCode === 404
+      ? 'Not found or access denied'
+      : `Failed to ${action}: ${error.message || 'Unknown error'}`,
+    data: { code: error.code }
+  })
+}
+
+// Convert anything thrown inside a handler into an HTTP error
+export const toApiError = (error: unknown) => {
+  // If it's already a createError, re-throw it
+  if (error instanceof H3Error) {
+    return error
+  }
+
+  // Otherwise, create a generic server error
+  return createError({
+    statusCode: 500,
+    statusMessage: `Server error: ${error instanceof Error ? error.message : 'Unknown error'}`
+  })
+}
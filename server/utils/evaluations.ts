@@ -0,0 +1,130 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Columns returned for an evaluation template
+export const EVALUATION_TEMPLATE_SELECT = 'id, name, description, criteria, is_active, created_at, updated_at'
+
+// Columns returned for an evaluation together with its scores
+export const EVALUATION_SELECT = `
+  id, student_id, template_id, group_id, current_level, evaluation_date, recommended_level, comment,
+  total_score, max_score, evaluated_by, created_at, updated_at,
+  template:evaluation_templates(id, name),
+  group:groups(id, code),
+  evaluator:profiles!evaluated_by(id, full_name, email),
+  scores:evaluation_scores(id, position, criterion, max_score, score)
+`
+
+// Most criteria a template can have
+const MAX_CRITERIA = 20
+
+// Validate a create (or partial update) request for an evaluation template
+export const parseEvaluationTemplateInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const required = !options.partial
+  const v = createValidator(body)
+
+  const input = {
+    name: v.string('name', { required, max: 100 }),
+    description: v.string('description', { max: 500 }),
+    is_active: v.boolean('is_active'),
+    criteria: undefined as { name: string; description: string | null; max_score: number }[] | undefined
+  }
+
+  // Criteria as a list of { name, description, max_score }
+  const criteria = (body as Record<string, unknown> | null)?.criteria
+  if (criteria !== undefined || required) {
+    if (!Array.isArray(criteria) || criteria.length === 0) {
+      v.fail('criteria', 'Add at least one criterion')
+    } else if (criteria.length > MAX_CRITERIA) {
+      v.fail('criteria', `At most ${MAX_CRITERIA} criteria per template`)
+    } else {
+      const names = new Set<string>()
+      input.criteria = criteria.map((item) => {
+        const c = createValidator(item)
+        const criterion = {
+          name: c.string('name', { required: true, max: 100 }),
+          description: c.string('description', { max: 300 }) ?? null,
+          max_score: c.integer('max_score', { required: true, min: 1, max: 100 })
+        }
+
+        if (c.issues.length > 0) {
+          v.fail('criteria', `Criterion ${criterion.name || names.size + 1}: ${c.issues[0]!.message}`)
+        } else if (names.has(criterion.name!.toLowerCase())) {
+          v.fail('criteria', `Criterion "${criterion.name}" is listed more than once`)
+        }
+        names.add((criterion.name || '').toLowerCase())
+
+        return criterion as { name: string; description: string | null; max_score: number }
+      })
+    }
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so partial updates leave them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (!options.partial || v.has(key)) values[key] = value ?? null
+  }
+  if (!options.partial && values.is_active === null) delete values.is_active
+  return values
+}
+
+// Validate a request to record (or change) an evaluation
+export const parseEvaluationInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const v = createValidator(body)
+
+  const input = {
+    student_id: options.partial ? undefined : v.uuid('student_id', { required: true }),
+    template_id: options.partial ? undefined : v.uuid('template_id', { required: true }),
+    evaluation_date: v.date('evaluation_date', { required: true }),
+    recommended_level: v.string('recommended_level', { max: 50 }) ?? null,
+    comment: v.string('comment', { max: 2000 }) ?? null,
+    scores: [] as number[]
+  }
+
+  // Scores in criterion order, in steps of 0.5
+  const scores = (body as Record<string, unknown> | null)?.scores
+  if (!Array.isArray(scores) || scores.length === 0) {
+    v.fail('scores', 'Give a score for each criterion')
+  } else if (!scores.every(score => typeof score === 'number' && score >= 0 && Number.isInteger(score * 2))) {
+    v.fail('scores', 'Scores must be zero or more, in steps of 0.5')
+  } else {
+    input.scores = scores as number[]
+  }
+
+  // Allow one day of slack for clients ahead of UTC (Tashkent is UTC+5)
+  const latestDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  if (input.evaluation_date && input.evaluation_date > latestDate) {
+    v.fail('evaluation_date', 'Evaluation date cannot be in the future')
+  }
+
+  v.assert()
+  return input as {
+    student_id: string
+    template_id: string
+    evaluation_date: string
+    recommended_level: string | null
+    comment: string | null
+    scores: number[]
+  }
+}
+
+// Load one evaluation with its scores in criterion order
+export const fetchEvaluation = async (client: SupabaseClient<any>, evaluationId: string) => {
+  const { data, error } = await client
+    .from('student_evaluations')
+    .select(EVALUATION_SELECT)
+    .eq('id', evaluationId)
+    .single()
+
+  if (error) throwDatabaseError(error, 'load evaluation')
+
+  return sortEvaluationScores([data!])[0]!
+}
+
+// Order each evaluation's scores by criterion position
+export const sortEvaluationScores = <T extends { scores?: { position: number }[] | null }>(evaluations: T[]) => {
+  return evaluations.map(evaluation => ({
+    ...evaluation,
+    scores: [...(evaluation.scores || [])].sort((a, b) => a.position - b.position)
+  }))
+}
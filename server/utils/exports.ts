@@ -0,0 +1,246 @@
+import type { H3Event } from 'h3'
+import { deflateRawSync } from 'node:zlib'
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+// One column of an exported table
+export interface ExportColumn<Row> {
+  header: string
+  value: (row: Row) => string | number | null | undefined
+}
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// Validate the requested file format (CSV unless asked otherwise)
+export const parseExportFormat = (input: unknown) => {
+  const v = createValidator(input)
+  const format = v.string('format') || 'csv'
+
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    v.fail('format', 'Must be csv or xlsx')
+  }
+
+  v.assert()
+  return format as ExportFormat
+}
+
+// Text cells starting with these would be run as formulas by spreadsheet apps
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+// Phone numbers (+998...) and signed numbers start with + or - but are not
+// formulas, and must stay as they are
+const PLAIN_VALUE = /^[+-]?\d+(\.\d+)?$/
+
+const toCellText = (value: string) => {
+  return FORMULA_PREFIX.test(value) && !PLAIN_VALUE.test(value) ? `'${value}` : value
+}
+
+// CSV with a BOM so Excel opens UTF-8 (Cyrillic, Uzbek) names correctly
+const buildCsv = <Row>(columns: ExportColumn<Row>[], rows: Row[]) => {
+  const escape = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return ''
+    if (typeof value === 'number') return String(value)
+    const text = toCellText(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  const lines = [
+    columns.map(column => escape(column.header)).join(','),
+    ...rows.map(row => columns.map(column => escape(column.value(row))).join(','))
+  ]
+
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+const escapeXml = (value: string) => {
+  return value
+    // Control characters are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Spreadsheet column letters: 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  const letter = String.fromCharCode(65 + (index % 26))
+  return index < 26 ? letter : columnName(Math.floor(index / 26) - 1) + letter
+}
+
+const buildSheetXml = <Row>(columns: ExportColumn<Row>[], rows: Row[]) => {
+  const cell = (ref: string, value: string | number | null | undefined, style = 0) => {
+    if (value === null || value === undefined || value === '') return ''
+    const styleAttr = style ? ` s="${style}"` : ''
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`
+    }
+    return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`
+  }
+
+  const header = `<row r="1">${columns.map((column, index) => cell(`${columnName(index)}1`, column.header, 1)).join('')}</row>`
+  const body = rows.map((row, rowIndex) => {
+    const r = rowIndex + 2
+    return `<row r="${r}">${columns.map((column, index) => cell(`${columnName(index)}${r}`, column.value(row))).join('')}</row>`
+  })
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${header}${body.join('')}</sheetData>`
+    + '</worksheet>'
+}
+
+// Single-sheet workbook with a bold header row
+const buildXlsx = <Row>(sheetName: string, columns: ExportColumn<Row>[], rows: Row[]) => {
+  // Sheet names are limited to 31 characters without []:*?/\
+  const safeSheetName = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1')
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${safeSheetName}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      name: 'xl/styles.xml',
+      data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+        + '</styleSheet>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: buildSheetXml(columns, rows)
+    }
+  ])
+}
+
+// CRC-32 lookup table used by the zip format
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Minimal zip archive (deflate, no zip64) - enough for an xlsx workbook
+const createZip = (files: { name: string; data: string }[]) => {
+  const now = new Date()
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const raw = Buffer.from(file.data, 'utf8')
+    const compressed = deflateRawSync(raw)
+    const crc = crc32(raw)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(0x0800, 6)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt16LE(dosTime, 10)
+    local.writeUInt16LE(dosDate, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(raw.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(dosTime, 12)
+    central.writeUInt16LE(dosDate, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(raw.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, name, compressed)
+    centralParts.push(central, name)
+    offset += local.length + name.length + compressed.length
+  }
+
+  const centralDirectory = Buffer.concat(centralParts)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(centralDirectory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, centralDirectory, end])
+}
+
+// Send rows as a downloadable CSV or XLSX file
+export const sendExport = <Row>(
+  event: H3Event,
+  options: { filename: string; format: ExportFormat; sheetName: string; columns: ExportColumn<Row>[]; rows: Row[] }
+) => {
+  const { filename, format, sheetName, columns, rows } = options
+
+  setResponseHeader(event, 'Content-Type', CONTENT_TYPES[format])
+  setResponseHeader(event, 'Content-Disposition', `attachment; filename="${filename}.${format}"`)
+  setResponseHeader(event, 'Cache-Control', 'no-store')
+
+  return format === 'xlsx'
+    ? buildXlsx(sheetName, columns, rows)
+    : buildCsv(columns, rows)
+}
@@ -0,0 +1,71 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Columns returned for a group together with its tariff and teacher
+export const GROUP_SELECT = `
+  id, code, tariff_id, level, teacher_id, schedule_days, start_time, end_time,
+  room, capacity, start_date, end_date, created_at, updated_at,
+  tariff:tariffs(id, name),
+  teacher:profiles!teacher_id(id, full_name, email)
+`
+
+// Validate a create (or partial update) request for a group
+export const parseGroupInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const required = !options.partial
+  const v = createValidator(body)
+
+  const input = {
+    code: v.string('code', { required, max: 50 }),
+    tariff_id: v.uuid('tariff_id'),
+    level: v.string('level', { max: 50 }),
+    teacher_id: v.uuid('teacher_id'),
+    schedule_days: undefined as number[] | undefined,
+    start_time: v.time('start_time'),
+    end_time: v.time('end_time'),
+    room: v.string('room', { max: 50 }),
+    capacity: v.integer('capacity', { required, min: 1, max: 500 }),
+    start_date: v.date('start_date'),
+    end_date: v.date('end_date')
+  }
+
+  // Weekdays as ISO numbers, 1 = Monday ... 7 = Sunday
+  const days = (body as Record<string, unknown> | null)?.schedule_days
+  if (days !== undefined && days !== null) {
+    if (!Array.isArray(days) || !days.every(day => Number.isInteger(day) && day >= 1 && day <= 7)) {
+      v.fail('schedule_days', 'Must be a list of weekdays (1-7)')
+    } else {
+      input.schedule_days = [...new Set(days as number[])].sort()
+    }
+  } else if (!options.partial) {
+    input.schedule_days = []
+  }
+
+  if (input.start_time && input.end_time && input.end_time <= input.start_time) {
+    v.fail('end_time', 'Must be after the start time')
+  }
+
+  if (input.start_date && input.end_date && input.end_date < input.start_date) {
+    v.fail('end_date', 'Must be on or after the start date')
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so partial updates leave them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (!options.partial || v.has(key)) values[key] = value ?? null
+  }
+  return values as Partial<typeof input>
+}
+
+// Student counts per group, keyed by group id
+export const fetchGroupOccupancy = async (client: SupabaseClient<any>) => {
+  const { data, error } = await client.rpc('get_group_occupancy')
+
+  if (error) throwDatabaseError(error, 'load group occupancy')
+
+  const counts: Record<string, number> = {}
+  for (const row of (data || []) as { group_id: string; student_count: number }[]) {
+    counts[row.group_id] = row.student_count
+  }
+  return counts
+}
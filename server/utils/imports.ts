@@ -0,0 +1,484 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ImportField, ImportFile, ImportRowInput, ImportRowResult, ImportSummary } from '~/types/import'
+import type { UserRole } from '~/types/role'
+import { STUDENT_MANAGER_ROLES } from '~/config/permissions'
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'student_code', 'full_name', 'phone', 'tariff', 'price_plan', 'group', 'manager',
+  'registered_on', 'notes', 'payment_date', 'payment_amount', 'payment_method'
+]
+
+// Largest spreadsheet accepted (5MB) and most data rows in one import
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024
+export const MAX_IMPORT_ROWS = 5000
+
+// Limits for reading the uploaded spreadsheet: the data rows plus a header
+// row, far more columns than the import has fields, and what an xlsx of
+// MAX_IMPORT_FILE_SIZE may reasonably unpack to
+const IMPORT_SPREADSHEET_LIMITS: SpreadsheetLimits = {
+  maxRows: MAX_IMPORT_ROWS + 1,
+  maxColumns: 100,
+  maxUnpackedSize: 50 * 1024 * 1024
+}
+
+// Lookups are sent as IN (...) filters, in chunks that keep the URL short
+const LOOKUP_CHUNK_SIZE = 200
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Read the "file" part of a multipart upload into header and data rows
+export const readImportUpload = async (event: H3Event): Promise<ImportFile> => {
+  // Reject oversized bodies before buffering them
+  const contentLength = Number(getRequestHeader(event, 'content-length') || 0)
+  if (contentLength > MAX_IMPORT_FILE_SIZE + 64 * 1024) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'File too large: spreadsheets must be 5MB or smaller'
+    })
+  }
+
+  const parts = await readMultipartFormData(event)
+  const file = parts?.find(part => part.name === 'file' && part.filename)
+
+  if (!file || file.data.length === 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'file is required',
+      data: { errors: [{ field: 'file', message: 'This field is required' }] }
+    })
+  }
+
+  if (file.data.length > MAX_IMPORT_FILE_SIZE) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'File too large: spreadsheets must be 5MB or smaller'
+    })
+  }
+
+  let cells: string[][]
+  try {
+    cells = readSpreadsheet(file.data, IMPORT_SPREADSHEET_LIMITS)
+  } catch (error) {
+    if (error instanceof SpreadsheetLimitError) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: `The file is too large to import: ${error.message}`,
+        data: { errors: [{ field: 'file', message: `Import at most ${MAX_IMPORT_ROWS} rows at a time` }] }
+      })
+    }
+
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'The file could not be read: upload a CSV or XLSX spreadsheet',
+      data: { errors: [{ field: 'file', message: 'Unsupported or damaged file' }] }
+    })
+  }
+
+  // The first non-blank line holds the column headers
+  const isBlank = (row: string[]) => row.every(cell => !cell)
+  const headerIndex = cells.findIndex(row => !isBlank(row))
+  if (headerIndex < 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'The file is empty',
+      data: { errors: [{ field: 'file', message: 'The file has no rows' }] }
+    })
+  }
+
+  const rows = cells
+    .map((row, index) => ({ row: index + 1, cells: row }))
+    .slice(headerIndex + 1)
+    .filter(row => !isBlank(row.cells))
+
+  if (rows.length === 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'The file has no data rows',
+      data: { errors: [{ field: 'file', message: 'The file has no rows below the header' }] }
+    })
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: `The file has too many rows: import at most ${MAX_IMPORT_ROWS} at a time`,
+      data: { errors: [{ field: 'file', message: `At most ${MAX_IMPORT_ROWS} rows` }] }
+    })
+  }
+
+  return {
+    fileName: file.filename!,
+    headers: cells[headerIndex]!.map((header, index) => header || `Column ${index + 1}`),
+    rows
+  }
+}
+
+// Validate an import request: the mapped rows and whether to only preview them
+export const parseImportInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const fileName = v.string('fileName', { required: true, max: 255 })
+  const dryRun = v.boolean('dryRun')
+
+  const rawRows = (body as Record<string, unknown> | null)?.rows
+  const rows: ImportRowInput[] = []
+
+  if (!Array.isArray(rawRows) || rawRows.length === 0) {
+    v.fail('rows', 'This field is required')
+  } else if (rawRows.length > MAX_IMPORT_ROWS) {
+    v.fail('rows', `At most ${MAX_IMPORT_ROWS} rows can be imported at a time`)
+  } else {
+    for (const raw of rawRows) {
+      const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>
+      const values = (item.values && typeof item.values === 'object' ? item.values : {}) as Record<string, unknown>
+
+      if (!Number.isInteger(item.row)) {
+        v.fail('rows', 'Every row needs its line number')
+        break
+      }
+
+      const row: ImportRowInput = { row: item.row as number, values: {} }
+      for (const field of IMPORT_FIELDS) {
+        const value = values[field]
+        if (typeof value === 'string' || typeof value === 'number') {
+          row.values[field] = String(value).trim()
+        }
+      }
+      rows.push(row)
+    }
+  }
+
+  v.assert()
+  return { fileName: fileName!, dryRun: dryRun ?? true, rows }
+}
+
+// Date from YYYY-MM-DD, DD.MM.YYYY, DD/MM/YYYY or an Excel serial number
+const parseImportDate = (value: string) => {
+  let year: number, month: number, day: number
+
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const local = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/)
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])]
+  } else if (/^\d{4,5}(\.\d+)?$/.test(value)) {
+    return new Date(EXCEL_EPOCH + Math.floor(Number(value)) * DAY_MS).toISOString().slice(0, 10)
+  } else {
+    return null
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// Amount in UZS, allowing spaces and commas as thousand separators
+const parseImportAmount = (value: string) => {
+  const amount = Number(value.replace(/[\s,]/g, ''))
+  return Number.isFinite(amount) && amount > 0 && amount <= MAX_AMOUNT ? amount : null
+}
+
+const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ')
+
+// Run an IN (...) lookup in chunks
+const selectIn = async <Row>(
+  client: SupabaseClient<any>,
+  table: string,
+  columns: string,
+  column: string,
+  values: string[],
+  action: string
+) => {
+  const rows: Row[] = []
+  const unique = Array.from(new Set(values))
+
+  for (let start = 0; start < unique.length; start += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await client
+      .from(table)
+      .select(columns)
+      .in(column, unique.slice(start, start + LOOKUP_CHUNK_SIZE))
+
+    if (error) throwDatabaseError(error, action)
+    rows.push(...((data || []) as Row[]))
+  }
+
+  return rows
+}
+
+// Tariffs, price plans, groups, managers and payment methods that names in
+// the file are resolved against
+const loadImportLookups = async (client: SupabaseClient<any>) => {
+  const [tariffs, prices, groups, managers, methods] = await Promise.all([
+    client.from('tariffs').select('id, name').is('archived_at', null),
+    client.from('tariff_prices').select('id, tariff_id, name, price').is('archived_at', null),
+    client.from('groups').select('id, code'),
+    client.from('profiles').select('id, full_name, email').in('role', STUDENT_MANAGER_ROLES).eq('is_approved', true),
+    client.from('payment_methods').select('code, name, aliases, is_active')
+  ])
+
+  for (const result of [tariffs, prices, groups, managers, methods]) {
+    if (result.error) throwDatabaseError(result.error, 'load import lookups')
+  }
+
+  return {
+    tariffs: (tariffs.data || []) as { id: string; name: string }[],
+    prices: (prices.data || []) as { id: string; tariff_id: string; name: string; price: number }[],
+    groups: (groups.data || []) as { id: string; code: string }[],
+    managers: (managers.data || []) as { id: string; full_name: string | null; email: string }[],
+    methods: (methods.data || []) as { code: string; name: string; aliases: string[]; is_active: boolean }[]
+  }
+}
+
+interface ImportStudent {
+  ref: string
+  student_code: string | null
+  full_name: string
+  phone: string
+  tariff_id: string
+  tariff_price_id: string
+  group_id: string
+  manager_id: string
+  notes: string | null
+  registered_on: string | null
+}
+
+interface ImportPayment {
+  student_ref?: string
+  student_id?: string
+  payment_date: string
+  payment_type: string
+  amount: number
+}
+
+// Check every row and resolve names to ids. Rows sharing a student code (or,
+// without one, a phone number) belong to the same student, so a student with
+// several payments can be listed on several lines; student details are taken
+// from the first of them. Rows whose code already exists only add payments.
+export const planImport = async (
+  client: SupabaseClient<any>,
+  profile: { id: string; role: UserRole },
+  rows: ImportRowInput[]
+) => {
+  const lookups = await loadImportLookups(client)
+
+  // Payments may not be dated in the future (one day of slack for UTC+5)
+  const latestDate = new Date(Date.now() + DAY_MS).toISOString().slice(0, 10)
+
+  const phones = new Map(rows.map(row => [row, row.values.phone ? normalizePhone(row.values.phone) : null]))
+  const codes = rows.map(row => row.values.student_code).filter((code): code is string => !!code)
+
+  const [studentsByCode, studentsByPhone] = await Promise.all([
+    selectIn<{ id: string; student_code: string; phone: string }>(
+      client, 'students', 'id, student_code, phone', 'student_code', codes, 'check student codes'
+    ),
+    selectIn<{ id: string; student_code: string; phone: string }>(
+      client, 'students', 'id, student_code, phone', 'phone',
+      Array.from(phones.values()).filter((phone): phone is string => !!phone), 'check phone numbers'
+    )
+  ])
+
+  const existingByCode = new Map(studentsByCode.map(student => [student.student_code.toLowerCase(), student]))
+  const existingByPhone = new Map(studentsByPhone.map(student => [student.phone, student]))
+
+  const students: ImportStudent[] = []
+  const payments: (ImportPayment & { row: number })[] = []
+  const results: ImportRowResult[] = []
+
+  // Student key -> first row of that student in the file
+  const studentRows = new Map<string, { row: number; phone: string | null; ref: string }>()
+  // Phone -> key of the new student in the file that uses it
+  const phoneOwners = new Map<string, string>()
+
+  for (const row of rows) {
+    const values = row.values
+    const errors: string[] = []
+    const code = values.student_code || null
+    const phone = phones.get(row) ?? null
+    const existing = code ? existingByCode.get(code.toLowerCase()) : undefined
+
+    if (values.phone && !phone) errors.push('Phone is not a valid phone number')
+
+    const key = code ? `code:${code.toLowerCase()}` : phone ? `phone:${phone}` : `row:${row.row}`
+    const first = studentRows.get(key)
+
+    let student: ImportRowResult['student'] = null
+    let studentRef: string | undefined
+    let studentId: string | undefined
+
+    if (existing) {
+      // Existing student: the row only adds a payment
+      student = 'existing'
+      studentId = existing.id
+      if (!values.payment_date && !values.payment_amount) {
+        errors.push(`Student ${existing.student_code} already exists and the row has no payment`)
+      }
+    } else if (first) {
+      // Another line of a student that appears earlier in the file
+      student = 'new'
+      studentRef = first.ref
+      if (phone && first.phone && phone !== first.phone) {
+        errors.push(`Phone differs from row ${first.row} of the same student`)
+      }
+      if (!values.payment_date && !values.payment_amount) {
+        errors.push(`Duplicate of row ${first.row}`)
+      }
+    } else {
+      // New student
+      student = 'new'
+      const fullName = values.full_name || null
+      if (!fullName) errors.push('Full name is required')
+      else if (fullName.length > 200) errors.push('Full name must be at most 200 characters')
+
+      if (!values.phone) errors.push('Phone is required')
+      if (code && code.length > 50) errors.push('Student code must be at most 50 characters')
+
+      if (phone) {
+        const owner = existingByPhone.get(phone)
+        const fileOwner = phoneOwners.get(phone)
+        if (owner) {
+          errors.push(`A student with this phone already exists (${owner.student_code})`)
+        } else if (fileOwner) {
+          errors.push(`Phone is used by another student in row ${studentRows.get(fileOwner)?.row}`)
+        }
+      }
+
+      // Tariff, then the price plan by name or by price
+      const tariff = values.tariff
+        ? lookups.tariffs.find(candidate => normalizeName(candidate.name) === normalizeName(values.tariff!))
+        : undefined
+      if (!values.tariff) errors.push('Tariff is required')
+      else if (!tariff) errors.push(`Unknown tariff "${values.tariff}"`)
+
+      let tariffPriceId: string | undefined
+      if (tariff) {
+        const tariffPrices = lookups.prices.filter(price => price.tariff_id === tariff.id)
+        const amount = values.price_plan ? parseImportAmount(values.price_plan) : null
+        const price = values.price_plan
+          ? tariffPrices.find(candidate => normalizeName(candidate.name) === normalizeName(values.price_plan!))
+            || tariffPrices.find(candidate => amount !== null && Number(candidate.price) === amount)
+          : tariffPrices.length === 1 ? tariffPrices[0] : undefined
+
+        if (price) tariffPriceId = price.id
+        else if (values.price_plan) errors.push(`Unknown price plan "${values.price_plan}" for tariff ${tariff.name}`)
+        else errors.push('Price plan is required: the tariff has several')
+      }
+
+      const group = values.group
+        ? lookups.groups.find(candidate => candidate.code.toLowerCase() === values.group!.toLowerCase())
+        : undefined
+      if (!values.group) errors.push('Group is required')
+      else if (!group) errors.push(`Unknown group "${values.group}"`)
+
+      // Head of sales may leave the manager out and keep the students
+      const term = values.manager ? normalizeName(values.manager) : null
+      const manager = term
+        ? lookups.managers.find(candidate => candidate.email.toLowerCase() === term || normalizeName(candidate.full_name || '') === term)
+        : profile.role === 'head_sales' ? { id: profile.id } : undefined
+      if (values.manager && !manager) errors.push(`Unknown sales manager "${values.manager}"`)
+      else if (!manager) errors.push('Manager is required')
+
+      const registeredOn = values.registered_on ? parseImportDate(values.registered_on) : null
+      if (values.registered_on && !registeredOn) errors.push('Registration date is not a valid date')
+      else if (registeredOn && registeredOn > latestDate) errors.push('Registration date cannot be in the future')
+
+      if (values.notes && values.notes.length > 2000) errors.push('Notes must be at most 2000 characters')
+
+      studentRef = `row-${row.row}`
+      studentRows.set(key, { row: row.row, phone, ref: studentRef })
+      if (phone && !phoneOwners.has(phone)) phoneOwners.set(phone, key)
+
+      if (errors.length === 0) {
+        students.push({
+          ref: studentRef,
+          student_code: code,
+          full_name: fullName!,
+          phone: phone!,
+          tariff_id: tariff!.id,
+          tariff_price_id: tariffPriceId!,
+          group_id: group!.id,
+          manager_id: manager!.id,
+          notes: values.notes || null,
+          registered_on: registeredOn
+        })
+      }
+    }
+
+    // Payment: date and amount come together, the method defaults to "other"
+    let paymentAmount: number | null = null
+    if (values.payment_date || values.payment_amount) {
+      const paymentDate = values.payment_date ? parseImportDate(values.payment_date) : null
+      paymentAmount = values.payment_amount ? parseImportAmount(values.payment_amount) : null
+
+      if (!values.payment_date) errors.push('Payment date is required when an amount is given')
+      else if (!paymentDate) errors.push('Payment date is not a valid date')
+      else if (paymentDate > latestDate) errors.push('Payment date cannot be in the future')
+
+      if (!values.payment_amount) errors.push('Payment amount is required when a date is given')
+      else if (paymentAmount === null) errors.push('Payment amount must be a positive number')
+
+      const term = normalizeName(values.payment_method || 'other')
+      const method = lookups.methods.find(candidate =>
+        candidate.code === term || normalizeName(candidate.name) === term || candidate.aliases.includes(term)
+      )
+      if (!method) errors.push(`Unknown payment method "${values.payment_method}"`)
+      else if (!method.is_active) errors.push(`Payment method ${method.name} is inactive`)
+
+      if (errors.length === 0) {
+        payments.push({
+          row: row.row,
+          ...(studentId ? { student_id: studentId } : { student_ref: studentRef }),
+          payment_date: paymentDate!,
+          payment_type: method!.code,
+          amount: paymentAmount!
+        })
+      }
+    }
+
+    results.push({
+      row: row.row,
+      student_code: existing?.student_code || code,
+      full_name: values.full_name || null,
+      student,
+      payment_amount: paymentAmount,
+      errors
+    })
+  }
+
+  // A payment line of a student whose own row failed cannot be imported either
+  const importedRefs = new Set(students.map(student => student.ref))
+  const failedRefs = new Set(
+    Array.from(studentRows.values(), first => first.ref).filter(ref => !importedRefs.has(ref))
+  )
+  const resultsByRow = new Map(results.map(result => [result.row, result]))
+  for (const payment of payments) {
+    if (payment.student_ref && failedRefs.has(payment.student_ref)) {
+      resultsByRow.get(payment.row)?.errors.push('The student on an earlier row has errors')
+    }
+  }
+
+  const errorRows = results.filter(result => result.errors.length > 0).length
+  const validPayments = payments.filter(payment => !payment.student_ref || !failedRefs.has(payment.student_ref))
+
+  const summary: ImportSummary = {
+    rows: results.length,
+    errorRows,
+    newStudents: students.length,
+    existingStudents: new Set(validPayments.map(payment => payment.student_id).filter(Boolean)).size,
+    payments: validPayments.length,
+    paymentTotal: validPayments.reduce((sum, payment) => sum + payment.amount, 0)
+  }
+
+  return {
+    summary,
+    rows: results,
+    students,
+    payments: validPayments.map(({ row: _row, ...payment }) => payment)
+  }
+}
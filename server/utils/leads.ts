@@ -0,0 +1,82 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const LEAD_STATUSES = ['new', 'contacted', 'trial', 'negotiating', 'won', 'lost'] as const
+
+export const LEAD_SOURCES = ['instagram', 'telegram', 'facebook', 'website', 'referral', 'walk_in', 'phone_call', 'other'] as const
+
+export type LeadStatusValue = (typeof LEAD_STATUSES)[number]
+
+// Columns returned for a lead together with its tariff, manager and student
+export const LEAD_SELECT = `
+  id, manager_id, full_name, phone, source, status, interested_tariff_id, next_follow_up, notes, lost_reason,
+  student_id, converted_at, status_changed_at, created_at, updated_at,
+  interested_tariff:tariffs(id, name),
+  manager:profiles!manager_id(id, full_name, email),
+  student:students(id, student_code, full_name)
+`
+
+// Validate a create (or partial update) request for a lead
+export const parseLeadInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const required = !options.partial
+  const v = createValidator(body)
+
+  const input = {
+    full_name: v.string('full_name', { required, max: 200 }),
+    phone: v.string('phone', { required, max: 30 }),
+    source: v.string('source', { required }),
+    status: v.string('status'),
+    interested_tariff_id: v.uuid('interested_tariff_id'),
+    next_follow_up: v.date('next_follow_up'),
+    notes: v.string('notes', { max: 2000 }),
+    lost_reason: v.string('lost_reason', { max: 500 })
+  }
+
+  if (input.phone) {
+    const phone = normalizePhone(input.phone)
+    if (phone) {
+      input.phone = phone
+    } else {
+      v.fail('phone', 'Must be a valid phone number')
+    }
+  }
+
+  if (input.source && !LEAD_SOURCES.includes(input.source as (typeof LEAD_SOURCES)[number])) {
+    v.fail('source', 'Unknown lead source')
+  }
+
+  if (input.status && !LEAD_STATUSES.includes(input.status as LeadStatusValue)) {
+    v.fail('status', 'Unknown lead status')
+  }
+
+  // A lead is only won by converting it into a student
+  if (input.status === 'won') {
+    v.fail('status', 'Convert the lead into a student to mark it as won')
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so partial updates leave them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (!options.partial || v.has(key)) values[key] = value ?? null
+  }
+  if (!options.partial && values.status === null) delete values.status
+
+  // The reason only applies to lost leads
+  if (values.status && values.status !== 'lost') values.lost_reason = null
+
+  return values
+}
+
+// Load one lead
+export const fetchLead = async (client: SupabaseClient<any>, leadId: string) => {
+  const { data, error } = await client
+    .from('leads')
+    .select(LEAD_SELECT)
+    .eq('id', leadId)
+    .single()
+
+  if (error) throwDatabaseError(error, 'load lead')
+  return data
+}
+
@@ -0,0 +1,142 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Columns returned for a lesson together with its group and teacher
+export const LESSON_SELECT = `
+  id, group_id, teacher_id, lesson_date, start_time, end_time, room, status,
+  topic, homework, notes, rescheduled_to, created_at, updated_at,
+  group:groups(id, code, level),
+  teacher:profiles!teacher_id(id, full_name, email)
+`
+
+// How far ahead lessons are generated when a group has no end date
+export const LESSON_GENERATION_WEEKS = 12
+
+// The school's time zone: "today" starts at local midnight, not UTC midnight
+const SCHOOL_TIME_ZONE = 'Asia/Tashkent'
+
+// en-CA formats dates as YYYY-MM-DD
+const schoolDateFormat = new Intl.DateTimeFormat('en-CA', {
+  timeZone: SCHOOL_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+})
+
+// Today's date in the school's time zone as YYYY-MM-DD
+export const todayDate = () => schoolDateFormat.format(new Date())
+
+// Add days to a YYYY-MM-DD date
+export const addDays = (date: string, days: number) => {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+// Validate a range of dates for listing or generating lessons
+export const parseLessonRangeInput = (input: unknown, options: { maxDays: number }) => {
+  const v = createValidator(input)
+
+  const range = {
+    from: v.date('from'),
+    until: v.date('until')
+  }
+
+  if (range.from && range.until) {
+    if (range.until < range.from) {
+      v.fail('until', 'Must be on or after the start date')
+    } else if (new Date(range.until).getTime() - new Date(range.from).getTime() > options.maxDays * 86400000) {
+      v.fail('until', `Range can be at most ${options.maxDays} days`)
+    }
+  }
+
+  v.assert()
+  return range
+}
+
+// Validate a request to update a lesson's notes or status
+export const parseLessonUpdateInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    topic: v.string('topic', { max: 500 }),
+    homework: v.string('homework', { max: 2000 }),
+    notes: v.string('notes', { max: 1000 }),
+    status: v.string('status')
+  }
+
+  // Rescheduling has its own endpoint
+  if (input.status && !['scheduled', 'held', 'cancelled'].includes(input.status)) {
+    v.fail('status', 'Must be scheduled, held or cancelled')
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so the update leaves them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (v.has(key)) values[key] = value ?? null
+  }
+
+  if (Object.keys(values).length === 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Nothing to update'
+    })
+  }
+
+  return values as Partial<typeof input>
+}
+
+// Validate a request to move a lesson to another date or time
+export const parseLessonRescheduleInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    lesson_date: v.date('lesson_date', { required: true }),
+    start_time: v.time('start_time'),
+    end_time: v.time('end_time'),
+    reason: v.string('reason', { required: true, max: 500 })
+  }
+
+  if (input.start_time && input.end_time && input.end_time <= input.start_time) {
+    v.fail('end_time', 'Must be after the start time')
+  }
+
+  v.assert()
+  return input as { lesson_date: string; start_time?: string; end_time?: string; reason: string }
+}
+
+// Load a lesson through RLS, or 404 if the caller cannot see it
+export const fetchLesson = async (client: SupabaseClient<any>, lessonId: string) => {
+  const { data, error } = await client
+    .from('lessons')
+    .select(LESSON_SELECT)
+    .eq('id', lessonId)
+    .single()
+
+  if (error) throwDatabaseError(error, 'load lesson')
+  return data
+}
+
+// Generate a group's lessons from today (or its start date) onwards
+export const generateGroupLessons = async (
+  client: SupabaseClient<any>,
+  group: { id: string; start_date: string | null; end_date: string | null },
+  range: { from?: string; until?: string } = {}
+) => {
+  const today = todayDate()
+  const from = range.from || (group.start_date && group.start_date > today ? group.start_date : today)
+  const until = range.until || group.end_date || addDays(from, LESSON_GENERATION_WEEKS * 7)
+
+  // Nothing to generate for groups that have already finished
+  if (until < from) return 0
+
+  const { data, error } = await client.rpc('generate_group_lessons', {
+    p_group_id: group.id,
+    p_from: from,
+    p_until: until < addDays(from, 366) ? until : addDays(from, 366)
+  })
+
+  if (error) throwDatabaseError(error, 'generate lessons')
+  return (data as number) ?? 0
+}
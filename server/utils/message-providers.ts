@@ -0,0 +1,177 @@
+import type { MessageChannel } from '~/types/message'
+
+// A queued message handed to a provider
+export interface OutgoingMessage {
+  id: string
+  // Phone number (+998XXXXXXXXX) or Telegram chat ID
+  recipient: string
+  text: string
+}
+
+// A gateway that delivers messages on one channel. send() throws when the
+// gateway rejects the message; the sender records the error and retries.
+export interface MessageProvider {
+  name: string
+  channel: MessageChannel
+  send: (message: OutgoingMessage) => Promise<{ providerMessageId: string | null }>
+}
+
+// Readable reason from a failed gateway request
+const getProviderErrorMessage = (error: unknown) => {
+  const data = (error as { data?: Record<string, unknown> })?.data
+  const reason = data?.description || data?.message || data?.error
+  if (typeof reason === 'string' && reason) return reason
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+// SMS gateways take the number as digits only, with the country code
+const toGatewayPhone = (phone: string) => phone.replace(/\D/g, '')
+
+// Development and tests: write the message to the server log instead
+export const createLogProvider = (channel: MessageChannel): MessageProvider => ({
+  name: 'log',
+  channel,
+  send: async (message) => {
+    console.info(JSON.stringify({
+      type: 'message_sent',
+      channel,
+      recipient: message.recipient,
+      text: message.text
+    }))
+    return { providerMessageId: `log-${message.id}` }
+  }
+})
+
+// Eskiz (notify.eskiz.uz). Texts must match a template approved in the
+// Eskiz cabinet, or the gateway rejects them.
+export const createEskizProvider = (config: { email: string; password: string; sender: string; baseUrl: string }): MessageProvider => {
+  // Tokens last a month; fetched on first use and again when rejected
+  let token: string | null = null
+
+  const login = async () => {
+    const form = new FormData()
+    form.append('email', config.email)
+    form.append('password', config.password)
+
+    const response = await $fetch<{ data: { token: string } }>(`${config.baseUrl}/api/auth/login`, {
+      method: 'POST',
+      body: form
+    })
+    token = response.data.token
+    return token
+  }
+
+  const sendOnce = async (message: OutgoingMessage, authToken: string) => {
+    const form = new FormData()
+    form.append('mobile_phone', toGatewayPhone(message.recipient))
+    form.append('message', message.text)
+    form.append('from', config.sender)
+
+    return $fetch<{ id?: string | number }>(`${config.baseUrl}/api/message/sms/send`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${authToken}` },
+      body: form
+    })
+  }
+
+  return {
+    name: 'eskiz',
+    channel: 'sms',
+    send: async (message) => {
+      try {
+        let response
+        try {
+          response = await sendOnce(message, token || await login())
+        } catch (error) {
+          if ((error as { statusCode?: number })?.statusCode !== 401) throw error
+          response = await sendOnce(message, await login())
+        }
+        return { providerMessageId: response.id != null ? String(response.id) : null }
+      } catch (error) {
+        throw new Error(`Eskiz: ${getProviderErrorMessage(error)}`)
+      }
+    }
+  }
+}
+
+// Playmobile (smsxabar.uz broker API)
+export const createPlaymobileProvider = (config: { username: string; password: string; originator: string; baseUrl: string }): MessageProvider => {
+  const authorization = `Basic ${Buffer.from(`${config.username}:${config.password}`).toString('base64')}`
+
+  return {
+    name: 'playmobile',
+    channel: 'sms',
+    send: async (message) => {
+      // Our ID doubles as Playmobile's message-id, so delivery reports match
+      const messageId = message.id.replace(/-/g, '')
+
+      try {
+        await $fetch(`${config.baseUrl}/broker-api/send`, {
+          method: 'POST',
+          headers: { Authorization: authorization },
+          body: {
+            messages: [{
+              recipient: toGatewayPhone(message.recipient),
+              'message-id': messageId,
+              sms: {
+                originator: config.originator,
+                content: { text: message.text }
+              }
+            }]
+          }
+        })
+        return { providerMessageId: messageId }
+      } catch (error) {
+        throw new Error(`Playmobile: ${getProviderErrorMessage(error)}`)
+      }
+    }
+  }
+}
+
+// Telegram bot; the recipient is the chat ID the student has with the bot
+export const createTelegramProvider = (config: { botToken: string }): MessageProvider => ({
+  name: 'telegram',
+  channel: 'telegram',
+  send: async (message) => {
+    try {
+      const response = await $fetch<{ result: { message_id: number } }>(
+        `https://api.telegram.org/bot${config.botToken}/sendMessage`,
+        {
+          method: 'POST',
+          body: { chat_id: message.recipient, text: message.text }
+        }
+      )
+      return { providerMessageId: String(response.result.message_id) }
+    } catch (error) {
+      throw new Error(`Telegram: ${getProviderErrorMessage(error)}`)
+    }
+  }
+})
+
+// Providers are built once per server process from the runtime config
+const providers = new Map<MessageChannel, MessageProvider>()
+
+// The provider configured for a channel (SMS_PROVIDER picks the SMS gateway;
+// Telegram is used when a bot token is set). Falls back to the log provider.
+export const getMessageProvider = (channel: MessageChannel) => {
+  const cached = providers.get(channel)
+  if (cached) return cached
+
+  const config = useRuntimeConfig().messages
+  let provider: MessageProvider
+
+  if (channel === 'telegram') {
+    provider = config.telegram.botToken
+      ? createTelegramProvider({ botToken: config.telegram.botToken })
+      : createLogProvider('telegram')
+  } else if (config.smsProvider === 'eskiz') {
+    provider = createEskizProvider(config.eskiz)
+  } else if (config.smsProvider === 'playmobile') {
+    provider = createPlaymobileProvider(config.playmobile)
+  } else {
+    provider = createLogProvider('sms')
+  }
+
+  providers.set(channel, provider)
+  return provider
+}
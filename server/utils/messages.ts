@@ -0,0 +1,134 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { MessageChannel, MessageTemplate } from '~/types/message'
+
+// Columns returned for a student message
+export const STUDENT_MESSAGE_SELECT = 'id, student_id, template, channel, recipient, body, status, provider, error, attempts, scheduled_for, sent_at, created_at'
+
+// Message texts; {name} placeholders are filled from the message params.
+// With Eskiz, every text must also be approved as a template in its cabinet.
+export const MESSAGE_TEMPLATES: Record<MessageTemplate, string> = {
+  payment_received: "Razgovor: {student_name}, {payment_date} kuni {amount} so'm to'lovingiz qabul qilindi. Rahmat!",
+  payment_due: "Razgovor: {student_name}, {due_date} gacha {amount} so'm to'lashingiz kerak.",
+  balance_overdue: "Razgovor: {student_name}, {due_date} dan beri {amount} so'm qarzdorligingiz bor. Iltimos, to'lovni amalga oshiring."
+}
+
+// Tries before a message is marked failed, and the wait between them
+const MAX_SEND_ATTEMPTS = 3
+const RETRY_DELAY_MINUTES = 10
+
+// Messages sent per run of the scheduled task
+const SEND_BATCH_SIZE = 50
+
+// 1250000 -> "1 250 000"
+const formatMessageAmount = (value: unknown) => {
+  return Math.round(Number(value)).toString().replace(/\B(?=(\d{3})+(?!\d))/g, ' ')
+}
+
+// 2025-03-01 -> "01.03.2025"
+const formatMessageDate = (value: unknown) => {
+  const [year, month, day] = String(value).split('-')
+  return `${day}.${month}.${year}`
+}
+
+// Fill a template with the message params
+export const renderMessage = (template: MessageTemplate, params: Record<string, unknown>) => {
+  return MESSAGE_TEMPLATES[template].replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = params[key]
+    if (value === undefined || value === null) return placeholder
+    if (key === 'amount') return formatMessageAmount(value)
+    if (key.endsWith('_date')) return formatMessageDate(value)
+    return String(value)
+  })
+}
+
+interface QueuedMessage {
+  id: string
+  template: MessageTemplate
+  params: Record<string, unknown>
+  channel: MessageChannel
+  recipient: string
+  attempts: number
+  student: { messages_opted_out_at: string | null; archived_at: string | null } | null
+}
+
+// Send the messages that are due, through the provider of their channel.
+// Nitro never runs the same task twice at once, so a message is not picked
+// up by two runs.
+export const sendQueuedMessages = async (client: SupabaseClient<any>) => {
+  const now = new Date()
+
+  const { data, error } = await client
+    .from('student_messages')
+    .select('id, template, params, channel, recipient, attempts, student:students(messages_opted_out_at, archived_at)')
+    .eq('status', 'pending')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for')
+    .limit(SEND_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load queued messages: ${error.message}`)
+
+  const summary = { sent: 0, failed: 0, skipped: 0 }
+
+  for (const message of (data || []) as unknown as QueuedMessage[]) {
+    let update: Record<string, unknown>
+
+    // The student opted out or was archived after the message was queued
+    if (message.student?.messages_opted_out_at || message.student?.archived_at) {
+      update = {
+        status: 'skipped',
+        error: message.student.messages_opted_out_at ? 'Student opted out of messages' : 'Student is archived'
+      }
+      summary.skipped++
+    } else {
+      const text = renderMessage(message.template, message.params)
+      const provider = getMessageProvider(message.channel)
+      const attempts = message.attempts + 1
+
+      try {
+        const { providerMessageId } = await provider.send({ id: message.id, recipient: message.recipient, text })
+        update = {
+          status: 'sent',
+          body: text,
+          provider: provider.name,
+          provider_message_id: providerMessageId,
+          error: null,
+          attempts,
+          sent_at: new Date().toISOString()
+        }
+        summary.sent++
+      } catch (sendError) {
+        const isLastAttempt = attempts >= MAX_SEND_ATTEMPTS
+        update = {
+          status: isLastAttempt ? 'failed' : 'pending',
+          body: text,
+          provider: provider.name,
+          error: sendError instanceof Error ? sendError.message : 'Unknown error',
+          attempts,
+          scheduled_for: new Date(Date.now() + RETRY_DELAY_MINUTES * 60 * 1000).toISOString()
+        }
+        if (isLastAttempt) summary.failed++
+      }
+    }
+
+    const { error: updateError } = await client
+      .from('student_messages')
+      .update(update)
+      .eq('id', message.id)
+
+    if (updateError) {
+      console.error(`Failed to update message ${message.id}:`, updateError.message)
+    }
+  }
+
+  return summary
+}
+
+// Queue today's payment due and overdue balance reminders (see
+// queue_payment_reminders in SQL); they go out with the next send run
+export const queuePaymentReminders = async (client: SupabaseClient<any>) => {
+  const { data, error } = await client.rpc('queue_payment_reminders')
+
+  if (error) throw new Error(`Failed to queue payment reminders: ${error.message}`)
+
+  return { queued: data as number }
+}
@@ -0,0 +1,268 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { timingSafeEqual } from 'node:crypto'
+import { serverSupabaseServiceRole } from '#supabase/server'
+
+// Payme Merchant API: one JSON-RPC endpoint that Payme calls with
+// CheckPerformTransaction, CreateTransaction, PerformTransaction,
+// CancelTransaction, CheckTransaction and GetStatement. Amounts are in
+// tiyin (1/100 UZS), times in milliseconds, and errors are returned as
+// JSON-RPC errors with HTTP 200.
+
+// Payme cancels transactions that were not performed within 12 hours
+const PAYME_TRANSACTION_TIMEOUT_MS = 12 * 60 * 60 * 1000
+
+// Cancel reason Payme uses for a timed-out transaction
+const PAYME_REASON_TIMEOUT = 4
+
+interface PaymeErrorInfo {
+  code: number
+  message: { ru: string; uz: string; en: string }
+}
+
+const PAYME_ERRORS = {
+  invalidAmount: { code: -31001, message: { ru: 'Неверная сумма', uz: "Noto'g'ri summa", en: 'Invalid amount' } },
+  transactionNotFound: { code: -31003, message: { ru: 'Транзакция не найдена', uz: 'Tranzaksiya topilmadi', en: 'Transaction not found' } },
+  cannotCancel: { code: -31007, message: { ru: 'Невозможно отменить транзакцию', uz: "Tranzaksiyani bekor qilib bo'lmaydi", en: 'Transaction cannot be cancelled' } },
+  cannotPerform: { code: -31008, message: { ru: 'Невозможно выполнить операцию', uz: "Amalni bajarib bo'lmaydi", en: 'Unable to perform the operation' } },
+  studentNotFound: { code: -31050, message: { ru: 'Студент не найден', uz: 'Talaba topilmadi', en: 'Student not found' } },
+  system: { code: -32400, message: { ru: 'Системная ошибка', uz: 'Tizim xatosi', en: 'System error' } },
+  invalidRequest: { code: -32600, message: { ru: 'Неверный запрос', uz: "Noto'g'ri so'rov", en: 'Invalid request' } },
+  methodNotFound: { code: -32601, message: { ru: 'Метод не найден', uz: 'Metod topilmadi', en: 'Method not found' } },
+  unauthorized: { code: -32504, message: { ru: 'Недостаточно привилегий', uz: "Ruxsat yo'q", en: 'Insufficient privileges' } }
+} satisfies Record<string, PaymeErrorInfo>
+
+// An error answered to Payme; data names the field at fault
+class PaymeError extends Error {
+  info: PaymeErrorInfo
+  data?: string
+
+  constructor(info: PaymeErrorInfo, data?: string) {
+    super(info.message.en)
+    this.info = info
+    this.data = data
+  }
+}
+
+// Payme signs in with Basic auth as "Paycom" and the merchant key
+const assertPaymeAuthorization = (event: H3Event) => {
+  const { key } = useRuntimeConfig(event).gateways.payme
+  const header = getRequestHeader(event, 'authorization') || ''
+  const expected = Buffer.from(`Basic ${Buffer.from(`Paycom:${key}`).toString('base64')}`)
+  const received = Buffer.from(header)
+
+  if (!key || received.length !== expected.length || !timingSafeEqual(received, expected)) {
+    logAccessDenied(event, 'invalid_signature')
+    throw new PaymeError(PAYME_ERRORS.unauthorized)
+  }
+}
+
+// Payme's numeric state: 1 created, 2 performed, -1 cancelled before and
+// -2 cancelled after it was performed
+const getPaymeState = (transaction: GatewayTransaction) => {
+  if (transaction.state === 'created') return 1
+  if (transaction.state === 'performed') return 2
+  return transaction.performed_at ? -2 : -1
+}
+
+const toPaymeTime = (value: string | null) => (value ? new Date(value).getTime() : 0)
+
+const isTimedOut = (transaction: GatewayTransaction) => {
+  return transaction.state === 'created' &&
+    Date.now() - toPaymeTime(transaction.provider_created_at || transaction.created_at) > PAYME_TRANSACTION_TIMEOUT_MS
+}
+
+// Amount in UZS from tiyin
+const readPaymeAmount = (params: Record<string, any>) => {
+  const tiyin = params.amount
+  const amount = typeof tiyin === 'number' && Number.isInteger(tiyin) ? tiyin / 100 : NaN
+  if (!isValidGatewayAmount(amount)) throw new PaymeError(PAYME_ERRORS.invalidAmount, 'amount')
+  return amount
+}
+
+// The student named by account.student_code
+const readPaymeStudent = async (client: SupabaseClient<any>, params: Record<string, any>) => {
+  const student = await findStudentByCode(client, params.account?.student_code)
+  if (!student) throw new PaymeError(PAYME_ERRORS.studentNotFound, 'student_code')
+  return student
+}
+
+const readPaymeTransactionId = (params: Record<string, any>) => {
+  if (typeof params.id !== 'string' || !params.id) throw new PaymeError(PAYME_ERRORS.invalidRequest, 'id')
+  return params.id
+}
+
+// Load a transaction by its Payme ID, or answer "not found"
+const getPaymeTransaction = async (client: SupabaseClient<any>, params: Record<string, any>) => {
+  const transaction = await findGatewayTransaction(client, 'payme', readPaymeTransactionId(params))
+  if (!transaction) throw new PaymeError(PAYME_ERRORS.transactionNotFound, 'id')
+  return transaction
+}
+
+// A transaction left unperformed for too long is cancelled, and cannot go on
+const cancelIfTimedOut = async (client: SupabaseClient<any>, transaction: GatewayTransaction) => {
+  if (!isTimedOut(transaction)) return
+  await cancelGatewayTransaction(client, transaction, PAYME_REASON_TIMEOUT)
+  throw new PaymeError(PAYME_ERRORS.cannotPerform)
+}
+
+const methods: Record<string, (client: SupabaseClient<any>, params: Record<string, any>) => Promise<unknown>> = {
+  // May the payment go ahead? Any positive amount is accepted, so parents
+  // can pay part of a month or several months at once.
+  CheckPerformTransaction: async (client, params) => {
+    readPaymeAmount(params)
+    await readPaymeStudent(client, params)
+    return { allow: true }
+  },
+
+  CreateTransaction: async (client, params) => {
+    const externalId = readPaymeTransactionId(params)
+    let transaction = await findGatewayTransaction(client, 'payme', externalId)
+
+    if (transaction) {
+      if (transaction.state !== 'created') throw new PaymeError(PAYME_ERRORS.cannotPerform)
+      // A repeat must be for the same amount and student as the transaction it repeats
+      if (Number(transaction.amount) !== readPaymeAmount(params)) throw new PaymeError(PAYME_ERRORS.invalidAmount, 'amount')
+      const student = await readPaymeStudent(client, params)
+      if (student.id !== transaction.student_id) throw new PaymeError(PAYME_ERRORS.studentNotFound, 'student_code')
+      await cancelIfTimedOut(client, transaction)
+    } else {
+      const amount = readPaymeAmount(params)
+      const student = await readPaymeStudent(client, params)
+
+      transaction = await createGatewayTransaction(client, {
+        provider: 'payme',
+        externalId,
+        studentId: student.id,
+        amount,
+        providerCreatedAt: typeof params.time === 'number' ? new Date(params.time).toISOString() : undefined
+      })
+    }
+
+    return {
+      create_time: toPaymeTime(transaction.created_at),
+      transaction: String(transaction.number),
+      state: getPaymeState(transaction)
+    }
+  },
+
+  PerformTransaction: async (client, params) => {
+    let transaction = await getPaymeTransaction(client, params)
+
+    if (transaction.state === 'cancelled') throw new PaymeError(PAYME_ERRORS.cannotPerform)
+    await cancelIfTimedOut(client, transaction)
+
+    if (transaction.state === 'created') {
+      transaction = await performGatewayTransaction(client, transaction)
+    }
+
+    return {
+      transaction: String(transaction.number),
+      perform_time: toPaymeTime(transaction.performed_at),
+      state: getPaymeState(transaction)
+    }
+  },
+
+  CancelTransaction: async (client, params) => {
+    let transaction = await getPaymeTransaction(client, params)
+
+    if (transaction.state !== 'cancelled') {
+      try {
+        transaction = await cancelGatewayTransaction(client, transaction, typeof params.reason === 'number' ? params.reason : null)
+      } catch (error) {
+        // The payment was refunded in part by staff and cannot be voided
+        if ((error as { statusCode?: number })?.statusCode === 422) throw new PaymeError(PAYME_ERRORS.cannotCancel)
+        throw error
+      }
+    }
+
+    return {
+      transaction: String(transaction.number),
+      cancel_time: toPaymeTime(transaction.cancelled_at),
+      state: getPaymeState(transaction)
+    }
+  },
+
+  CheckTransaction: async (client, params) => {
+    const transaction = await getPaymeTransaction(client, params)
+
+    return {
+      create_time: toPaymeTime(transaction.created_at),
+      perform_time: toPaymeTime(transaction.performed_at),
+      cancel_time: toPaymeTime(transaction.cancelled_at),
+      transaction: String(transaction.number),
+      state: getPaymeState(transaction),
+      reason: transaction.cancel_reason
+    }
+  },
+
+  // Transactions Payme created within a period, for reconciliation
+  GetStatement: async (client, params) => {
+    if (typeof params.from !== 'number' || typeof params.to !== 'number') {
+      throw new PaymeError(PAYME_ERRORS.invalidRequest, 'from')
+    }
+
+    const { data, error } = await client
+      .from('gateway_transactions')
+      .select(GATEWAY_TRANSACTION_SELECT)
+      .eq('provider', 'payme')
+      .gte('provider_created_at', new Date(params.from).toISOString())
+      .lte('provider_created_at', new Date(params.to).toISOString())
+      .order('provider_created_at')
+
+    if (error) throwDatabaseError(error, 'load statement')
+
+    return {
+      transactions: ((data || []) as unknown as GatewayTransaction[]).map(transaction => ({
+        id: transaction.external_id,
+        time: toPaymeTime(transaction.provider_created_at),
+        amount: Math.round(Number(transaction.amount) * 100),
+        account: { student_code: transaction.student?.student_code },
+        create_time: toPaymeTime(transaction.created_at),
+        perform_time: toPaymeTime(transaction.performed_at),
+        cancel_time: toPaymeTime(transaction.cancelled_at),
+        transaction: String(transaction.number),
+        state: getPaymeState(transaction),
+        reason: transaction.cancel_reason
+      }))
+    }
+  }
+}
+
+// Answer one Payme JSON-RPC request
+export const handlePaymeRequest = async (event: H3Event) => {
+  let requestId: unknown = null
+
+  try {
+    const body = await readBody(event).catch(() => null)
+    requestId = body?.id ?? null
+
+    assertPaymeAuthorization(event)
+
+    if (!body || typeof body.method !== 'string' || !body.params || typeof body.params !== 'object') {
+      throw new PaymeError(PAYME_ERRORS.invalidRequest)
+    }
+
+    const method = methods[body.method]
+    if (!method) throw new PaymeError(PAYME_ERRORS.methodNotFound, body.method)
+
+    const result = await method(serverSupabaseServiceRole(event), body.params)
+    return { jsonrpc: '2.0', id: requestId, result }
+  } catch (error) {
+    if (!(error instanceof PaymeError)) {
+      console.error('Payme callback failed:', error)
+    }
+
+    const paymeError = error instanceof PaymeError ? error : new PaymeError(PAYME_ERRORS.system)
+
+    return {
+      jsonrpc: '2.0',
+      id: requestId,
+      error: {
+        code: paymeError.info.code,
+        message: paymeError.info.message,
+        data: paymeError.data
+      }
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type GatewayProvider = 'payme' | 'click'
+
+export interface GatewayTransaction {
+  id: string
+  number: number
+  provider: GatewayProvider
+  external_id: string
+  student_id: string
+  amount: number
+  state: 'created' | 'performed' | 'cancelled'
+  payment_id: string | null
+  provider_created_at: string | null
+  performed_at: string | null
+  cancelled_at: string | null
+  cancel_reason: number | null
+  created_at: string
+  student?: { student_code: string } | null
+}
+
+// Columns returned for a gateway transaction
+export const GATEWAY_TRANSACTION_SELECT = `
+  id, number, provider, external_id, student_id, amount, state, payment_id,
+  provider_created_at, performed_at, cancelled_at, cancel_reason, created_at,
+  student:students(student_code)
+`
+
+// Whether an amount in UZS can be recorded as a payment
+export const isValidGatewayAmount = (amount: number) => {
+  return Number.isFinite(amount) && amount > 0 && amount <= MAX_AMOUNT
+}
+
+// The student paid for with this code, or null. Archived students cannot be
+// paid for.
+export const findStudentByCode = async (client: SupabaseClient<any>, studentCode: unknown) => {
+  if (typeof studentCode !== 'string' || !studentCode.trim()) return null
+
+  const { data, error } = await client
+    .from('students')
+    .select('id, student_code, full_name')
+    .eq('student_code', studentCode.trim())
+    .is('archived_at', null)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'find student')
+
+  return data as { id: string; student_code: string; full_name: string } | null
+}
+
+// A transaction by the provider's own ID, or null
+export const findGatewayTransaction = async (client: SupabaseClient<any>, provider: GatewayProvider, externalId: string) => {
+  const { data, error } = await client
+    .from('gateway_transactions')
+    .select(GATEWAY_TRANSACTION_SELECT)
+    .eq('provider', provider)
+    .eq('external_id', externalId)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'load transaction')
+
+  return data as GatewayTransaction | null
+}
+
+// Store a new transaction. When the same provider transaction arrives twice
+// at once, the second insert loses and gets the stored one back.
+export const createGatewayTransaction = async (
+  client: SupabaseClient<any>,
+  input: { provider: GatewayProvider; externalId: string; studentId: string; amount: number; providerCreatedAt?: string }
+) => {
+  const { data, error } = await client
+    .from('gateway_transactions')
+    .insert({
+      provider: input.provider,
+      external_id: input.externalId,
+      student_id: input.studentId,
+      amount: input.amount,
+      provider_created_at: input.providerCreatedAt ?? null
+    })
+    .select(GATEWAY_TRANSACTION_SELECT)
+    .single()
+
+  if (error?.code === '23505') {
+    const existing = await findGatewayTransaction(client, input.provider, input.externalId)
+    if (existing) return existing
+  }
+
+  if (error) throwDatabaseError(error, 'create transaction')
+
+  return data as unknown as GatewayTransaction
+}
+
+// Record the payment of a transaction (see perform_gateway_transaction in SQL)
+export const performGatewayTransaction = async (client: SupabaseClient<any>, transaction: GatewayTransaction) => {
+  const { error } = await client.rpc('perform_gateway_transaction', { p_transaction_id: transaction.id })
+
+  if (error) throwDatabaseError(error, 'perform transaction')
+
+  return (await findGatewayTransaction(client, transaction.provider, transaction.external_id))!
+}
+
+// Cancel a transaction and void its payment (see cancel_gateway_transaction in SQL)
+export const cancelGatewayTransaction = async (client: SupabaseClient<any>, transaction: GatewayTransaction, reason: number | null) => {
+  const { error } = await client.rpc('cancel_gateway_transaction', {
+    p_transaction_id: transaction.id,
+    p_reason: reason
+  })
+
+  if (error) throwDatabaseError(error, 'cancel transaction')
+
+  return (await findGatewayTransaction(client, transaction.provider, transaction.external_id))!
+}
@@ -0,0 +1,123 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { StudentPayment } from '~/types/payment'
+
+// Columns returned for a payment, with its correction history
+export const PAYMENT_SELECT = `
+  id, amount, payment_date, payment_type, payment_type_original, receipt_path, receipt_url, status, refunded_amount, created_at, updated_at,
+  history:payment_history(id, payment_id, action, reason, amount, changes, performed_by, performed_by_name, created_at),
+  attachments:payment_attachments(id, payment_id, storage_path, thumbnail_path, file_name, mime_type, size_bytes, created_at)
+`
+
+// Allow one day of slack for clients ahead of UTC (Tashkent is UTC+5)
+const assertNotFuture = (v: ReturnType<typeof createValidator>, paymentDate?: string) => {
+  const latestDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  if (paymentDate && paymentDate > latestDate) {
+    v.fail('payment_date', 'Payment date cannot be in the future')
+  }
+}
+
+// Validate a request to record a payment
+export const parsePaymentInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    payment_date: v.date('payment_date', { required: true }),
+    payment_type: v.string('payment_type', { required: true, max: 50 }),
+    amount: v.amount('amount', { required: true })
+  }
+
+  assertNotFuture(v, input.payment_date)
+
+  v.assert()
+  return input as { [K in keyof typeof input]: NonNullable<(typeof input)[K]> }
+}
+
+// Validate a correction of a payment's date, type or amount
+export const parsePaymentEditInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    payment_date: v.date('payment_date', { required: true }),
+    payment_type: v.string('payment_type', { required: true, max: 50 }),
+    amount: v.amount('amount', { required: true }),
+    reason: v.string('reason', { max: 500 })
+  }
+
+  assertNotFuture(v, input.payment_date)
+
+  v.assert()
+  return input as { payment_date: string; payment_type: string; amount: number; reason?: string }
+}
+
+// Validate a request to void a payment
+export const parsePaymentVoidInput = (body: unknown) => {
+  const v = createValidator(body)
+  const reason = v.string('reason', { required: true, max: 500 })
+  v.assert()
+  return { reason: reason! }
+}
+
+// Validate a request to refund (part of) a payment
+export const parsePaymentRefundInput = (body: unknown) => {
+  const v = createValidator(body)
+  const amount = v.amount('amount', { required: true })
+  const reason = v.string('reason', { required: true, max: 500 })
+  v.assert()
+  return { amount: amount!, reason: reason! }
+}
+
+// Add short-lived thumbnail links to the attachments of payments
+export const withAttachmentThumbnails = async (event: H3Event, payments: StudentPayment[]) => {
+  const thumbnailPaths = payments.flatMap(payment =>
+    (payment.attachments || []).map(attachment => attachment.thumbnail_path).filter((path): path is string => !!path)
+  )
+  const urls = await createReceiptUrls(event, thumbnailPaths)
+
+  return payments.map(payment => ({
+    ...payment,
+    attachments: (payment.attachments || []).map(attachment => ({
+      ...attachment,
+      thumbnail_url: attachment.thumbnail_path ? urls[attachment.thumbnail_path] ?? null : null
+    }))
+  }))
+}
+
+// Single payment with its history (oldest entry first)
+export const fetchPayment = async (client: SupabaseClient<any>, paymentId: string) => {
+  const { data, error } = await client
+    .from('student_payments')
+    .select(PAYMENT_SELECT)
+    .eq('id', paymentId)
+    .order('created_at', { referencedTable: 'payment_history', ascending: true })
+    .single()
+
+  if (error) throwDatabaseError(error, 'load payment')
+
+  return data as unknown as StudentPayment
+}
+
+// Columns returned for a payment method
+export const PAYMENT_METHOD_SELECT = 'id, code, name, aliases, is_active, sort_order, created_at'
+
+// Validate a request to create (or, with partial, update) a payment method
+export const parsePaymentMethodInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const v = createValidator(body)
+  const required = !options.partial
+
+  const input = {
+    code: options.partial ? undefined : v.string('code', { required: true, max: 50 }),
+    name: v.string('name', { required, max: 100 }),
+    is_active: v.boolean('is_active'),
+    sort_order: v.integer('sort_order', { min: 0, max: 100000 })
+  }
+
+  if (input.code && !/^[a-z0-9_]+$/.test(input.code)) {
+    v.fail('code', 'Use lower-case letters, digits and underscores only')
+  }
+
+  v.assert()
+  return Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as { code?: string; name?: string; is_active?: boolean; sort_order?: number }
+}
@@ -0,0 +1,237 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { randomUUID } from 'node:crypto'
+import { serverSupabaseServiceRole } from '#supabase/server'
+
+export const RECEIPT_BUCKET = 'receipts'
+
+// Largest receipt accepted (5MB)
+export const MAX_RECEIPT_SIZE = 5 * 1024 * 1024
+
+// Signed receipt links expire after five minutes
+const SIGNED_URL_TTL_SECONDS = 5 * 60
+
+// Allowed receipt types, recognised by their leading bytes rather than the
+// browser-supplied content type
+const RECEIPT_TYPES = [
+  { mime: 'image/jpeg', ext: 'jpg', matches: (b: Buffer) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mime: 'image/png', ext: 'png', matches: (b: Buffer) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mime: 'image/webp', ext: 'webp', matches: (b: Buffer) => b.toString('ascii', 0, 4) === 'RIFF' && b.toString('ascii', 8, 12) === 'WEBP' },
+  { mime: 'application/pdf', ext: 'pdf', matches: (b: Buffer) => b.toString('ascii', 0, 5) === '%PDF-' }
+]
+
+// Largest thumbnail accepted (512KB)
+const MAX_THUMBNAIL_SIZE = 512 * 1024
+
+const detectReceiptType = (data: Buffer) => RECEIPT_TYPES.find(candidate => candidate.matches(data))
+
+// Read the "file" part (and the optional image "thumbnail" part) of a
+// multipart upload and check their size and type
+export const readReceiptUpload = async (event: H3Event) => {
+  // Reject oversized bodies before buffering them
+  const contentLength = Number(getRequestHeader(event, 'content-length') || 0)
+  if (contentLength > MAX_RECEIPT_SIZE + MAX_THUMBNAIL_SIZE + 64 * 1024) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'File too large: receipts must be 5MB or smaller'
+    })
+  }
+
+  const parts = await readMultipartFormData(event)
+  const file = parts?.find(part => part.name === 'file' && part.filename)
+  const thumbnail = parts?.find(part => part.name === 'thumbnail' && part.data.length > 0)
+
+  if (!file || file.data.length === 0) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'file is required',
+      data: { errors: [{ field: 'file', message: 'This field is required' }] }
+    })
+  }
+
+  if (file.data.length > MAX_RECEIPT_SIZE) {
+    throw createError({
+      statusCode: 413,
+      statusMessage: 'File too large: receipts must be 5MB or smaller'
+    })
+  }
+
+  const type = detectReceiptType(file.data)
+  if (!type) {
+    throw createError({
+      statusCode: 415,
+      statusMessage: 'Invalid file type: upload a JPEG, PNG, WebP image or a PDF'
+    })
+  }
+
+  // Thumbnails are only kept for images and must be images themselves
+  let thumbnailFile: { data: Buffer; mime: string; ext: string } | null = null
+  if (thumbnail && type.mime.startsWith('image/')) {
+    const thumbnailType = detectReceiptType(thumbnail.data)
+    if (!thumbnailType?.mime.startsWith('image/') || thumbnail.data.length > MAX_THUMBNAIL_SIZE) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'Invalid thumbnail: must be an image of 512KB or less',
+        data: { errors: [{ field: 'thumbnail', message: 'Must be an image of 512KB or less' }] }
+      })
+    }
+    thumbnailFile = { data: thumbnail.data, mime: thumbnailType.mime, ext: thumbnailType.ext }
+  }
+
+  return {
+    file: { data: file.data, mime: type.mime, ext: type.ext },
+    thumbnail: thumbnailFile,
+    fileName: file.filename!.slice(0, 255),
+    size: file.data.length
+  }
+}
+
+// Make sure the signed-in user can see the student (RLS decides)
+export const assertStudentAccess = async (client: SupabaseClient<any>, studentId: string) => {
+  const { error } = await client
+    .from('students')
+    .select('id')
+    .eq('id', studentId)
+    .single()
+
+  if (error) throwDatabaseError(error, 'load student')
+}
+
+// Store one file in the private bucket
+const storeFile = async (event: H3Event, path: string, file: { data: Buffer; mime: string }) => {
+  const { error } = await serverSupabaseServiceRole(event)
+    .storage
+    .from(RECEIPT_BUCKET)
+    .upload(path, file.data, { contentType: file.mime, upsert: false })
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to upload receipt: ${error.message}`
+    })
+  }
+}
+
+// Store a receipt (and its thumbnail) under the student's folder
+export const uploadReceipt = async (
+  event: H3Event,
+  studentId: string,
+  upload: Awaited<ReturnType<typeof readReceiptUpload>>
+) => {
+  const id = randomUUID()
+  const path = `${studentId}/${id}.${upload.file.ext}`
+  const thumbnailPath = upload.thumbnail ? `${studentId}/${id}.thumb.${upload.thumbnail.ext}` : null
+
+  await storeFile(event, path, upload.file)
+  if (upload.thumbnail && thumbnailPath) {
+    await storeFile(event, thumbnailPath, upload.thumbnail)
+  }
+
+  return {
+    storage_path: path,
+    thumbnail_path: thumbnailPath,
+    file_name: upload.fileName,
+    mime_type: upload.file.mime,
+    size_bytes: upload.size
+  }
+}
+
+const MIME_BY_EXT: Record<string, string> = Object.fromEntries(
+  RECEIPT_TYPES.map(type => [type.ext, type.mime])
+)
+
+// Maximum files attached to one payment in a single request
+const MAX_ATTACHMENTS = 10
+
+// Validate uploaded files being attached to a payment of this student.
+// Paths must come from the student's folder; the type follows from the
+// extension the server chose at upload time.
+export const parseAttachmentsInput = (input: unknown, studentId: string, options: { required?: boolean } = {}) => {
+  const fail = (message: string): never => {
+    throw createError({
+      statusCode: 422,
+      statusMessage: `Invalid attachments: ${message}`,
+      data: { errors: [{ field: 'attachments', message }] }
+    })
+  }
+
+  if (input === undefined || input === null) {
+    if (options.required) fail('At least one receipt file is required')
+    return []
+  }
+  if (!Array.isArray(input)) fail('Must be a list of uploaded files')
+
+  const items = input as unknown[]
+  if (options.required && items.length === 0) fail('At least one receipt file is required')
+  if (items.length > MAX_ATTACHMENTS) fail(`At most ${MAX_ATTACHMENTS} files per payment`)
+
+  const isOwnPath = (path: string) => path.startsWith(`${studentId}/`) && !path.includes('..')
+
+  return items.map((item) => {
+    const v = createValidator(item)
+    const attachment = {
+      storage_path: v.string('storage_path', { required: true, max: 500 }),
+      thumbnail_path: v.string('thumbnail_path', { max: 500 }) ?? null,
+      file_name: v.string('file_name', { required: true, max: 255 }),
+      size_bytes: v.integer('size_bytes', { min: 1, max: MAX_RECEIPT_SIZE }) ?? null
+    }
+    v.assert()
+
+    if (!isOwnPath(attachment.storage_path!) || (attachment.thumbnail_path && !isOwnPath(attachment.thumbnail_path))) {
+      fail('Receipt does not belong to this student')
+    }
+
+    const ext = attachment.storage_path!.split('.').pop() || ''
+    const mimeType = MIME_BY_EXT[ext] ?? fail('Unsupported file type')
+
+    return {
+      ...attachment,
+      storage_path: attachment.storage_path!,
+      file_name: attachment.file_name!,
+      mime_type: mimeType
+    }
+  })
+}
+
+// Short-lived links for many stored files at once, keyed by path
+export const createReceiptUrls = async (event: H3Event, paths: string[]) => {
+  if (paths.length === 0) return {} as Record<string, string>
+
+  const { data, error } = await serverSupabaseServiceRole(event)
+    .storage
+    .from(RECEIPT_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to open receipts: ${error.message}`
+    })
+  }
+
+  return Object.fromEntries(
+    (data || [])
+      .filter(item => item.path && item.signedUrl)
+      .map(item => [item.path!, item.signedUrl])
+  ) as Record<string, string>
+}
+
+// Short-lived link to a stored receipt
+export const createReceiptUrl = async (event: H3Event, path: string) => {
+  const { data, error } = await serverSupabaseServiceRole(event)
+    .storage
+    .from(RECEIPT_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+  if (error || !data) {
+    throw createError({
+      statusCode: error?.message?.includes('not found') ? 404 : 500,
+      statusMessage: `Failed to open receipt: ${error?.message || 'Unknown error'}`
+    })
+  }
+
+  return {
+    url: data.signedUrl,
+    expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString()
+  }
+}
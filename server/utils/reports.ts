@@ -0,0 +1,84 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const REPORT_KINDS = ['revenue', 'debt', 'enrollments'] as const
+
+export type ReportKindValue = (typeof REPORT_KINDS)[number]
+
+export const REVENUE_GROUPINGS = ['month', 'payment_type', 'tariff', 'manager'] as const
+
+export type RevenueGroupingValue = (typeof REVENUE_GROUPINGS)[number]
+
+// Longest range a report covers (three years)
+export const MAX_REPORT_DAYS = 1096
+
+// Validate the date range of a report; defaults to the last twelve months
+export const parseReportRangeInput = (input: unknown) => {
+  const v = createValidator(input)
+
+  const range = {
+    from: v.date('from'),
+    to: v.date('to')
+  }
+
+  if (range.from && range.to) {
+    if (range.to < range.from) {
+      v.fail('to', 'Must be on or after the start date')
+    } else if (new Date(range.to).getTime() - new Date(range.from).getTime() > MAX_REPORT_DAYS * 86400000) {
+      v.fail('to', 'Range can be at most three years')
+    }
+  }
+
+  v.assert()
+
+  const to = range.to || todayDate()
+  if (range.from) return { from: range.from, to }
+
+  // First day of the month eleven months before the end date
+  const start = new Date(`${to}T00:00:00Z`)
+  start.setUTCDate(1)
+  start.setUTCMonth(start.getUTCMonth() - 11)
+  return { from: start.toISOString().slice(0, 10), to }
+}
+
+// Validate how revenue should be grouped
+export const parseRevenueGrouping = (input: unknown) => {
+  const v = createValidator(input)
+  const groupBy = v.string('groupBy') || 'month'
+
+  if (!REVENUE_GROUPINGS.includes(groupBy as RevenueGroupingValue)) {
+    v.fail('groupBy', 'Unknown revenue grouping')
+  }
+
+  v.assert()
+  return groupBy as RevenueGroupingValue
+}
+
+// Validate which report is requested
+export const parseReportKind = (input: unknown) => {
+  const v = createValidator(input)
+  const report = v.string('report', { required: true })
+
+  if (report && !REPORT_KINDS.includes(report as ReportKindValue)) {
+    v.fail('report', 'Unknown report')
+  }
+
+  v.assert()
+  return report as ReportKindValue
+}
+
+// Rows of one report for a date range (see report_* functions in SQL)
+export const fetchReportRows = async (
+  client: SupabaseClient<any>,
+  report: ReportKindValue,
+  range: { from: string; to: string },
+  groupBy: RevenueGroupingValue = 'month'
+) => {
+  const { data, error } = report === 'revenue'
+    ? await client.rpc('report_revenue', { p_from: range.from, p_to: range.to, p_group_by: groupBy })
+    : report === 'debt'
+      ? await client.rpc('report_debt_aging', { p_from: range.from, p_to: range.to })
+      : await client.rpc('report_enrollments', { p_from: range.from, p_to: range.to })
+
+  if (error) throwDatabaseError(error, `load ${report} report`)
+  return (data || []) as Record<string, any>[]
+}
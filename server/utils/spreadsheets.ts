@@ -0,0 +1,224 @@
+import { inflateRawSync } from 'node:zlib'
+
+// Cells of the first sheet, row by row, as trimmed text
+export type SpreadsheetRows = string[][]
+
+// Bounds for reading untrusted files: the most rows and columns a sheet may
+// have, and the most bytes an xlsx may unpack to (zip bombs)
+export interface SpreadsheetLimits {
+  maxRows: number
+  maxColumns: number
+  maxUnpackedSize: number
+}
+
+// A file that is readable but bigger than the limits allow
+export class SpreadsheetLimitError extends Error {}
+
+// Split CSV text into rows; the delimiter (comma or semicolon, as Excel
+// uses in Russian and Uzbek locales) is taken from the header line
+const parseCsv = (text: string): SpreadsheetRows => {
+  const content = text.replace(/^\uFEFF/, '')
+  const firstLine = content.split(/\r?\n/, 1)[0] || ''
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ','
+
+  const rows: SpreadsheetRows = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Files of a zip archive by name (stored or deflated entries only), unpacking
+// at most maxUnpackedSize bytes in total
+const readZip = (data: Buffer, maxUnpackedSize: number) => {
+  const files = new Map<string, Buffer>()
+  let unpackedSize = 0
+
+  // End of central directory record, searched from the end of the file
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end < 0) throw new Error('Not a valid zip archive')
+
+  const entryCount = data.readUInt16LE(end + 10)
+  let offset = data.readUInt32LE(end + 16)
+
+  for (let n = 0; n < entryCount; n++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) throw new Error('Corrupt zip directory')
+
+    const method = data.readUInt16LE(offset + 10)
+    const compressedSize = data.readUInt32LE(offset + 20)
+    const nameLength = data.readUInt16LE(offset + 28)
+    const extraLength = data.readUInt16LE(offset + 30)
+    const commentLength = data.readUInt16LE(offset + 32)
+    const localOffset = data.readUInt32LE(offset + 42)
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength)
+
+    const dataStart = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28)
+    const raw = data.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === 0 || method === 8) {
+      const remaining = maxUnpackedSize - unpackedSize
+      if (raw.length > remaining) throw new SpreadsheetLimitError('The file unpacks to too much data')
+
+      let content = raw
+      if (method === 8) {
+        try {
+          content = inflateRawSync(raw, { maxOutputLength: Math.max(remaining, 1) })
+        } catch (error) {
+          if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new SpreadsheetLimitError('The file unpacks to too much data')
+          }
+          throw error
+        }
+      }
+
+      unpackedSize += content.length
+      files.set(name, content)
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+const decodeXml = (value: string) => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&')
+}
+
+// Text of every <t> element (rich text is split into several runs)
+const readText = (xml: string) => {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), match => decodeXml(match[1]!)).join('')
+}
+
+// Column index from a cell reference: A1 -> 0, AB7 -> 27
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '')
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+// Rows of the first sheet of an xlsx workbook. Row and column positions come
+// from the file, so they are checked before anything is placed at them.
+const parseXlsx = (data: Buffer, limits: SpreadsheetLimits): SpreadsheetRows => {
+  const files = readZip(data, limits.maxUnpackedSize)
+  const read = (name: string) => files.get(name)?.toString('utf8')
+
+  // Locate the first sheet through the workbook relationships
+  const workbook = read('xl/workbook.xml') || ''
+  const relationId = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1]
+  const relations = read('xl/_rels/workbook.xml.rels') || ''
+  const target = Array.from(relations.matchAll(/<Relationship\b[^>]*>/g))
+    .map(match => match[0])
+    .find(tag => tag.includes(`Id="${relationId}"`))
+    ?.match(/Target="([^"]+)"/)?.[1]
+
+  const sheetPath = target
+    ? target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    : Array.from(files.keys()).find(name => /^xl\/worksheets\/[^/]+\.xml$/.test(name))
+  const sheet = sheetPath ? read(sheetPath) : undefined
+  if (!sheet) throw new Error('The workbook has no sheets')
+
+  const sharedStrings = Array.from(
+    (read('xl/sharedStrings.xml') || '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => readText(match[1]!)
+  )
+
+  const rows: SpreadsheetRows = []
+  for (const rowMatch of sheet.matchAll(/<row\b([^>]*)>([\s\S]*?)<\/row>/g)) {
+    const rowNumber = Number(rowMatch[1]!.match(/\br="(\d+)"/)?.[1] || rows.length + 1)
+    if (rowNumber < 1 || rowNumber > limits.maxRows) {
+      throw new SpreadsheetLimitError(`The sheet has more than ${limits.maxRows} rows`)
+    }
+
+    const cells: string[] = []
+
+    for (const cellMatch of rowMatch[2]!.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]!
+      const body = cellMatch[2] || ''
+      const ref = attributes.match(/\br="([A-Z]+\d+)"/)?.[1]
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1]
+      const value = body.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      const text = type === 's'
+        ? sharedStrings[Number(value)] ?? ''
+        : type === 'inlineStr'
+          ? readText(body)
+          : decodeXml(value ?? '')
+
+      const column = ref ? columnIndex(ref) : cells.length
+      if (column < 0 || column >= limits.maxColumns) {
+        throw new SpreadsheetLimitError(`The sheet has more than ${limits.maxColumns} columns`)
+      }
+
+      cells[column] = text
+    }
+
+    // Keep blank rows in place so row numbers match the spreadsheet
+    rows[rowNumber - 1] = Array.from(cells, cell => cell ?? '')
+  }
+
+  return Array.from(rows, row => row ?? [])
+}
+
+// Read an uploaded CSV or XLSX file; xlsx files are recognised by the zip
+// signature rather than the file name
+export const readSpreadsheet = (data: Buffer, limits: SpreadsheetLimits): SpreadsheetRows => {
+  const isZip = data.length > 4 && data.readUInt32LE(0) === 0x04034b50
+  const rows = isZip ? parseXlsx(data, limits) : parseCsv(data.toString('utf8'))
+
+  if (rows.length > limits.maxRows) {
+    throw new SpreadsheetLimitError(`The sheet has more than ${limits.maxRows} rows`)
+  }
+
+  return rows.map(row => row.map(cell => cell.trim()))
+}
@@ -0,0 +1,195 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { UserRole } from '~/types/role'
+import type { StudentStatus } from '~/types/student'
+import { hasPermission } from '~/config/permissions'
+
+// Columns returned for a student together with their tariff, group and manager
+export const STUDENT_SELECT = `
+  *,
+  tariff:tariffs(id, name),
+  tariff_price:tariff_prices(id, name, price),
+  group:groups(id, code),
+  manager:profiles!manager_id(id, full_name, email)
+`
+
+// Lifecycle statuses (see student-status-schema.sql)
+export const STUDENT_STATUSES: StudentStatus[] = ['trial', 'active', 'frozen', 'graduated', 'dropped']
+
+// Statuses of students who still study at the school
+export const CURRENT_STUDENT_STATUSES: StudentStatus[] = ['trial', 'active', 'frozen']
+
+// Columns returned for an entry of a student's status log
+export const STUDENT_STATUS_CHANGE_SELECT = 'id, student_id, from_status, to_status, effective_from, effective_until, reason, created_at, author:profiles!changed_by(id, full_name, email)'
+
+// Normalize a phone number to +998XXXXXXXXX style, or null if it is not a phone
+export const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '')
+
+  // Local Uzbek number without the country code
+  if (digits.length === 9) return `+998${digits}`
+
+  if (digits.length < 9 || digits.length > 15) return null
+  return `+${digits}`
+}
+
+// Validate a create (or partial update) request for a student
+export const parseStudentInput = (body: unknown, options: { partial?: boolean } = {}) => {
+  const required = !options.partial
+  const v = createValidator(body)
+
+  const input = {
+    full_name: v.string('full_name', { required, max: 200 }),
+    phone: v.string('phone', { required, max: 30 }),
+    group_id: v.uuid('group_id', { required }),
+    tariff_id: v.uuid('tariff_id', { required }),
+    tariff_price_id: v.uuid('tariff_price_id', { required }),
+    notes: v.string('notes', { max: 2000 }),
+    // Reminders go to this Telegram chat instead of SMS when set
+    telegram_chat_id: v.string('telegram_chat_id', { max: 32 })
+  }
+
+  if (input.telegram_chat_id && !/^-?\d+$/.test(input.telegram_chat_id)) {
+    v.fail('telegram_chat_id', 'Must be a numeric Telegram chat ID')
+  }
+
+  if (input.phone) {
+    const phone = normalizePhone(input.phone)
+    if (phone) {
+      input.phone = phone
+    } else {
+      v.fail('phone', 'Must be a valid phone number')
+    }
+  }
+
+  if (options.partial && (v.has('tariff_id') || v.has('tariff_price_id')) && !(input.tariff_id && input.tariff_price_id)) {
+    v.fail('tariff_price_id', 'Tariff and price plan must be changed together')
+  }
+
+  v.assert()
+
+  // Drop fields that were not sent so partial updates leave them untouched
+  const values: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (!options.partial || v.has(key)) values[key] = value ?? null
+  }
+  return values as Partial<typeof input>
+}
+
+// Ensure the selected price plan belongs to the selected tariff
+export const assertTariffPrice = async (client: SupabaseClient<any>, tariffId: string, tariffPriceId: string) => {
+  const { data, error } = await client
+    .from('tariff_prices')
+    .select('id')
+    .eq('id', tariffPriceId)
+    .eq('tariff_id', tariffId)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'check price plan')
+
+  if (!data) {
+    throw createError({
+      statusCode: 422,
+      statusMessage: 'Price plan does not belong to the selected tariff',
+      data: { errors: [{ field: 'tariff_price_id', message: 'Price plan does not belong to the selected tariff' }] }
+    })
+  }
+}
+
+// Read a comma-separated status filter ("current" for students who still
+// study), or undefined for every status
+export const parseStudentStatusFilter = (value: unknown) => {
+  if (typeof value !== 'string' || !value || value === 'all') return undefined
+  if (value === 'current') return CURRENT_STUDENT_STATUSES
+
+  const statuses = value.split(',') as StudentStatus[]
+  if (statuses.some(status => !STUDENT_STATUSES.includes(status))) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Invalid status: Must be one of: current, all, ${STUDENT_STATUSES.join(', ')}`
+    })
+  }
+  return statuses
+}
+
+// Validate a status change: the new status, the day it takes effect, the
+// last day of a freeze and the reason (required to freeze or drop out)
+export const parseStudentStatusChangeInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    to_status: v.string('status', { required: true }) as StudentStatus | undefined,
+    effective_from: v.date('effective_from') ?? todayDate(),
+    effective_until: v.date('effective_until'),
+    reason: v.string('reason', { max: 500 })
+  }
+
+  if (input.to_status && !STUDENT_STATUSES.includes(input.to_status)) {
+    v.fail('status', `Must be one of: ${STUDENT_STATUSES.join(', ')}`)
+  }
+
+  if (input.to_status === 'frozen') {
+    if (!input.effective_until) v.fail('effective_until', 'Say until when the student is frozen')
+    else if (input.effective_until < input.effective_from) v.fail('effective_until', 'Must be on or after the start date')
+  } else if (input.effective_until) {
+    v.fail('effective_until', 'Only a freeze has an end date')
+  }
+
+  if ((input.to_status === 'frozen' || input.to_status === 'dropped') && !input.reason) {
+    v.fail('reason', 'This field is required')
+  }
+
+  v.assert()
+  return input as { to_status: StudentStatus; effective_from: string; effective_until?: string; reason?: string }
+}
+
+// Students for the list with their balances: head of sales sees the whole
+// team (optionally one manager), everyone else only their own students.
+// Archived students are listed on their own.
+export const listStudents = async (
+  client: SupabaseClient<any>,
+  profile: { id: string; role: UserRole },
+  options: { managerId?: string; archived?: boolean; statuses?: StudentStatus[] } = {}
+) => {
+  const { managerId, archived = false, statuses } = options
+
+  let query = client
+    .from('students')
+    .select(STUDENT_SELECT)
+    .order('created_at', { ascending: false })
+
+  query = archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null)
+
+  if (statuses) {
+    query = query.in('status', statuses)
+  }
+
+  if (hasPermission(profile.role, 'students.read.all')) {
+    if (managerId) {
+      query = query.eq('manager_id', managerId)
+    }
+  } else {
+    query = query.eq('manager_id', profile.id)
+  }
+
+  const { data, error } = await query
+
+  if (error) throwDatabaseError(error, 'load students')
+
+  const students = data || []
+  const balances = await fetchStudentBalances(client, students.map(student => student.id))
+
+  return students.map(student => ({
+    ...student,
+    balance: balances[student.id] || null
+  }))
+}
+
+// Move every student's status forward for freezes that ended and changes
+// scheduled for today (see sync_student_statuses in SQL)
+export const syncStudentStatuses = async (client: SupabaseClient<any>) => {
+  const { data, error } = await client.rpc('sync_student_statuses')
+
+  if (error) throw new Error(`Failed to sync student statuses: ${error.message}`)
+
+  return { updated: data as number }
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Validate a request to create a tariff
+export const parseTariffInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    name: v.string('name', { required: true, max: 100 })
+  }
+
+  v.assert()
+  return input as { name: string }
+}
+
+// Validate a request to add a price plan to a tariff
+export const parseTariffPriceInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    tariff_id: v.uuid('tariff_id', { required: true }),
+    name: v.string('name', { required: true, max: 100 }),
+    price: v.amount('price', { required: true })
+  }
+
+  v.assert()
+  return input as { tariff_id: string; name: string; price: number }
+}
+
+// Columns returned for an entry of a price plan's history
+export const TARIFF_PRICE_VERSION_SELECT = 'id, tariff_price_id, price, effective_from, applies_to_existing, created_at, author:profiles!created_by(id, full_name, email)'
+
+// Validate a price change: a new price from a date that is today or later,
+// for everyone on the plan or only for students who join from that date
+export const parseTariffPriceVersionInput = (body: unknown) => {
+  const v = createValidator(body)
+
+  const input = {
+    price: v.amount('price', { required: true }),
+    effective_from: v.date('effective_from', { required: true }),
+    applies_to_existing: v.boolean('applies_to_existing') ?? true
+  }
+
+  if (input.effective_from && input.effective_from < todayDate()) {
+    v.fail('effective_from', 'Must be today or a later date')
+  }
+
+  v.assert()
+  return input as { price: number; effective_from: string; applies_to_existing: boolean }
+}
+
+// Bring every plan's current price in line with its history, for price
+// changes that take effect today (see sync_tariff_prices in SQL)
+export const syncTariffPrices = async (client: SupabaseClient<any>) => {
+  const { data, error } = await client.rpc('sync_tariff_prices')
+
+  if (error) throw new Error(`Failed to sync tariff prices: ${error.message}`)
+
+  return { updated: data as number }
+}
@@ -0,0 +1,17 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient } from '@supabase/supabase-js'
+
+// Supabase client with the server key, for scheduled tasks: they run
+// outside any request, so there is no user session to act as
+export const getTaskClient = (): SupabaseClient<any> => {
+  const config = useRuntimeConfig()
+  const serverKey = config.supabase.secretKey || config.supabase.serviceKey
+
+  if (!serverKey) {
+    throw new Error('Missing server key: set SUPABASE_SECRET_KEY to run scheduled tasks')
+  }
+
+  return createClient(config.public.supabase.url, serverKey, {
+    auth: { detectSessionInUrl: false, persistSession: false, autoRefreshToken: false }
+  })
+}
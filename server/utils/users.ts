@@ -0,0 +1,163 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { serverSupabaseServiceRole } from '#supabase/server'
+import type { UserRole } from '~/types/role'
+import { STUDENT_MANAGER_ROLES } from '~/config/permissions'
+
+export const USER_ROLES: UserRole[] = ['superadmin', 'head_sales', 'sales', 'head_teaching', 'teacher']
+
+export const USER_SELECT = 'id, email, full_name, role, is_approved, created_at, sales_id, archived_at, deactivated_at'
+
+export const INVITATION_SELECT = `
+  id, email, full_name, role, user_id, expires_at, accepted_at, revoked_at, created_at,
+  invited_by_profile:profiles!invited_by(id, full_name, email)
+`
+
+// How long an invitee has to set a password
+export const INVITATION_TTL_DAYS = 7
+
+// Long enough to never run out; lifted again with 'none'
+const SIGN_IN_BAN_DURATION = '876000h'
+
+// Page the one-time links in invitation and reset emails lead to
+const getSetPasswordUrl = (event: H3Event) => `${getRequestURL(event).origin}/auth/set-password`
+
+export const getInvitationExpiry = () => {
+  return new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
+
+// Create the auth user for an invitation and email them the one-time link.
+// The profile trigger takes the role from the invitation row, not from here.
+export const sendInvitationEmail = async (event: H3Event, invitation: { email: string; full_name: string | null }) => {
+  const { data, error } = await serverSupabaseServiceRole(event).auth.admin.inviteUserByEmail(invitation.email, {
+    redirectTo: getSetPasswordUrl(event),
+    data: { full_name: invitation.full_name }
+  })
+
+  if (error) {
+    throw createError({
+      statusCode: error.status === 422 ? 409 : 500,
+      statusMessage: `Failed to send invitation: ${error.message}`
+    })
+  }
+
+  return data.user.id
+}
+
+// Email the user a one-time link to choose a new password
+export const sendPasswordResetEmail = async (event: H3Event, email: string) => {
+  const { error } = await serverSupabaseServiceRole(event).auth.resetPasswordForEmail(email, {
+    redirectTo: getSetPasswordUrl(event)
+  })
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to send password reset: ${error.message}`
+    })
+  }
+}
+
+// Block or allow sign-in at the auth level, which also stops existing
+// sessions from being refreshed
+export const setSignInBlocked = async (event: H3Event, userId: string, blocked: boolean) => {
+  const { error } = await serverSupabaseServiceRole(event).auth.admin.updateUserById(userId, {
+    ban_duration: blocked ? SIGN_IN_BAN_DURATION : 'none'
+  })
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to ${blocked ? 'block' : 'unblock'} sign-in: ${error.message}`
+    })
+  }
+}
+
+// Remove an auth user; their profile goes with it
+export const deleteAuthUser = async (event: H3Event, userId: string) => {
+  const { error } = await serverSupabaseServiceRole(event).auth.admin.deleteUser(userId)
+
+  if (error) {
+    throw createError({
+      statusCode: 500,
+      statusMessage: `Failed to delete user from auth: ${error.message}`
+    })
+  }
+}
+
+// Load a user the caller may manage
+export const getManagedUser = async (client: SupabaseClient<any>, userId: string) => {
+  const { data, error } = await client
+    .from('profiles')
+    .select(USER_SELECT)
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'load user')
+
+  if (!data) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'User not found or access denied'
+    })
+  }
+
+  return data
+}
+
+// Superadmins cannot lock themselves out or demote themselves
+export const assertNotSelf = (currentUserId: string, userId: string, action: string) => {
+  if (userId === currentUserId) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `You cannot ${action} your own account`
+    })
+  }
+}
+
+// A user moved out of the sales roles must not leave students without a manager
+export const assertNoManagedStudents = async (client: SupabaseClient<any>, userId: string, role: UserRole) => {
+  if (STUDENT_MANAGER_ROLES.includes(role)) return
+
+  const { count, error } = await client
+    .from('students')
+    .select('id', { count: 'exact', head: true })
+    .eq('manager_id', userId)
+    .is('archived_at', null)
+
+  if (error) throwDatabaseError(error, 'check students')
+
+  if (count) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `This user still manages ${count} student${count === 1 ? '' : 's'}. Reassign them first.`
+    })
+  }
+}
+
+// Load an invitation that can still be resent or revoked
+export const getOpenInvitation = async (client: SupabaseClient<any>, id: string) => {
+  const { data, error } = await client
+    .from('user_invitations')
+    .select('id, email, full_name, user_id, accepted_at, revoked_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) throwDatabaseError(error, 'load invitation')
+
+  if (!data) {
+    throw createError({
+      statusCode: 404,
+      statusMessage: 'Invitation not found or access denied'
+    })
+  }
+
+  if (data.accepted_at || data.revoked_at) {
+    throw createError({
+      statusCode: 409,
+      statusMessage: `This invitation has already been ${data.accepted_at ? 'accepted' : 'revoked'}`
+    })
+  }
+
+  return data
+}
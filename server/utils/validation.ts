@@ -0,0 +1,159 @@
+export interface ValidationIssue {
+  field: string
+  message: string
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/
+
+// Largest amount accepted for prices and payments (999 billion UZS)
+export const MAX_AMOUNT = 999999999999
+
+// Collects field errors while reading a request body
+export const createValidator = (input: unknown) => {
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>
+  const issues: ValidationIssue[] = []
+
+  const fail = (field: string, message: string) => {
+    issues.push({ field, message })
+  }
+
+  // Required or optional trimmed string
+  const string = (field: string, options: { required?: boolean; max?: number } = {}) => {
+    const value = body[field]
+    if (value === undefined || value === null || value === '') {
+      if (options.required) fail(field, 'This field is required')
+      return undefined
+    }
+    if (typeof value !== 'string') {
+      fail(field, 'Must be a string')
+      return undefined
+    }
+    const trimmed = value.trim()
+    if (options.required && !trimmed) {
+      fail(field, 'This field is required')
+      return undefined
+    }
+    if (options.max && trimmed.length > options.max) {
+      fail(field, `Must be at most ${options.max} characters`)
+      return undefined
+    }
+    return trimmed || undefined
+  }
+
+  // Required or optional UUID
+  const uuid = (field: string, options: { required?: boolean } = {}) => {
+    const value = string(field, options)
+    if (value && !UUID_PATTERN.test(value)) {
+      fail(field, 'Must be a valid ID')
+      return undefined
+    }
+    return value
+  }
+
+  // Positive amount in UZS
+  const amount = (field: string, options: { required?: boolean } = {}) => {
+    const value = body[field]
+    if (value === undefined || value === null || value === '') {
+      if (options.required) fail(field, 'This field is required')
+      return undefined
+    }
+    const numeric = typeof value === 'string' ? Number(value.replace(/[\s,]/g, '')) : value
+    if (typeof numeric !== 'number' || !Number.isFinite(numeric) || numeric <= 0) {
+      fail(field, 'Must be a positive number')
+      return undefined
+    }
+    if (numeric > MAX_AMOUNT) {
+      fail(field, 'Amount is too large')
+      return undefined
+    }
+    return numeric
+  }
+
+  // Whole number within optional bounds
+  const integer = (field: string, options: { required?: boolean; min?: number; max?: number } = {}) => {
+    const value = body[field]
+    if (value === undefined || value === null || value === '') {
+      if (options.required) fail(field, 'This field is required')
+      return undefined
+    }
+    const numeric = typeof value === 'string' ? Number(value) : value
+    if (typeof numeric !== 'number' || !Number.isInteger(numeric)) {
+      fail(field, 'Must be a whole number')
+      return undefined
+    }
+    if ((options.min !== undefined && numeric < options.min) || (options.max !== undefined && numeric > options.max)) {
+      fail(field, `Must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}`)
+      return undefined
+    }
+    return numeric
+  }
+
+  // Calendar date in YYYY-MM-DD format
+  const date = (field: string, options: { required?: boolean } = {}) => {
+    const value = string(field, options)
+    if (!value) return undefined
+    const parsed = new Date(`${value}T00:00:00Z`)
+    if (!DATE_PATTERN.test(value) || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== value) {
+      fail(field, 'Must be a valid date (YYYY-MM-DD)')
+      return undefined
+    }
+    return value
+  }
+
+  // Time of day in HH:MM format
+  const time = (field: string, options: { required?: boolean } = {}) => {
+    const value = string(field, options)
+    if (!value) return undefined
+    if (!TIME_PATTERN.test(value)) {
+      fail(field, 'Must be a valid time (HH:MM)')
+      return undefined
+    }
+    return value.slice(0, 5)
+  }
+
+  // Optional boolean flag
+  const boolean = (field: string, options: { required?: boolean } = {}) => {
+    const value = body[field]
+    if (value === undefined || value === null) {
+      if (options.required) fail(field, 'This field is required')
+      return undefined
+    }
+    if (typeof value !== 'boolean') {
+      fail(field, 'Must be true or false')
+      return undefined
+    }
+    return value
+  }
+
+  // Whether the field was sent at all (for partial updates)
+  const has = (field: string) => field in body
+
+  // Throw a 422 with every collected issue
+  const assert = () => {
+    if (issues.length > 0) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: issues[0]!.message === 'This field is required'
+          ? `${issues[0]!.field} is required`
+          : `Invalid ${issues[0]!.field}: ${issues[0]!.message}`,
+        data: { errors: issues }
+      })
+    }
+  }
+
+  return { string, uuid, amount, integer, date, time, boolean, has, fail, assert, issues }
+}
+
+// Read a route parameter that must be a UUID
+export const getUuidParam = (event: Parameters<typeof getRouterParam>[0], name: string) => {
+  const value = getRouterParam(event, name)
+  if (!value || !UUID_PATTERN.test(value)) {
+    throw createError({
+      statusCode: 400,
+      statusMessage: `Invalid ${name}`
+    })
+  }
+  return value
+}